@@ -0,0 +1,120 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Server } from 'lucide-react';
+
+export interface HostResult {
+  target: string;
+  openPorts: number[];
+  services: { port: number; protocol: string; service: string; product?: string; version?: string }[];
+  relatedAssets: { hostname: string }[];
+  findings: { severity: string; type: string }[];
+}
+
+export interface HostDiscovery {
+  addresses: number;
+  probePorts: number[];
+  live: { address: string; port: number; state: string }[];
+}
+
+interface HostResultsProps {
+  hosts: HostResult[];
+  discovery: HostDiscovery;
+}
+
+const SEVERITIES = ['critical', 'high', 'medium', 'low'];
+
+// Live hosts of a range scan, each with its own ports, services and findings
+export function HostResults({ hosts, discovery }: HostResultsProps) {
+  const getSeverityColor = (severity: string) => {
+    switch (severity) {
+      case 'critical': return 'bg-red-600';
+      case 'high': return 'bg-orange-600';
+      case 'medium': return 'bg-yellow-600';
+      default: return 'bg-blue-600';
+    }
+  };
+
+  return (
+    <Card className="bg-gray-800 border-gray-700">
+      <CardHeader>
+        <CardTitle className="text-xl text-white flex items-center">
+          <Server className="w-5 h-5 text-primary mr-2" />
+          Hosts ({discovery.live.length} live of {discovery.addresses})
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {hosts.length === 0 ? (
+          <p className="text-gray-400 text-center py-8">
+            No host answered on ports {discovery.probePorts.join(', ')}
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow className="border-gray-700">
+                  <TableHead className="text-gray-400">Host</TableHead>
+                  <TableHead className="text-gray-400">Open Ports</TableHead>
+                  <TableHead className="text-gray-400">Services</TableHead>
+                  <TableHead className="text-gray-400">Findings</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {hosts.map((host) => {
+                  const liveVia = discovery.live.find((live) => live.address === host.target);
+                  return (
+                    <TableRow key={host.target} className="border-gray-700">
+                      <TableCell className="text-white font-mono">
+                        {host.target}
+                        {host.relatedAssets.map((asset) => (
+                          <div key={asset.hostname} className="text-xs text-gray-500">{asset.hostname}</div>
+                        ))}
+                        {liveVia && (
+                          <div className="text-xs text-gray-500">up: {liveVia.port}/tcp {liveVia.state}</div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-gray-300 font-mono">
+                        {host.openPorts.length > 0 ? host.openPorts.join(', ') : <span className="text-gray-500">—</span>}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {host.services.map((service) => (
+                            <Badge
+                              key={`${service.port}/${service.protocol}`}
+                              variant="outline"
+                              className="text-gray-300 border-gray-600"
+                              title={[service.product, service.version].filter(Boolean).join(' ')}
+                            >
+                              {service.port}/{service.protocol} {service.service}
+                            </Badge>
+                          ))}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {SEVERITIES.map((severity) => {
+                            const count = host.findings.filter((finding) => finding.severity === severity).length;
+                            return count > 0 && (
+                              <Badge
+                                key={severity}
+                                className={`${getSeverityColor(severity)} text-white`}
+                                title={host.findings.filter((finding) => finding.severity === severity).map((finding) => finding.type).join('\n')}
+                              >
+                                {count} {severity}
+                              </Badge>
+                            );
+                          })}
+                          {host.findings.length === 0 && <span className="text-gray-500">—</span>}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,85 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Globe } from 'lucide-react';
+import type { HttpEndpoint } from '@shared/schema';
+
+interface HttpEndpointsProps {
+  endpoints: HttpEndpoint[];
+}
+
+// Open ports that answered HTTP or HTTPS, each fingerprinted on its own
+export function HttpEndpoints({ endpoints }: HttpEndpointsProps) {
+  if (endpoints.length === 0) {
+    return null;
+  }
+
+  const getStatusColor = (statusCode: number | null) => {
+    if (!statusCode) return 'bg-gray-600';
+    if (statusCode < 300) return 'bg-green-600';
+    if (statusCode < 400) return 'bg-blue-600';
+    if (statusCode < 500) return 'bg-yellow-600';
+    return 'bg-red-600';
+  };
+
+  const sortedEndpoints = [...endpoints].sort((a, b) => a.port - b.port || a.url.localeCompare(b.url));
+
+  return (
+    <Card className="bg-gray-800 border-gray-700 mt-6">
+      <CardHeader>
+        <CardTitle className="text-xl text-white flex items-center">
+          <Globe className="w-5 h-5 text-blue-500 mr-2" />
+          HTTP Endpoints ({endpoints.length})
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow className="border-gray-700">
+                <TableHead className="text-gray-400">URL</TableHead>
+                <TableHead className="text-gray-400">Status</TableHead>
+                <TableHead className="text-gray-400">Title</TableHead>
+                <TableHead className="text-gray-400">Technologies</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sortedEndpoints.map((endpoint) => {
+                const technologies = (endpoint.technologies as { name: string; version?: string }[] | null) || [];
+                const server = (endpoint.headers as Record<string, string> | null)?.server;
+                return (
+                  <TableRow key={endpoint.id} className="border-gray-700">
+                    <TableCell className="text-white font-mono">
+                      <a href={endpoint.url} target="_blank" rel="noopener noreferrer" className="hover:text-primary">
+                        {endpoint.url}
+                      </a>
+                      {endpoint.ipAddress && <div className="text-xs text-gray-500">{endpoint.ipAddress}</div>}
+                    </TableCell>
+                    <TableCell>
+                      <Badge className={`${getStatusColor(endpoint.statusCode)} text-white`}>
+                        {endpoint.statusCode ?? '—'}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-gray-300">{endpoint.title || <span className="text-gray-500">—</span>}</TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {technologies.map((technology) => (
+                          <Badge key={technology.name} variant="outline" className="text-gray-300 border-gray-600">
+                            {technology.name}{technology.version ? ` ${technology.version}` : ''}
+                          </Badge>
+                        ))}
+                        {technologies.length === 0 && server && (
+                          <span className="text-xs text-gray-500 font-mono">{server}</span>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
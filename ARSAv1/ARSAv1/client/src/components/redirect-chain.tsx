@@ -0,0 +1,59 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { ArrowDown, CornerDownRight } from 'lucide-react';
+
+export interface RedirectHop {
+  url: string;
+  statusCode?: number;
+  location?: string;
+  headers: Record<string, string>;
+  error?: string;
+}
+
+interface RedirectChainProps {
+  chain: RedirectHop[];
+}
+
+// Requests made for the target's root page, from the first URL to the page that was fingerprinted
+export function RedirectChain({ chain }: RedirectChainProps) {
+  if (chain.length < 2) {
+    return null;
+  }
+
+  const getStatusColor = (hop: RedirectHop) => {
+    if (!hop.statusCode) return 'bg-red-600';
+    if (hop.statusCode < 300) return 'bg-green-600';
+    if (hop.statusCode < 400) return 'bg-blue-600';
+    return 'bg-yellow-600';
+  };
+
+  return (
+    <Card className="bg-gray-800 border-gray-700 mb-6">
+      <CardHeader>
+        <CardTitle className="text-xl text-white flex items-center">
+          <CornerDownRight className="w-5 h-5 text-blue-500 mr-2" />
+          Redirect Chain ({chain.length - 1} {chain.length === 2 ? 'redirect' : 'redirects'})
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-2">
+          {chain.map((hop, index) => (
+            <div key={`${index}-${hop.url}`}>
+              {index > 0 && <ArrowDown className="w-4 h-4 text-gray-500 ml-2 mb-2" />}
+              <div className="flex items-center gap-3">
+                <Badge className={`${getStatusColor(hop)} text-white`}>{hop.statusCode ?? 'error'}</Badge>
+                <span
+                  className={`font-mono text-sm break-all ${hop.url.startsWith('http:') ? 'text-yellow-400' : 'text-white'}`}
+                  title={Object.entries(hop.headers).map(([name, value]) => `${name}: ${value}`).join('\n')}
+                >
+                  {hop.url}
+                </span>
+                {hop.error && <span className="text-xs text-red-400">{hop.error}</span>}
+              </div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,55 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Network } from 'lucide-react';
+
+export interface RelatedAsset {
+  hostname: string;
+  ip: string;
+  source: string;
+}
+
+interface RelatedAssetsProps {
+  assets: RelatedAsset[];
+}
+
+// Hostnames found on the target's infrastructure that fall outside its domain
+export function RelatedAssets({ assets }: RelatedAssetsProps) {
+  if (assets.length === 0) {
+    return null;
+  }
+
+  const sortedAssets = [...assets].sort((a, b) => a.hostname.localeCompare(b.hostname));
+
+  return (
+    <Card className="bg-gray-800 border-gray-700 mt-6">
+      <CardHeader>
+        <CardTitle className="text-xl text-white flex items-center">
+          <Network className="w-5 h-5 text-purple-500 mr-2" />
+          Related Assets ({assets.length})
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow className="border-gray-700">
+                <TableHead className="text-gray-400">Hostname</TableHead>
+                <TableHead className="text-gray-400">Address</TableHead>
+                <TableHead className="text-gray-400">Source</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sortedAssets.map((asset) => (
+                <TableRow key={`${asset.hostname}-${asset.ip}`} className="border-gray-700">
+                  <TableCell className="text-white font-mono">{asset.hostname}</TableCell>
+                  <TableCell className="text-gray-400 font-mono text-xs">{asset.ip}</TableCell>
+                  <TableCell className="text-xs text-gray-500">{asset.source}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,17 +1,24 @@
-import { useState } from 'react';
+import { useMemo, useRef, useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Card, CardContent } from '@/components/ui/card';
-import { Search, Globe } from 'lucide-react';
+import { Search, Globe, Upload } from 'lucide-react';
 import { targetSchema, type TargetInput } from '@/lib/validation';
-import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { parsePortSpec } from '@shared/port-spec';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { apiRequest } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
 
+interface WordlistSummary {
+  bundled: { name: string; entryCount: number }[];
+  uploaded: { id: number; name: string; entryCount: number }[];
+}
+
 interface ScanFormProps {
   onScanStart: (scanId: number) => void;
 }
@@ -23,6 +30,34 @@ export function ScanForm({ onScanStart }: ScanFormProps) {
     osintGathering: true,
     deepAnalysis: false,
   });
+  // Bundled lists are referenced by name, uploaded ones by `uploaded:<id>`
+  const [wordlist, setWordlist] = useState('small');
+  const [concurrency, setConcurrency] = useState(50);
+  // Comma-separated resolver addresses; empty uses the server's defaults
+  const [resolvers, setResolvers] = useState('');
+  // nmap-style TCP port list and/or named sets, checked with the same parser the server uses
+  const [portSpec, setPortSpec] = useState('common');
+  const [portConcurrency, setPortConcurrency] = useState(200);
+  // Range targets only: live hosts port-scanned at once
+  const [hostConcurrency, setHostConcurrency] = useState(4);
+  // Active probes beyond the TCP scan are opt-in, matching the server defaults
+  const [udpScan, setUdpScan] = useState(false);
+  const [exposureChecks, setExposureChecks] = useState({
+    redis: false,
+    mongodb: false,
+    elasticsearch: false,
+    memcached: false,
+  });
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const portSpecError = useMemo(() => {
+    try {
+      parsePortSpec(portSpec);
+      return undefined;
+    } catch (error) {
+      return (error as Error).message;
+    }
+  }, [portSpec]);
 
   const { toast } = useToast();
   const queryClient = useQueryClient();
@@ -35,9 +70,55 @@ export function ScanForm({ onScanStart }: ScanFormProps) {
     },
   });
 
+  const { data: wordlists } = useQuery<WordlistSummary>({
+    queryKey: ['/api/wordlists'],
+  });
+
+  const uploadWordlistMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const response = await fetch(`/api/wordlists?name=${encodeURIComponent(file.name)}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'text/plain' },
+        body: await file.text(),
+        credentials: 'include',
+      });
+      if (!response.ok) throw new Error(`${response.status}: ${await response.text()}`);
+      return response.json();
+    },
+    onSuccess: (uploaded) => {
+      toast({
+        title: "Wordlist Uploaded",
+        description: `${uploaded.name} (${uploaded.entryCount} entries)`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/wordlists'] });
+      setWordlist(`uploaded:${uploaded.id}`);
+    },
+    onError: (error) => {
+      toast({
+        title: "Upload Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const startScanMutation = useMutation({
     mutationFn: async (data: TargetInput) => {
-      const response = await apiRequest('POST', '/api/scans', data);
+      const enumeration = wordlist.startsWith('uploaded:')
+        ? { wordlistId: parseInt(wordlist.slice('uploaded:'.length)), concurrency }
+        : { wordlist, concurrency };
+      const servers = resolvers.split(',').map((server) => server.trim()).filter(Boolean);
+      const response = await apiRequest('POST', '/api/scans', {
+        ...data,
+        options: {
+          enumeration,
+          dns: { servers },
+          ports: { spec: portSpec, concurrency: portConcurrency },
+          discovery: { hostConcurrency },
+          udp: { enabled: udpScan },
+          exposureChecks,
+        },
+      });
       return response.json();
     },
     onSuccess: (scan) => {
@@ -59,6 +140,7 @@ export function ScanForm({ onScanStart }: ScanFormProps) {
   });
 
   const onSubmit = (data: TargetInput) => {
+    if (portSpecError) return;
     startScanMutation.mutate(data);
   };
 
@@ -77,7 +159,7 @@ export function ScanForm({ onScanStart }: ScanFormProps) {
                       <div className="relative">
                         <Input
                           {...field}
-                          placeholder="Enter target domain or IP address"
+                          placeholder="Enter target domain, IP address or range (10.0.0.0/24)"
                           className="bg-gray-900 border-gray-700 text-white placeholder-gray-400 pr-12 rounded-l-xl rounded-r-none focus:border-primary"
                           disabled={startScanMutation.isPending}
                         />
@@ -90,7 +172,7 @@ export function ScanForm({ onScanStart }: ScanFormProps) {
               />
               <Button
                 type="submit"
-                disabled={startScanMutation.isPending}
+                disabled={startScanMutation.isPending || !!portSpecError}
                 className="bg-primary hover:bg-primary/90 text-black font-semibold px-8 py-4 rounded-r-xl rounded-l-none"
               >
                 {startScanMutation.isPending ? (
@@ -107,6 +189,114 @@ export function ScanForm({ onScanStart }: ScanFormProps) {
               </Button>
             </div>
 
+            <div className="flex flex-wrap gap-4 justify-center items-center">
+              <div className="flex items-center space-x-2">
+                <label className="text-sm text-gray-300">Wordlist</label>
+                <Select value={wordlist} onValueChange={setWordlist}>
+                  <SelectTrigger className="w-48 bg-gray-900 border-gray-700 text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(wordlists?.bundled || [{ name: 'small', entryCount: 0 }]).map((list) => (
+                      <SelectItem key={list.name} value={list.name}>
+                        {list.name}{list.entryCount ? ` (${list.entryCount})` : ''}
+                      </SelectItem>
+                    ))}
+                    {wordlists?.uploaded.map((list) => (
+                      <SelectItem key={list.id} value={`uploaded:${list.id}`}>
+                        {list.name} ({list.entryCount})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept=".txt,text/plain"
+                  className="hidden"
+                  onChange={(event) => {
+                    const file = event.target.files?.[0];
+                    if (file) uploadWordlistMutation.mutate(file);
+                    event.target.value = '';
+                  }}
+                />
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  disabled={uploadWordlistMutation.isPending}
+                  onClick={() => fileInputRef.current?.click()}
+                  className="border-gray-700 text-gray-300"
+                >
+                  <Upload className="w-4 h-4 mr-1" />
+                  Upload
+                </Button>
+              </div>
+              <div className="flex items-center space-x-2">
+                <label htmlFor="concurrency" className="text-sm text-gray-300">Concurrency</label>
+                <Input
+                  id="concurrency"
+                  type="number"
+                  min={1}
+                  max={1000}
+                  value={concurrency}
+                  onChange={(event) => setConcurrency(Math.min(1000, Math.max(1, parseInt(event.target.value) || 1)))}
+                  className="w-24 bg-gray-900 border-gray-700 text-white"
+                />
+              </div>
+              <div className="flex items-center space-x-2">
+                <label htmlFor="resolvers" className="text-sm text-gray-300">Resolvers</label>
+                <Input
+                  id="resolvers"
+                  value={resolvers}
+                  onChange={(event) => setResolvers(event.target.value)}
+                  placeholder="System default"
+                  className="w-48 bg-gray-900 border-gray-700 text-white placeholder-gray-500"
+                />
+              </div>
+            </div>
+
+            <div className="flex flex-wrap gap-4 justify-center items-start">
+              <div className="space-y-1">
+                <div className="flex items-center space-x-2">
+                  <label htmlFor="ports" className="text-sm text-gray-300">Ports</label>
+                  <Input
+                    id="ports"
+                    value={portSpec}
+                    onChange={(event) => setPortSpec(event.target.value)}
+                    placeholder="common, top-1000, 1-1024,3389"
+                    aria-invalid={!!portSpecError}
+                    className="w-56 bg-gray-900 border-gray-700 text-white placeholder-gray-500"
+                  />
+                </div>
+                {portSpecError && <p className="text-sm text-red-400">{portSpecError}</p>}
+              </div>
+              <div className="flex items-center space-x-2">
+                <label htmlFor="port-concurrency" className="text-sm text-gray-300">Port Concurrency</label>
+                <Input
+                  id="port-concurrency"
+                  type="number"
+                  min={1}
+                  max={5000}
+                  value={portConcurrency}
+                  onChange={(event) => setPortConcurrency(Math.min(5000, Math.max(1, parseInt(event.target.value) || 1)))}
+                  className="w-24 bg-gray-900 border-gray-700 text-white"
+                />
+              </div>
+              <div className="flex items-center space-x-2">
+                <label htmlFor="host-concurrency" className="text-sm text-gray-300">Host Concurrency</label>
+                <Input
+                  id="host-concurrency"
+                  type="number"
+                  min={1}
+                  max={64}
+                  value={hostConcurrency}
+                  onChange={(event) => setHostConcurrency(Math.min(64, Math.max(1, parseInt(event.target.value) || 1)))}
+                  className="w-20 bg-gray-900 border-gray-700 text-white"
+                />
+              </div>
+            </div>
+
             <div className="flex flex-wrap gap-4 justify-center">
               <div className="flex items-center space-x-2">
                 <Checkbox
@@ -157,6 +347,38 @@ export function ScanForm({ onScanStart }: ScanFormProps) {
                 </label>
               </div>
             </div>
+
+            <div className="flex flex-wrap gap-4 justify-center">
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="udp"
+                  checked={udpScan}
+                  onCheckedChange={(checked) => setUdpScan(checked as boolean)}
+                />
+                <label htmlFor="udp" className="text-sm text-gray-300">
+                  UDP Scan (DNS, NTP, SNMP, IKE)
+                </label>
+              </div>
+              {([
+                ['redis', 'Redis'],
+                ['mongodb', 'MongoDB'],
+                ['elasticsearch', 'Elasticsearch'],
+                ['memcached', 'Memcached'],
+              ] as const).map(([service, label]) => (
+                <div key={service} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`exposure-${service}`}
+                    checked={exposureChecks[service]}
+                    onCheckedChange={(checked) =>
+                      setExposureChecks(prev => ({ ...prev, [service]: checked as boolean }))
+                    }
+                  />
+                  <label htmlFor={`exposure-${service}`} className="text-sm text-gray-300">
+                    {label} Exposure Check
+                  </label>
+                </div>
+              ))}
+            </div>
           </form>
         </Form>
       </CardContent>
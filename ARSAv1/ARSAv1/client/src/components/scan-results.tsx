@@ -5,24 +5,31 @@ import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Download, Brain, Bug, Globe, Code, Search } from 'lucide-react';
 import { VulnerabilityTable } from './vulnerability-table';
+import { SubdomainTable, type WildcardInfo } from './subdomain-table';
+import { RelatedAssets, type RelatedAsset } from './related-assets';
 import { TechStackDisplay } from './tech-stack-display';
+import { HttpEndpoints } from './http-endpoints';
+import { RedirectChain, type RedirectHop } from './redirect-chain';
+import { HostResults, type HostResult, type HostDiscovery } from './host-results';
 import { ScanProgress } from './scan-progress';
 import { MitreAttackDisplay } from './mitre-attack-display';
-import type { Scan, Vulnerability, Subdomain, Technology } from '@shared/schema';
+import type { Scan, Vulnerability, Subdomain, Technology, HttpEndpoint } from '@shared/schema';
 
 interface ScanResultsProps {
   scan: Scan;
   vulnerabilities: Vulnerability[];
   subdomains: Subdomain[];
   technologies: Technology[];
+  httpEndpoints: HttpEndpoint[];
   scanProgress?: {
     status: string;
     progress: number;
     message?: string;
+    wildcard?: WildcardInfo;
   };
 }
 
-export function ScanResults({ scan, vulnerabilities, subdomains, technologies, scanProgress }: ScanResultsProps) {
+export function ScanResults({ scan, vulnerabilities, subdomains, technologies, httpEndpoints, scanProgress }: ScanResultsProps) {
   const [isExporting, setIsExporting] = useState(false);
 
   const handleExportReport = async () => {
@@ -55,6 +62,20 @@ export function ScanResults({ scan, vulnerabilities, subdomains, technologies, s
     return { level: 'Low', color: 'bg-green-500' };
   };
 
+  const results = scan.results as {
+    wildcard?: WildcardInfo;
+    relatedAssets?: RelatedAsset[];
+    openPorts?: number[];
+    portScan?: { spec: string; tested: string; testedCount: number };
+    redirectChain?: RedirectHop[];
+    addressFamilies?: { family: 'ipv4' | 'ipv6'; address: string; openPorts?: number[] }[];
+    udpScan?: { spec: string; ports: { port: number; state: string; service?: string }[] };
+    // Range targets only
+    discovery?: HostDiscovery;
+    hosts?: HostResult[];
+  } | null;
+  const wildcard = results?.wildcard || scanProgress?.wildcard;
+
   const currentStatus = scanProgress?.status || scan.status;
   const currentProgress = scanProgress?.progress || scan.progress || 0;
 
@@ -71,6 +92,31 @@ export function ScanResults({ scan, vulnerabilities, subdomains, technologies, s
             <Badge variant="outline" className="text-gray-300">
               {scan.scanType}
             </Badge>
+            {results?.portScan && (
+              <span className="text-sm text-gray-400" title={`Tested: ${results.portScan.tested}`}>
+                Ports: <span className="font-mono">{results.portScan.spec}</span>{' '}
+                ({results.openPorts?.length || 0} open of {results.portScan.testedCount} tested)
+              </span>
+            )}
+            {results?.addressFamilies && results.addressFamilies.length > 1 && (
+              <span className="text-sm text-gray-400">
+                {results.addressFamilies.map((family) => (
+                  <span key={family.address} className="mr-2" title={family.address}>
+                    {family.family === 'ipv4' ? 'IPv4' : 'IPv6'}: {family.openPorts?.length ?? 0} open
+                  </span>
+                ))}
+              </span>
+            )}
+            {results?.udpScan && (
+              <span
+                className="text-sm text-gray-400"
+                title={results.udpScan.ports.map((port) => `${port.port}/udp ${port.state}${port.service ? ` (${port.service})` : ''}`).join('\n')}
+              >
+                UDP: <span className="font-mono">{results.udpScan.spec}</span>{' '}
+                ({results.udpScan.ports.filter((port) => port.state === 'open').length} open,{' '}
+                {results.udpScan.ports.filter((port) => port.state === 'open|filtered').length} open|filtered)
+              </span>
+            )}
           </div>
         </div>
         <Button
@@ -204,6 +250,11 @@ export function ScanResults({ scan, vulnerabilities, subdomains, technologies, s
         </Card>
       )}
 
+      {/* Per-host results for range targets */}
+      {results?.discovery && results.hosts && (
+        <HostResults hosts={results.hosts} discovery={results.discovery} />
+      )}
+
       {/* Tabbed Results */}
       <Tabs defaultValue="vulnerabilities" className="w-full">
         <TabsList className="grid w-full grid-cols-5 bg-gray-800 border-gray-700">
@@ -229,44 +280,14 @@ export function ScanResults({ scan, vulnerabilities, subdomains, technologies, s
         </TabsContent>
         
         <TabsContent value="subdomains">
-          <Card className="bg-gray-800 border-gray-700">
-            <CardHeader>
-              <CardTitle className="text-xl text-white flex items-center">
-                <Globe className="w-5 h-5 text-blue-500 mr-2" />
-                Discovered Subdomains ({subdomains.length})
-              </CardTitle>
-            </CardHeader>
-            <CardContent>
-              {subdomains.length === 0 ? (
-                <div className="text-center py-8">
-                  <Globe className="w-12 h-12 mx-auto mb-4 text-gray-500 opacity-50" />
-                  <p className="text-gray-400">No subdomains discovered</p>
-                </div>
-              ) : (
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  {subdomains.map((subdomain) => (
-                    <div key={subdomain.id} className="bg-gray-900 p-4 rounded-lg">
-                      <div className="flex items-center justify-between">
-                        <span className="text-white font-mono">{subdomain.subdomain}</span>
-                        <Badge className={subdomain.status === 'active' ? 'bg-green-500' : 'bg-gray-500'}>
-                          {subdomain.status}
-                        </Badge>
-                      </div>
-                      {subdomain.ipAddress && (
-                        <div className="text-sm text-gray-400 mt-1">
-                          IP: {subdomain.ipAddress}
-                        </div>
-                      )}
-                    </div>
-                  ))}
-                </div>
-              )}
-            </CardContent>
-          </Card>
+          <SubdomainTable subdomains={subdomains} wildcard={wildcard} vulnerabilities={vulnerabilities} />
+          <RelatedAssets assets={results?.relatedAssets || []} />
         </TabsContent>
         
         <TabsContent value="technologies">
+          <RedirectChain chain={results?.redirectChain || []} />
           <TechStackDisplay technologies={technologies} />
+          <HttpEndpoints endpoints={httpEndpoints} />
         </TabsContent>
         
         <TabsContent value="mitre">
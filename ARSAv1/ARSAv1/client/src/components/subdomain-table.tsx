@@ -0,0 +1,170 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Globe, AlertTriangle } from 'lucide-react';
+import type { Subdomain, Vulnerability } from '@shared/schema';
+
+export interface WildcardInfo {
+  detected: boolean;
+  addresses: string[];
+}
+
+interface SubdomainTableProps {
+  subdomains: Subdomain[];
+  wildcard?: WildcardInfo;
+  vulnerabilities?: Vulnerability[];
+}
+
+export function SubdomainTable({ subdomains, wildcard, vulnerabilities = [] }: SubdomainTableProps) {
+  const getStatusColor = (status: string) => {
+    switch (status) {
+      case 'http_live':
+        return 'bg-green-500 text-white';
+      case 'resolving':
+        return 'bg-blue-500 text-white';
+      case 'wildcard':
+        return 'bg-yellow-500 text-black';
+      default:
+        return 'bg-gray-500 text-white';
+    }
+  };
+
+  const getStatusLabel = (status: string) => {
+    switch (status) {
+      case 'http_live':
+        return 'HTTP live';
+      case 'resolving':
+        return 'Resolving';
+      case 'dead':
+        return 'Dead';
+      case 'wildcard':
+        return 'Wildcard';
+      default:
+        return status;
+    }
+  };
+
+  // Live hosts first, then resolving, then everything else
+  const statusOrder = ['http_live', 'resolving', 'wildcard', 'dead'];
+  const byStatus = (a: Subdomain, b: Subdomain) => {
+    const order = statusOrder.indexOf(a.status) - statusOrder.indexOf(b.status);
+    return order !== 0 ? order : a.subdomain.localeCompare(b.subdomain);
+  };
+
+  // Children are listed directly under their parent, indented by their level in the hierarchy
+  const ids = new Set(subdomains.map((subdomain) => subdomain.id));
+  const childrenOf = (parentId: number | null) =>
+    subdomains
+      .filter((subdomain) => (subdomain.parentId != null && ids.has(subdomain.parentId) ? subdomain.parentId : null) === parentId)
+      .sort(byStatus);
+  const sortedSubdomains: { subdomain: Subdomain; level: number }[] = [];
+  const visit = (subdomain: Subdomain, level: number) => {
+    sortedSubdomains.push({ subdomain, level });
+    childrenOf(subdomain.id).forEach((child) => visit(child, level + 1));
+  };
+  childrenOf(null).forEach((root) => visit(root, 0));
+
+  return (
+    <Card className="bg-gray-800 border-gray-700">
+      <CardHeader>
+        <CardTitle className="text-xl text-white flex items-center">
+          <Globe className="w-5 h-5 text-blue-500 mr-2" />
+          Discovered Subdomains ({subdomains.length})
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {wildcard?.detected && (
+          <div className="flex items-start bg-gray-900 border border-yellow-500 p-4 rounded-lg mb-4">
+            <AlertTriangle className="w-5 h-5 text-yellow-500 mr-3 mt-0.5" />
+            <div className="text-sm text-gray-300">
+              <p className="font-semibold text-yellow-500">Wildcard DNS detected</p>
+              <p>
+                Random names resolve to{' '}
+                <span className="font-mono">{wildcard.addresses.join(', ')}</span>.
+                Candidates answering only with these addresses were filtered or flagged.
+              </p>
+            </div>
+          </div>
+        )}
+        {subdomains.length === 0 ? (
+          <div className="text-center py-8">
+            <Globe className="w-12 h-12 mx-auto mb-4 text-gray-500 opacity-50" />
+            <p className="text-gray-400">No subdomains discovered</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow className="border-gray-700">
+                  <TableHead className="text-gray-400">Subdomain</TableHead>
+                  <TableHead className="text-gray-400">Status</TableHead>
+                  <TableHead className="text-gray-400">Addresses</TableHead>
+                  <TableHead className="text-gray-400">HTTP</TableHead>
+                  <TableHead className="text-gray-400">Technologies</TableHead>
+                  <TableHead className="text-gray-400">Source</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sortedSubdomains.map(({ subdomain, level }) => {
+                  const addresses = (subdomain.addresses as string[] | null) || (subdomain.ipAddress ? [subdomain.ipAddress] : []);
+                  const technologies = (subdomain.technologies as { name: string; version?: string }[] | null) || [];
+                  const sourceDetail = subdomain.sourceDetail as { rule?: string; base?: string } | null;
+                  const findings = vulnerabilities.filter((vuln) => vuln.subdomainId === subdomain.id);
+
+                  return (
+                    <TableRow key={subdomain.id} className="border-gray-700">
+                      <TableCell className="text-white font-mono" style={{ paddingLeft: `${1 + level * 1.5}rem` }}>
+                        {level > 0 && <span className="text-gray-500 mr-1">└</span>}
+                        {subdomain.subdomain}
+                        {findings.map((vuln) => (
+                          <Badge key={vuln.id} className="ml-2 bg-red-500 text-white text-xs" title={vuln.description}>
+                            {vuln.type}
+                          </Badge>
+                        ))}
+                      </TableCell>
+                      <TableCell>
+                        <Badge className={getStatusColor(subdomain.status)}>
+                          {getStatusLabel(subdomain.status)}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-gray-400 font-mono text-xs">
+                        {addresses.map((address) => (
+                          <div key={address}>{address}</div>
+                        ))}
+                      </TableCell>
+                      <TableCell className="text-gray-300 max-w-xs">
+                        {subdomain.httpStatus != null && (
+                          <span className="font-mono mr-2">{subdomain.httpStatus}</span>
+                        )}
+                        {subdomain.title && (
+                          <span className="text-gray-400 truncate" title={subdomain.title}>
+                            {subdomain.title}
+                          </span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {technologies.map((tech) => (
+                            <Badge key={tech.name} variant="outline" className="text-xs text-gray-300">
+                              {tech.name}{tech.version ? ` ${tech.version}` : ''}
+                            </Badge>
+                          ))}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-xs text-gray-500">
+                        {subdomain.source}
+                        {sourceDetail?.rule && (
+                          <div>{sourceDetail.rule} of {sourceDetail.base}</div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
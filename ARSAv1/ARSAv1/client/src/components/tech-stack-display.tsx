@@ -1,6 +1,6 @@
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Code, Server, Database, Globe, Layers } from 'lucide-react';
+import { Code, Server, Database, Globe, Layers, Terminal, Mail, FolderOpen, FileCode, BarChart3, Cloud, ShoppingCart } from 'lucide-react';
 import type { Technology } from '@shared/schema';
 
 interface TechStackDisplayProps {
@@ -18,6 +18,20 @@ export function TechStackDisplay({ technologies }: TechStackDisplayProps) {
         return <Code className="w-4 h-4" />;
       case 'cms':
         return <Globe className="w-4 h-4" />;
+      case 'remote_access':
+        return <Terminal className="w-4 h-4" />;
+      case 'mail_server':
+        return <Mail className="w-4 h-4" />;
+      case 'file_transfer':
+        return <FolderOpen className="w-4 h-4" />;
+      case 'javascript':
+        return <FileCode className="w-4 h-4" />;
+      case 'analytics':
+        return <BarChart3 className="w-4 h-4" />;
+      case 'cdn':
+        return <Cloud className="w-4 h-4" />;
+      case 'ecommerce':
+        return <ShoppingCart className="w-4 h-4" />;
       default:
         return <Layers className="w-4 h-4" />;
     }
@@ -33,6 +47,20 @@ export function TechStackDisplay({ technologies }: TechStackDisplayProps) {
         return 'bg-purple-500';
       case 'cms':
         return 'bg-orange-500';
+      case 'remote_access':
+        return 'bg-red-500';
+      case 'mail_server':
+        return 'bg-yellow-600';
+      case 'file_transfer':
+        return 'bg-teal-500';
+      case 'javascript':
+        return 'bg-amber-500';
+      case 'analytics':
+        return 'bg-pink-500';
+      case 'cdn':
+        return 'bg-sky-500';
+      case 'ecommerce':
+        return 'bg-emerald-600';
       default:
         return 'bg-gray-500';
     }
@@ -56,8 +84,25 @@ export function TechStackDisplay({ technologies }: TechStackDisplayProps) {
         return 'Frameworks';
       case 'cms':
         return 'Content Management';
-      default:
+      case 'remote_access':
+        return 'Remote Access';
+      case 'mail_server':
+        return 'Mail Servers';
+      case 'file_transfer':
+        return 'File Transfer';
+      case 'javascript':
+        return 'JavaScript Libraries';
+      case 'analytics':
+        return 'Analytics';
+      case 'cdn':
+        return 'CDN and Caching';
+      case 'ecommerce':
+        return 'E-commerce';
+      case 'other':
         return 'Other Technologies';
+      default:
+        // Categories from team fingerprint rules, e.g. "security" or "web_server_extensions"
+        return category.charAt(0).toUpperCase() + category.slice(1).replace(/_/g, ' ');
     }
   };
 
@@ -90,7 +90,14 @@ export function VulnerabilityTable({ vulnerabilities }: VulnerabilityTableProps)
                       {vuln.severity.toUpperCase()}
                     </Badge>
                   </TableCell>
-                  <TableCell className="text-gray-300">{vuln.type}</TableCell>
+                  <TableCell className="text-gray-300">
+                    {vuln.type}
+                    {vuln.source === 'deterministic' && (
+                      <Badge variant="outline" className="ml-2 text-xs text-primary border-primary">
+                        Verified
+                      </Badge>
+                    )}
+                  </TableCell>
                   <TableCell className="text-gray-300 max-w-md">
                     <div className="truncate" title={vuln.description}>
                       {vuln.description}
@@ -100,6 +107,14 @@ export function VulnerabilityTable({ vulnerabilities }: VulnerabilityTableProps)
                         Fix: {vuln.remediation}
                       </div>
                     )}
+                    {vuln.evidence != null && (
+                      <details className="text-xs text-gray-500 mt-1">
+                        <summary className="cursor-pointer">Evidence</summary>
+                        <pre className="mt-1 max-h-64 overflow-auto bg-gray-900 p-2 rounded whitespace-pre-wrap">
+                          {JSON.stringify(vuln.evidence, null, 2)}
+                        </pre>
+                      </details>
+                    )}
                   </TableCell>
                   <TableCell className="text-gray-300 font-mono">
                     {vuln.cvss || 'N/A'}
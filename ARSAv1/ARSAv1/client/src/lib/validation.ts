@@ -1,5 +1,21 @@
 import { z } from 'zod';
 
+// Full and "::"-compressed IPv6 literals, including a trailing dotted IPv4 part (::ffff:192.0.2.1)
+function isIPv6(value: string): boolean {
+  const halves = value.split('::');
+  if (halves.length > 2) return false;
+
+  const groups = halves.map((half) => (half ? half.split(':') : []));
+  const all = groups[0].concat(groups[1] || []);
+  const last = all[all.length - 1];
+  const embeddedIPv4 = last !== undefined && /^(25[0-5]|2[0-4]\d|1?\d?\d)(\.(25[0-5]|2[0-4]\d|1?\d?\d)){3}$/.test(last);
+  const hexGroups = embeddedIPv4 ? all.slice(0, -1) : all;
+  const width = hexGroups.length + (embeddedIPv4 ? 2 : 0);
+
+  if (!hexGroups.every((group) => /^[0-9a-f]{1,4}$/i.test(group))) return false;
+  return halves.length === 2 ? width < 8 : width === 8;
+}
+
 export const targetSchema = z.object({
   target: z.string()
     .min(1, "Target is required")
@@ -8,9 +24,13 @@ export const targetSchema = z.object({
       const domainRegex = /^[a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?(\.[a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?)*$/;
       // IP validation
       const ipRegex = /^(?:(?:25[0-5]|2[0-4][0-9]|[01]?[0-9][0-9]?)\.){3}(?:25[0-5]|2[0-4][0-9]|[01]?[0-9][0-9]?)$/;
-      
-      return domainRegex.test(value) || ipRegex.test(value);
-    }, "Please enter a valid domain or IP address"),
+      // CIDR block (10.20.0.0/22) or address range (10.0.0.1-10.0.0.50, 10.0.0.1-50); the server checks the size
+      const [start, end] = value.split(/[\/-]/);
+      const cidr = value.includes('/') && ipRegex.test(start) && /^([0-9]|[12][0-9]|3[0-2])$/.test(end);
+      const range = value.includes('-') && ipRegex.test(start) && (ipRegex.test(end) || /^(25[0-5]|2[0-4][0-9]|[01]?[0-9][0-9]?)$/.test(end));
+
+      return domainRegex.test(value) || ipRegex.test(value) || isIPv6(value) || cidr || range;
+    }, "Please enter a valid domain, IPv4 or IPv6 address, CIDR block or address range"),
   scanType: z.string().min(1, "Scan type is required"),
 });
 
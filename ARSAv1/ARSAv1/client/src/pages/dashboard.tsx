@@ -20,6 +20,7 @@ import type {
   Vulnerability,
   Subdomain,
   Technology,
+  HttpEndpoint,
 } from "@shared/schema";
 
 export default function Dashboard() {
@@ -39,6 +40,7 @@ export default function Dashboard() {
     vulnerabilities: Vulnerability[];
     subdomains: Subdomain[];
     technologies: Technology[];
+    httpEndpoints: HttpEndpoint[];
   }>({
     queryKey: ["/api/scans", activeScanId],
     enabled: !!activeScanId,
@@ -48,9 +50,10 @@ export default function Dashboard() {
   // Handle WebSocket updates
   useEffect(() => {
     if (lastMessage && lastMessage.type === "scan_update") {
+      // Updates can be partial (e.g. a discovered subdomain), so merge over the last known state
       setScanUpdates((prev) => ({
         ...prev,
-        [lastMessage.scanId]: lastMessage.data,
+        [lastMessage.scanId]: { ...prev[lastMessage.scanId], ...lastMessage.data },
       }));
     }
   }, [lastMessage]);
@@ -190,6 +193,7 @@ export default function Dashboard() {
               vulnerabilities={activeScanData.vulnerabilities}
               subdomains={activeScanData.subdomains}
               technologies={activeScanData.technologies}
+              httpEndpoints={activeScanData.httpEndpoints || []}
               scanProgress={scanUpdates[activeScanId!]}
             />
           ) : (
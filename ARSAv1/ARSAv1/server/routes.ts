@@ -1,20 +1,28 @@
-import type { Express } from "express";
+import express, { type Express } from "express";
 import { createServer, type Server } from "http";
 import { WebSocketServer, WebSocket } from "ws";
 import { storage } from "./storage";
-import { ReconnaissanceService } from "./services/reconnaissance";
-import { analyzeVulnerabilities, analyzeTechnologies, generateScanReport } from "./services/openai";
+import { ReconnaissanceService, type ReconHooks, type ReconResults } from "./services/reconnaissance";
+import { digestRangeResults } from "./services/range-digest";
+import { ResolverPool } from "./services/resolver-pool";
+import { analyzeVulnerabilities, analyzeTechnologies, generateScanReport, type RecordedFinding } from "./services/openai";
 import { mitreAttackService, MITRE_ATTACK_TECHNIQUES } from "./services/mitre-attack";
-import { insertScanSchema } from "@shared/schema";
+import { insertScanSchema, scanOptionsSchema, serviceFilterSchema, BUNDLED_WORDLISTS, type ScanOptions } from "@shared/schema";
+import { parseWordlist, loadBundledWordlist } from "./services/wordlists";
+import { parsePortSpec } from "@shared/port-spec";
+import { isRangeTarget, expandTargetRange } from "./services/ip-range";
 import { z } from "zod";
 
 // Validation schema for API requests
 const scanRequestSchema = z.object({
   target: z.string().min(1, "Target is required"),
   scanType: z.string().min(1, "Scan type is required"),
+  options: scanOptionsSchema.default({}),
 });
 
-const reconService = new ReconnaissanceService();
+const wordlistUploadSchema = z.object({
+  name: z.string().min(1, "Wordlist name is required").max(100),
+});
 
 // Initialize MITRE ATT&CK techniques database
 async function initializeMitreAttackDatabase() {
@@ -107,17 +115,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: "Scan not found" });
       }
 
-      const [vulnerabilities, subdomains, technologies] = await Promise.all([
+      const [vulnerabilities, subdomains, technologies, httpEndpoints] = await Promise.all([
         storage.getVulnerabilitiesByScan(scanId),
         storage.getSubdomainsByScan(scanId),
-        storage.getTechnologiesByScan(scanId)
+        storage.getTechnologiesByScan(scanId),
+        storage.getHttpEndpointsByScan(scanId)
       ]);
 
       res.json({
         scan,
         vulnerabilities,
         subdomains,
-        technologies
+        technologies,
+        httpEndpoints
       });
     } catch (error) {
       res.status(500).json({ error: "Failed to fetch scan details" });
@@ -128,12 +138,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/scans", async (req, res) => {
     try {
       const validatedData = scanRequestSchema.parse(req.body);
+      try {
+        parsePortSpec(validatedData.options.ports.spec);
+        parsePortSpec(validatedData.options.udp.spec);
+        parsePortSpec(validatedData.options.discovery.ports);
+      } catch (error) {
+        return res.status(400).json({ error: "Invalid port specification", details: (error as Error).message });
+      }
+      if (isRangeTarget(validatedData.target)) {
+        try {
+          expandTargetRange(validatedData.target);
+        } catch (error) {
+          return res.status(400).json({ error: "Invalid target range", details: (error as Error).message });
+        }
+      }
       const scan = await storage.createScan(validatedData);
       
       res.json(scan);
       
       // Start background scanning process
-      performScan(scan.id, scan.target, scan.scanType, broadcastUpdate);
+      performScan(scan.id, scan.target, scan.scanType, validatedData.options, broadcastUpdate);
       
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -170,55 +194,279 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // List services across scans, e.g. GET /api/services?port=6379 or /api/services?product=OpenSSH&transport=tcp
+  app.get("/api/services", async (req, res) => {
+    try {
+      const filter = serviceFilterSchema.parse(req.query);
+      res.json(await storage.getServices(filter));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid service filter", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to fetch services" });
+    }
+  });
+
+  // Services found by one scan
+  app.get("/api/scans/:id/services", async (req, res) => {
+    try {
+      const scanId = parseInt(req.params.id);
+      const scan = await storage.getScan(scanId);
+
+      if (!scan) {
+        return res.status(404).json({ error: "Scan not found" });
+      }
+
+      res.json(await storage.getServices({ scanId }));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch services" });
+    }
+  });
+
+  // List bundled and uploaded subdomain wordlists
+  app.get("/api/wordlists", async (req, res) => {
+    try {
+      const bundled = await Promise.all(
+        BUNDLED_WORDLISTS.map(async (name) => ({
+          name,
+          entryCount: (await loadBundledWordlist(name)).length
+        }))
+      );
+      const uploaded = await storage.getWordlists();
+
+      res.json({
+        bundled,
+        uploaded: uploaded.map(({ entries, ...wordlist }) => wordlist)
+      });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch wordlists" });
+    }
+  });
+
+  // Upload a newline-separated wordlist as text/plain, e.g. POST /api/wordlists?name=corp
+  app.post("/api/wordlists", express.text({ limit: "10mb" }), async (req, res) => {
+    try {
+      const { name } = wordlistUploadSchema.parse(req.query);
+      const entries = parseWordlist(typeof req.body === "string" ? req.body : "");
+
+      if (entries.length === 0) {
+        return res.status(400).json({ error: "Wordlist contains no valid entries" });
+      }
+
+      const wordlist = await storage.createWordlist({ name, entries, entryCount: entries.length });
+      const { entries: _entries, ...summary } = wordlist;
+      res.json(summary);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid wordlist data", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to upload wordlist" });
+    }
+  });
+
   // Background scanning function
-  async function performScan(scanId: number, target: string, scanType: string, broadcast: Function) {
+  async function performScan(scanId: number, target: string, scanType: string, options: ScanOptions, broadcast: Function) {
     try {
       // Update scan status to running
       await storage.updateScan(scanId, { status: 'running', progress: 0 });
       broadcast(scanId, { status: 'running', progress: 0 });
 
-      // Perform reconnaissance
-      broadcast(scanId, { status: 'running', progress: 25, message: 'Starting reconnaissance...' });
-      const reconResults = await reconService.performReconnaissance(target);
-      
-      // Store subdomains
-      broadcast(scanId, { status: 'running', progress: 50, message: 'Analyzing subdomains...' });
-      for (const subdomain of reconResults.subdomains) {
-        await storage.createSubdomain({
-          scanId,
-          subdomain,
-          status: 'active',
-          technologies: null,
-          ipAddress: null
-        });
-      }
+      // Perform reconnaissance, storing subdomains as they are discovered
+      broadcast(scanId, { status: 'running', progress: 5, message: 'Starting reconnaissance...' });
+      // Row ids are kept as promises so a child reported while its parent's insert is still in flight links to it
+      const subdomainIds = new Map<string, Promise<number>>();
+      // Each scan gets its own service so per-scan resolver settings don't leak into concurrent scans
+      const reconService = new ReconnaissanceService(new ResolverPool(options.dns));
+      const hooks: ReconHooks = {
+        onSubdomain: async (subdomain) => {
+          const parentId = subdomain.parent ? subdomainIds.get(subdomain.parent) : undefined;
+          const id = (async () => (await storage.createSubdomain({
+            scanId,
+            subdomain: subdomain.name,
+            status: subdomain.wildcard ? 'wildcard' : subdomain.addresses.length > 0 ? 'resolving' : 'dead',
+            source: subdomain.source,
+            sourceDetail: subdomain.sourceDetail ?? null,
+            parentId: parentId ? await parentId.catch(() => null) : null,
+            technologies: null,
+            ipAddress: subdomain.addresses[0] || null,
+            addresses: subdomain.addresses
+          })).id)();
+          subdomainIds.set(subdomain.name, id);
+          await id;
+          broadcast(scanId, { status: 'running', message: `Discovered ${subdomain.name}`, subdomain: subdomain.name });
+        },
+        onSubdomainProfiled: async (subdomain) => {
+          const id = await subdomainIds.get(subdomain.name)?.catch(() => undefined);
+          const profile = subdomain.profile;
+          if (!id || !profile) return;
+
+          const addresses = profile.ipv4.concat(profile.ipv6);
+          await storage.updateSubdomain(id, {
+            status: profile.status,
+            ipAddress: addresses[0] || null,
+            addresses,
+            httpStatus: profile.http?.statusCode ?? null,
+            title: profile.http?.title || null,
+            technologies: profile.http?.technologies || null
+          });
+        },
+        onWildcard: (wildcard) => {
+          broadcast(scanId, {
+            status: 'running',
+            message: `Wildcard DNS detected (${wildcard.addresses.join(', ')}), filtering matching candidates`,
+            wildcard
+          });
+        },
+        onProgress: (stage, completed, total) => {
+          // Brute force (or, for ranges, finished hosts) drives the bar; other stages only report their counts
+          const progress = stage === 'enumeration' || stage === 'hosts' ? 5 + Math.floor((completed / total) * 45) : undefined;
+          const message = stage === 'host discovery' ? `Host discovery: ${completed}/${total} probes answered or timed out`
+            : stage === 'hosts' ? `Hosts: ${completed}/${total} live hosts scanned`
+            : stage === 'udp scan' ? `UDP scan: ${completed}/${total} ports tested`
+            : stage === 'service detection' ? `Service detection: ${completed}/${total} open ports identified`
+            : stage === 'http discovery' ? `HTTP discovery: ${completed}/${total} open ports checked`
+            : `Subdomain ${stage}: ${completed}/${total} candidates checked`;
+          broadcast(scanId, { status: 'running', progress, message });
+        },
+        onPortScanProgress: (stats) => {
+          broadcast(scanId, {
+            status: 'running',
+            message: `Port scan: ${stats.completed}/${stats.total} ports tested, ${stats.open} open (${stats.attemptsPerSecond} attempts/s)`,
+            portScan: stats
+          });
+        }
+      };
+
+      // Range targets run the per-host pipeline on every live address; single targets are a range of one
+      const rangeResults = isRangeTarget(target) ? await reconService.performRangeReconnaissance(target, options, hooks) : undefined;
+      const hostResults = rangeResults ? rangeResults.hosts : [await reconService.performReconnaissance(target, options, hooks)];
+
+      broadcast(scanId, {
+        status: 'running',
+        progress: 50,
+        message: rangeResults
+          ? `Found ${rangeResults.discovery.live.length} live hosts of ${rangeResults.discovery.addresses} addresses`
+          : `Discovered ${hostResults[0].subdomains.length} subdomains`
+      });
 
       // Store technologies
       broadcast(scanId, { status: 'running', progress: 65, message: 'Identifying technologies...' });
-      for (const tech of reconResults.technologies) {
+      const storedTechnologies = new Set<string>();
+      for (const tech of hostResults.flatMap((host) => host.technologies)) {
+        // The same product on several hosts is one technology row; the per-host detail is in services and endpoints
+        const key = `${tech.name.toLowerCase()}@${tech.version || ''}`;
+        if (storedTechnologies.has(key)) continue;
+        storedTechnologies.add(key);
         await storage.createTechnology({
           scanId,
           name: tech.name,
           version: tech.version || null,
           category: tech.category,
-          confidence: 85
+          confidence: tech.confidence
+        });
+      }
+
+      for (const endpoint of hostResults.flatMap((host) => host.httpEndpoints)) {
+        await storage.createHttpEndpoint({
+          scanId,
+          url: endpoint.url,
+          host: endpoint.host,
+          ipAddress: endpoint.ip || null,
+          port: endpoint.port,
+          scheme: endpoint.scheme,
+          statusCode: endpoint.statusCode,
+          title: endpoint.title || null,
+          headers: endpoint.headers,
+          technologies: endpoint.technologies
+        });
+      }
+
+      // Every open port becomes a service row; ports the probes identified carry what they found
+      const scannedAt = new Date();
+      for (const host of hostResults) {
+        // Dual-stack hosts: each port is recorded on the address it was found open on
+        const addressOf = (port: number) =>
+          host.addressFamilies.find((family) => family.openPorts?.includes(port))?.address ?? host.portScan?.address ?? null;
+        const serviceRows = host.services.map((found) => ({
+          ipAddress: found.address ?? (found.protocol === 'tcp' ? addressOf(found.port) : host.portScan?.address ?? null),
+          port: found.port,
+          transport: found.protocol,
+          service: found.service as string | null,
+          product: found.product ?? null,
+          version: found.version ?? null,
+          banner: found.banner ?? null
+        }));
+        host.openPorts
+          .filter((port) => !serviceRows.some((row) => row.transport === 'tcp' && row.port === port))
+          .forEach((port) => serviceRows.push({ ipAddress: addressOf(port), port, transport: 'tcp', service: null, product: null, version: null, banner: null }));
+
+        for (const row of serviceRows) {
+          const previous = await storage.getServices({ host: host.target, port: row.port, transport: row.transport });
+          const firstSeen = previous.reduce((earliest, seen) => seen.firstSeen < earliest ? seen.firstSeen : earliest, scannedAt);
+          await storage.createService({
+            scanId,
+            host: host.target,
+            ...row,
+            firstSeen,
+            lastSeen: scannedAt
+          });
+        }
+      }
+
+      // Store deterministic findings from the recon checks
+      for (const finding of hostResults.flatMap((host) => host.findings)) {
+        await storage.createVulnerability({
+          scanId,
+          severity: finding.severity,
+          type: finding.type,
+          description: finding.description,
+          cvss: finding.cvss,
+          remediation: finding.remediation,
+          source: 'deterministic',
+          evidence: finding.evidence ?? null,
+          subdomainId: finding.subdomain ? await subdomainIds.get(finding.subdomain)?.catch(() => null) ?? null : null
         });
       }
 
       // AI-powered vulnerability analysis
       broadcast(scanId, { status: 'running', progress: 80, message: 'Analyzing vulnerabilities with AI...' });
-      const vulnerabilityAnalysis = await analyzeVulnerabilities(target, reconResults);
+      // Evidence (e.g. whole transferred zones) is already stored on the findings; keep it out of the prompt and results blob
+      const summarize = (host: ReconResults) => ({
+        ...host,
+        findings: host.findings.map(({ evidence, ...finding }) => finding)
+      });
+      const summarizedResults = rangeResults
+        ? { ...rangeResults, hosts: rangeResults.hosts.map(summarize) }
+        : summarize(hostResults[0]);
+      // A range can hold thousands of hosts, so the prompt gets a bounded digest and the full results stay on the scan.
+      // The deterministic findings are already stored, so they go in as a do-not-repeat list rather than as results.
+      let promptResults: object;
+      let recordedFindings: RecordedFinding[];
+      if (rangeResults) {
+        const { findings, ...digest } = digestRangeResults(rangeResults);
+        promptResults = digest;
+        recordedFindings = findings.map(({ severity, type, host }) => ({ severity, type, host }));
+      } else {
+        const { findings, ...results } = summarize(hostResults[0]);
+        promptResults = results;
+        recordedFindings = findings.map(({ severity, type, subdomain }) => ({ severity, type, subdomain }));
+      }
+      const vulnerabilityAnalysis = await analyzeVulnerabilities(target, promptResults, recordedFindings);
       
-      // Store vulnerabilities and analyze for MITRE ATT&CK
+      // Store vulnerabilities and analyze for MITRE ATT&CK, skipping any the model repeated from the recorded findings
+      const findingKey = (type: string | undefined, subdomain?: string) => `${(type || '').trim().toLowerCase()}|${subdomain || ''}`;
+      const recordedKeys = new Set(hostResults.flatMap((host) => host.findings).map((finding) => findingKey(finding.type, finding.subdomain)));
       const vulnerabilityIds: number[] = [];
       for (const vuln of vulnerabilityAnalysis.vulnerabilities) {
+        if (recordedKeys.has(findingKey(vuln.type, vuln.subdomain))) continue;
         const vulnerability = await storage.createVulnerability({
           scanId,
           severity: vuln.severity,
           type: vuln.type,
           description: vuln.description,
           cvss: vuln.cvss,
-          remediation: vuln.remediation
+          remediation: vuln.remediation,
+          subdomainId: vuln.subdomain ? await subdomainIds.get(vuln.subdomain)?.catch(() => null) ?? null : null
         });
         vulnerabilityIds.push(vulnerability.id);
       }
@@ -250,7 +498,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         status: 'completed',
         progress: 100,
         riskScore: Math.round(vulnerabilityAnalysis.riskScore),
-        results: reconResults,
+        results: summarizedResults,
         completedAt: new Date()
       });
 
@@ -0,0 +1,64 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type tls from 'tls';
+import { ResolverPool } from './resolver-pool';
+import { SubdomainRegistry } from './subdomains';
+import { CertificateHarvester, summarizeCertificate } from './certificates';
+import { startUdpStandIn } from './test-support/dns-stand-in';
+import { startWebStandIn } from './test-support/web-stand-in';
+
+test('summarizeCertificate collects the CN and DNS SANs, normalized and without duplicates', () => {
+  const certificate = {
+    subject: { CN: ['WWW.Example.test.', 'shop.example.test'] },
+    issuer: { O: 'Test CA', CN: 'Test Root' },
+    subjectaltname: 'DNS:www.example.test, DNS:*.Dev.example.test, IP Address:192.0.2.1, email:ops@example.test, DNS:other.test',
+    valid_from: 'Jan  1 00:00:00 2026 GMT',
+    valid_to: 'Jan  1 00:00:00 2027 GMT',
+    fingerprint256: 'AB:CD',
+  } as unknown as tls.PeerCertificate;
+
+  assert.deepEqual(summarizeCertificate('www.example.test', certificate), {
+    host: 'www.example.test',
+    subject: 'WWW.Example.test.,shop.example.test',
+    issuer: 'Test CA',
+    validFrom: 'Jan  1 00:00:00 2026 GMT',
+    validTo: 'Jan  1 00:00:00 2027 GMT',
+    fingerprint256: 'AB:CD',
+    names: ['www.example.test', 'shop.example.test', '*.dev.example.test', 'other.test'],
+  });
+});
+
+test('CertificateHarvester registers in-scope names and only reads hosts added since the last harvest', async () => {
+  const resolving = new Set(['www.example.test', 'api.example.test', 'dev.example.test', 'mail.example.test']);
+  const server = await startUdpStandIn(({ name, type }) =>
+    type === 'A' && resolving.has(name) ? { answers: [{ name, type: 'A', data: '127.0.0.1' }] } : { rcode: 3 });
+  const web = await startWebStandIn(() => ({}), { tls: true });
+  const resolver = new ResolverPool({ servers: [`127.0.0.1:${server.port}`], timeout: 1000 });
+  const registry = new SubdomainRegistry({});
+  await registry.add({ name: 'www.example.test', addresses: ['127.0.0.1'], source: 'bruteforce' });
+  const harvester = new CertificateHarvester(resolver, 'example.test', 4, web.port);
+
+  try {
+    const summaries = await harvester.harvest(registry);
+
+    // The stand-in's certificate is for www.example.test, *.dev.example.test, api.example.test and other.test
+    assert.deepEqual(summaries[0].names, ['www.example.test', '*.dev.example.test', 'api.example.test', 'other.test']);
+    assert.equal(summaries[0].subject, 'www.example.test');
+    assert.deepEqual(registry.values().slice(1), [
+      { name: 'dev.example.test', addresses: ['127.0.0.1'], source: 'certificate' },
+      { name: 'api.example.test', addresses: ['127.0.0.1'], source: 'certificate' },
+    ]);
+    // Names found on certificates are read in turn; the unresolvable target yields nothing
+    assert.deepEqual(summaries.map(summary => summary.host).sort(), ['api.example.test', 'dev.example.test', 'www.example.test']);
+
+    // A later stage (e.g. PTR) adds a host: harvesting again reads just that one
+    await registry.add({ name: 'mail.example.test', addresses: ['127.0.0.1'], source: 'ptr' });
+    const questionsBefore = server.questions.length;
+    const again = await harvester.harvest(registry);
+    assert.deepEqual(again.map(summary => summary.host).slice(3), ['mail.example.test']);
+    assert.equal(again.length, 4);
+    assert.deepEqual(new Set(server.questions.slice(questionsBefore).map(question => question.name)), new Set(['mail.example.test']));
+  } finally {
+    await Promise.all([server.close(), web.close()]);
+  }
+});
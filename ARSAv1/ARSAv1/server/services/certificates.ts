@@ -0,0 +1,122 @@
+import net from 'net';
+import tls from 'tls';
+import { mapWithConcurrency } from './concurrency';
+import { resolveHost } from './dns-records';
+import { ResolverPool } from './resolver-pool';
+import { SubdomainRegistry } from './subdomains';
+import type { CertificateSummary } from './reconnaissance';
+
+// Reads every reachable host's certificate and feeds in-scope CN/SAN names back into the registry.
+// Newly found names are checked in turn, so a harvest runs until no new names appear. Hosts are only
+// read once per harvester, so calling harvest() again after later stages checks just the names they added.
+export class CertificateHarvester {
+  readonly summaries: CertificateSummary[] = [];
+  private checked = new Set<string>();
+
+  constructor(
+    private resolver: ResolverPool,
+    private target: string,
+    private concurrency: number,
+    private port = 443
+  ) {}
+
+  async harvest(registry: SubdomainRegistry, targetCertificate?: tls.PeerCertificate): Promise<CertificateSummary[]> {
+    let queue: string[] = [];
+    if (targetCertificate && !this.checked.has(this.target)) {
+      this.checked.add(this.target);
+      await this.collect(this.target, targetCertificate, registry, queue);
+    } else {
+      queue.push(this.target);
+    }
+    registry.values()
+      .filter(subdomain => !subdomain.wildcard && subdomain.addresses.length > 0)
+      .forEach(subdomain => queue.push(subdomain.name));
+
+    while (queue.length > 0) {
+      const batch = queue.filter(host => !this.checked.has(host));
+      batch.forEach(host => this.checked.add(host));
+      const found: string[] = [];
+
+      await mapWithConcurrency(batch, this.concurrency, async (host) => {
+        try {
+          const certificate = await getCertificate(this.resolver, host, this.port);
+          if (certificate) {
+            await this.collect(host, certificate, registry, found);
+          }
+        } catch (error) {
+          // No TLS service on this host
+        }
+      });
+
+      queue = found;
+    }
+
+    return this.summaries;
+  }
+
+  private async collect(host: string, certificate: tls.PeerCertificate, registry: SubdomainRegistry, found: string[]) {
+    const summary = summarizeCertificate(host, certificate);
+    this.summaries.push(summary);
+
+    for (const certName of summary.names) {
+      const name = certName.replace(/^\*\./, '');
+      if (name === this.target || !name.endsWith(`.${this.target}`) || registry.has(name)) continue;
+
+      const addresses = await resolveHost(this.resolver, name).catch(() => [] as string[]);
+      if (await registry.add({ name, addresses, source: 'certificate' })) {
+        found.push(name);
+      }
+    }
+  }
+}
+
+export async function getCertificate(resolver: ResolverPool, host: string, port = 443): Promise<tls.PeerCertificate | undefined> {
+  return new Promise((resolve, reject) => {
+    const socket = tls.connect({
+      host,
+      port,
+      lookup: resolver.lookup,
+      servername: net.isIP(host) ? undefined : host,
+      rejectUnauthorized: false,
+      timeout: 5000,
+    });
+
+    socket.on('secureConnect', () => {
+      const certificate = socket.getPeerCertificate();
+      socket.destroy();
+      resolve(certificate && Object.keys(certificate).length > 0 ? certificate : undefined);
+    });
+    socket.on('timeout', () => {
+      socket.destroy();
+      reject(new Error('TLS handshake timed out'));
+    });
+    socket.on('error', reject);
+  });
+}
+
+export function summarizeCertificate(host: string, certificate: tls.PeerCertificate): CertificateSummary {
+  const names: string[] = [];
+  const addName = (name?: string) => {
+    const normalized = name?.trim().toLowerCase().replace(/\.$/, '');
+    if (normalized && !names.includes(normalized)) names.push(normalized);
+  };
+
+  const commonName = certificate.subject?.CN;
+  (Array.isArray(commonName) ? commonName : [commonName]).forEach(addName);
+
+  // subjectaltname looks like "DNS:example.com, DNS:*.example.com, IP Address:192.0.2.1"
+  (certificate.subjectaltname || '').split(',').forEach(entry => {
+    const match = entry.trim().match(/^DNS:(.+)$/);
+    if (match) addName(match[1]);
+  });
+
+  return {
+    host,
+    subject: certificate.subject?.CN?.toString(),
+    issuer: certificate.issuer?.O?.toString() || certificate.issuer?.CN?.toString(),
+    validFrom: certificate.valid_from,
+    validTo: certificate.valid_to,
+    fingerprint256: certificate.fingerprint256,
+    names,
+  };
+}
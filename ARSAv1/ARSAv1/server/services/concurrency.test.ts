@@ -0,0 +1,33 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mapWithConcurrency } from './concurrency';
+
+test('mapWithConcurrency keeps input order and never exceeds the limit', async () => {
+  let inFlight = 0;
+  let peak = 0;
+
+  const results = await mapWithConcurrency([30, 10, 20, 0, 5], 2, async (delay, index) => {
+    inFlight++;
+    peak = Math.max(peak, inFlight);
+    await new Promise(resolve => setTimeout(resolve, delay));
+    inFlight--;
+    return index * 10;
+  });
+
+  assert.deepEqual(results, [0, 10, 20, 30, 40]);
+  assert.equal(peak, 2);
+});
+
+test('mapWithConcurrency rejects when a worker does', async () => {
+  await assert.rejects(
+    mapWithConcurrency([1, 2, 3], 3, async (item) => {
+      if (item === 2) throw new Error('boom');
+      return item;
+    }),
+    /boom/
+  );
+});
+
+test('mapWithConcurrency handles an empty list', async () => {
+  assert.deepEqual(await mapWithConcurrency([], 4, async (item) => item), []);
+});
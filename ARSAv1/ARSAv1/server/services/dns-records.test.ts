@@ -0,0 +1,100 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ResolverPool } from './resolver-pool';
+import { detectWildcard, getDNSRecord, resolveCandidate, resolveHost } from './dns-records';
+import { startUdpStandIn, type StandInAnswer, type StandInQuestion } from './test-support/dns-stand-in';
+
+const ZONE: { [name: string]: StandInAnswer } = {
+  'www.example.test': { answers: [{ name: 'www.example.test', type: 'A', data: '192.0.2.10' }] },
+  'v6.example.test': {}, // exists, AAAA only
+  'old.example.test': { rcode: 3, answers: [{ name: 'old.example.test', type: 'CNAME', data: 'gone.cloud.test' }] },
+};
+
+function answer({ name, type }: StandInQuestion): StandInAnswer {
+  if (name === 'v6.example.test' && type === 'AAAA') {
+    return { answers: [{ name, type: 'AAAA', data: '2001:db8::10' }] };
+  }
+  return ZONE[name] || { rcode: 3 };
+}
+
+test('resolveCandidate spends one query on a miss and keeps dangling CNAMEs', async () => {
+  const server = await startUdpStandIn(answer);
+  try {
+    const resolver = new ResolverPool({ servers: [`127.0.0.1:${server.port}`], timeout: 1000 });
+
+    assert.equal(await resolveCandidate(resolver, 'missing.example.test'), undefined);
+    assert.deepEqual(server.questions, [{ name: 'missing.example.test', type: 'A' }]);
+
+    assert.deepEqual(await resolveCandidate(resolver, 'www.example.test'), { addresses: ['192.0.2.10'], cnames: [] });
+    assert.deepEqual(await resolveCandidate(resolver, 'old.example.test'), { addresses: [], cnames: ['gone.cloud.test'] });
+    assert.equal(server.questions.length, 3);
+
+    // NODATA for A is the only case that asks for AAAA
+    assert.deepEqual(await resolveCandidate(resolver, 'v6.example.test'), { addresses: ['2001:db8::10'], cnames: [] });
+    assert.deepEqual(server.questions.slice(3).map(question => question.type), ['A', 'AAAA']);
+  } finally {
+    await server.close();
+  }
+});
+
+test('resolveCandidate fails on error rcodes rather than reporting a miss', async () => {
+  const server = await startUdpStandIn(() => ({ rcode: 1 }));
+  try {
+    const resolver = new ResolverPool({ servers: [`127.0.0.1:${server.port}`], timeout: 1000, retries: 0 });
+
+    await assert.rejects(resolveCandidate(resolver, 'www.example.test'), /A query for www.example.test failed: FORMERR/);
+  } finally {
+    await server.close();
+  }
+});
+
+test('resolveHost does not fall back to AAAA for NXDOMAIN', async () => {
+  const server = await startUdpStandIn(answer);
+  try {
+    const resolver = new ResolverPool({ servers: [`127.0.0.1:${server.port}`], timeout: 1000 });
+
+    await assert.rejects(resolveHost(resolver, 'missing.example.test'));
+    assert.deepEqual(server.questions.map(question => question.type), ['A']);
+
+    assert.deepEqual(await resolveHost(resolver, 'v6.example.test'), ['2001:db8::10']);
+  } finally {
+    await server.close();
+  }
+});
+
+test('getDNSRecord reads the tag and value of each CAA record', async () => {
+  const resolver = new ResolverPool({ servers: ['127.0.0.1'] });
+  resolver.resolve = async () => [
+    { critical: 0, issue: 'letsencrypt.org' },
+    { critical: 128, iodef: 'mailto:security@example.test' },
+    { critical: 0 },
+  ];
+
+  assert.deepEqual(await getDNSRecord(resolver, 'example.test', 'CAA'), [
+    { critical: 0, tag: 'issue', value: 'letsencrypt.org' },
+    { critical: 128, tag: 'iodef', value: 'mailto:security@example.test' },
+  ]);
+});
+
+test('detectWildcard collects the addresses random labels resolve to', async () => {
+  let answered = 0;
+  // Round-robin wildcard: each probe sees a different address of the pool
+  const server = await startUdpStandIn(({ name, type }) => name.endsWith('.wild.test') && type === 'A'
+    ? { answers: [{ name, type: 'A', data: `192.0.2.${50 + (answered++ % 2)}` }] }
+    : { rcode: 3 });
+  try {
+    const resolver = new ResolverPool({ servers: [`127.0.0.1:${server.port}`], timeout: 1000 });
+
+    const wildcard = await detectWildcard(resolver, 'wild.test');
+    assert.equal(wildcard.detected, true);
+    assert.deepEqual([...wildcard.addresses].sort(), ['192.0.2.50', '192.0.2.51']);
+
+    const probes = server.questions.map(question => question.name);
+    assert.equal(new Set(probes).size, 3);
+    probes.forEach(probe => assert.match(probe, /^[0-9a-f]{16}\.wild\.test$/));
+
+    assert.deepEqual(await detectWildcard(resolver, 'example.test'), { detected: false, addresses: [] });
+  } finally {
+    await server.close();
+  }
+});
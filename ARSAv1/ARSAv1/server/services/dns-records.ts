@@ -0,0 +1,172 @@
+import crypto from 'crypto';
+import dns from 'dns';
+import { RCODES, recordsOfType, type RecordData } from './dns-wire';
+import type { ResolverPool } from './resolver-pool';
+import type { DnsRecordEntry, DnsRecordType, DnsRecordValues, DnssecStatus, WildcardInfo } from './reconnaissance';
+
+// Typed record lookups over a scan's resolver pool, shared by every stage that needs DNS
+
+// Property tags c-ares sets on a CAA record; each record carries exactly one
+const CAA_TAGS = ['issue', 'issuewild', 'iodef', 'contactemail', 'contactphone'] as const;
+
+// Common service labels probed for SRV records
+const SRV_SERVICE_PREFIXES = [
+  '_sip._tls', '_sip._tcp', '_sip._udp', '_sips._tcp', '_ldap._tcp', '_ldaps._tcp', '_gc._tcp',
+  '_kerberos._tcp', '_kerberos._udp', '_kpasswd._tcp', '_xmpp-client._tcp', '_xmpp-server._tcp',
+  '_autodiscover._tcp', '_caldav._tcp', '_caldavs._tcp', '_carddav._tcp', '_carddavs._tcp',
+  '_imap._tcp', '_imaps._tcp', '_pop3s._tcp', '_submission._tcp', '_matrix._tcp',
+  '_collab-edge._tls', '_h323cs._tcp', '_vlmcs._tcp', '_ntp._udp', '_minecraft._tcp',
+];
+
+export async function getDNSRecord<T extends DnsRecordType>(resolver: ResolverPool, target: string, type: T): Promise<DnsRecordValues[T][]> {
+  switch (type as DnsRecordType) {
+    case 'A':
+    case 'AAAA':
+    case 'CNAME':
+    case 'NS':
+    case 'SRV':
+      return resolver.resolve(target, type);
+    case 'MX':
+      return (await resolver.resolve(target, 'MX') as dns.MxRecord[])
+        .map(mx => ({ priority: mx.priority, exchange: mx.exchange })) as DnsRecordValues[T][];
+    case 'TXT':
+      return (await resolver.resolve(target, 'TXT') as string[][]).map(txt => txt.join('')) as DnsRecordValues[T][];
+    case 'SOA':
+      return [await resolver.resolve(target, 'SOA')];
+    case 'CAA':
+      return (await resolver.resolve(target, 'CAA') as dns.CaaRecord[]).flatMap(record => {
+        const tag = CAA_TAGS.find(name => record[name] !== undefined);
+        return tag ? [{ critical: record.critical, tag, value: record[tag]! }] : [];
+      }) as DnsRecordValues[T][];
+    case 'PTR':
+      return resolver.reverse(target) as Promise<DnsRecordValues[T][]>;
+    case 'DNSKEY':
+    case 'DS':
+      // c-ares has no DNSSEC record types, so these go out as raw queries
+      return queryWire(resolver, target, type as 'DNSKEY' | 'DS') as Promise<DnsRecordValues[T][]>;
+    default:
+      throw new Error(`Unsupported DNS record type: ${type}`);
+  }
+}
+
+async function queryWire<T extends 'DNSKEY' | 'DS'>(resolver: ResolverPool, target: string, type: T): Promise<RecordData[T][]> {
+  const response = await resolver.query(target, type, { edns: { dnssecOk: true } });
+
+  if (response.rcode !== 0) {
+    throw new Error(`${type} query for ${target} failed: ${RCODES[response.rcode] || response.rcode}`);
+  }
+  return recordsOfType(response.answers, type);
+}
+
+export async function getDNSRecords(resolver: ResolverPool, target: string): Promise<{ records: DnsRecordEntry[]; dnssec: DnssecStatus }> {
+  const records: DnsRecordEntry[] = [];
+  const addRecords = async <T extends DnsRecordType>(name: string, type: T) => {
+    try {
+      const values = await getDNSRecord(resolver, name, type);
+      values.forEach(value => records.push({ name, type, value }));
+      return values;
+    } catch (error) {
+      // NODATA/NXDOMAIN for this type, continue
+      return [] as DnsRecordValues[T][];
+    }
+  };
+
+  const [aRecords, aaaaRecords] = await Promise.all([
+    addRecords(target, 'A'),
+    addRecords(target, 'AAAA'),
+    addRecords(target, 'CNAME'),
+    addRecords(target, 'MX'),
+    addRecords(target, 'TXT'),
+    addRecords(target, 'NS'),
+    addRecords(target, 'SOA'),
+    addRecords(target, 'CAA'),
+    ...SRV_SERVICE_PREFIXES.map(prefix => addRecords(`${prefix}.${target}`, 'SRV')),
+  ]);
+
+  // Reverse names for every address the target resolves to
+  await Promise.all((aRecords as string[]).concat(aaaaRecords as string[]).map(address => addRecords(address, 'PTR')));
+
+  const [dnskeys, ds] = await Promise.all([
+    addRecords(target, 'DNSKEY'),
+    addRecords(target, 'DS'),
+  ]);
+
+  return { records, dnssec: getDnssecStatus(dnskeys, ds) };
+}
+
+// DS at the parent plus DNSKEY in the zone is a chain of trust; DNSKEY alone is an unanchored island
+function getDnssecStatus(dnskeys: DnsRecordValues['DNSKEY'][], ds: DnsRecordValues['DS'][]): DnssecStatus {
+  let status: DnssecStatus['status'] = 'unsigned';
+  if (dnskeys.length > 0 && ds.length > 0) status = 'signed';
+  else if (dnskeys.length > 0) status = 'islanded';
+  else if (ds.length > 0) status = 'broken';
+
+  return {
+    status,
+    keySigningKeys: dnskeys.filter(key => (key.flags & 0x0001) !== 0).length,
+    zoneSigningKeys: dnskeys.filter(key => (key.flags & 0x0001) === 0).length,
+    algorithms: dnskeys.map(key => key.algorithm).filter((algorithm, index, all) => all.indexOf(algorithm) === index),
+  };
+}
+
+// Uses c-ares (resolve4/resolve6) rather than dns.lookup, which is capped by the libuv threadpool
+export async function resolveHost(resolver: ResolverPool, hostname: string): Promise<string[]> {
+  try {
+    return await getDNSRecord(resolver, hostname, 'A');
+  } catch (error) {
+    // An NXDOMAIN name has no AAAA either; only a name without A records (NODATA) is worth the second query
+    if ((error as NodeJS.ErrnoException).code !== dns.NODATA) {
+      throw error;
+    }
+    return await getDNSRecord(resolver, hostname, 'AAAA');
+  }
+}
+
+// First A and first AAAA answer, IPv4 first; throws when the name has neither
+export async function resolveAddressFamilies(resolver: ResolverPool, hostname: string): Promise<string[]> {
+  const [ipv4, ipv6] = await Promise.all([
+    getDNSRecord(resolver, hostname, 'A').catch(() => [] as string[]),
+    getDNSRecord(resolver, hostname, 'AAAA').catch(() => [] as string[]),
+  ]);
+  const addresses = ipv4.slice(0, 1).concat(ipv6.slice(0, 1));
+  if (addresses.length === 0) {
+    throw new Error(`No A or AAAA records for ${hostname}`);
+  }
+  return addresses;
+}
+
+// Brute-force resolution, where almost every candidate is a miss. One raw A query answers everything a miss needs:
+// NXDOMAIN ends it, and the answer section still carries a dangling CNAME if the name has one. AAAA is only asked
+// for names that exist without A records. Undefined means the name doesn't exist and has no CNAME.
+export async function resolveCandidate(resolver: ResolverPool, name: string): Promise<{ addresses: string[]; cnames: string[] } | undefined> {
+  const response = await resolver.query(name, 'A');
+  const cnames = recordsOfType(response.answers, 'CNAME');
+  let addresses = recordsOfType(response.answers, 'A');
+
+  if (response.rcode === 0 && addresses.length === 0) {
+    const aaaa = await resolver.query(name, 'AAAA');
+    addresses = aaaa.rcode === 0 ? recordsOfType(aaaa.answers, 'AAAA') : [];
+  }
+
+  if (response.rcode !== 0 && response.rcode !== 3) {
+    throw new Error(`A query for ${name} failed: ${RCODES[response.rcode] || response.rcode}`);
+  }
+  return addresses.length > 0 || cnames.length > 0 ? { addresses, cnames } : undefined;
+}
+
+// Resolves a few random labels; any answer means *.domain exists. Several probes catch round-robin wildcards.
+export async function detectWildcard(resolver: ResolverPool, domain: string): Promise<WildcardInfo> {
+  const probes = Array.from({ length: 3 }, () => `${crypto.randomBytes(8).toString('hex')}.${domain}`);
+  const answers = await Promise.allSettled(probes.map(probe => resolveHost(resolver, probe)));
+
+  const addresses: string[] = [];
+  answers.forEach(answer => {
+    if (answer.status === 'fulfilled') {
+      answer.value.forEach(address => {
+        if (!addresses.includes(address)) addresses.push(address);
+      });
+    }
+  });
+
+  return { detected: addresses.length > 0, addresses };
+}
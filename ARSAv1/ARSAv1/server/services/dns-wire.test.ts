@@ -0,0 +1,105 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import dns from 'dns';
+import { decodeMessage, encodeQuery, exchange, recordsOfType } from './dns-wire';
+import { encodeResponse, startTcpStandIn, startUdpStandIn } from './test-support/dns-stand-in';
+
+test('encodeQuery writes the header, question and optional EDNS record', () => {
+  const query = encodeQuery('www.Example.test.', 'AAAA', { id: 0x1234, recursionDesired: false });
+  assert.equal(query.readUInt16BE(0), 0x1234);
+  assert.equal(query.readUInt16BE(2), 0);
+  assert.deepEqual(decodeMessage(query).questions, [{ name: 'www.Example.test', type: 'AAAA' }]);
+
+  const withEdns = encodeQuery('example.test', 'DNSKEY', { id: 1, edns: { dnssecOk: true } });
+  const opt = decodeMessage(withEdns).additionals[0];
+  assert.equal(opt.type, 'OPT');
+  assert.equal(withEdns.readUInt16BE(withEdns.length - 4), 0x8000); // DO bit in the TTL field
+
+  assert.throws(() => encodeQuery('example.test', 'BOGUS'), /Unsupported DNS record type/);
+  assert.throws(() => encodeQuery(`${'a'.repeat(64)}.test`, 'A'), /label too long/);
+});
+
+test('decodeMessage reads typed answers', () => {
+  const query = encodeQuery('example.test', 'A', { id: 7 });
+  const message = decodeMessage(encodeResponse(query, {
+    answers: [
+      { name: 'example.test', type: 'A', data: '192.0.2.1' },
+      { name: 'example.test', type: 'AAAA', data: '2001:db8::1' },
+      { name: 'www.example.test', type: 'CNAME', data: 'example.test' },
+      { name: 'example.test', type: 'TXT', data: 'v=spf1 -all' },
+      { name: 'example.test', type: 'SOA', data: 'ns1.example.test hostmaster.example.test 42' },
+    ],
+  }));
+
+  assert.equal(message.id, 7);
+  assert.equal(message.rcode, 0);
+  assert.equal(message.authoritative, true);
+  assert.deepEqual(message.answers.map(record => record.data), [
+    '192.0.2.1',
+    '2001:db8::1',
+    'example.test',
+    ['v=spf1 -all'],
+    { nsname: 'ns1.example.test', hostmaster: 'hostmaster.example.test', serial: 42, refresh: 3600, retry: 600, expire: 86400, minttl: 300 },
+  ]);
+  assert.deepEqual(recordsOfType(message.answers, 'A'), ['192.0.2.1']);
+  assert.deepEqual(recordsOfType(message.answers, 'TXT'), [['v=spf1 -all']]);
+  assert.deepEqual(recordsOfType(message.answers, 'MX'), []);
+});
+
+test('decodeMessage follows compression pointers and rejects loops', () => {
+  const query = encodeQuery('example.test', 'CNAME', { id: 1 });
+  const header = Buffer.from(encodeResponse(query, {}).subarray(0, 12));
+  header.writeUInt16BE(1, 6); // one answer
+  const question = query.subarray(12);
+  // Owner name and target both point back at the question name (offset 12)
+  const answer = Buffer.from([0xc0, 12, 0, 5, 0, 1, 0, 0, 0, 60, 0, 6, 3, 0x77, 0x77, 0x77, 0xc0, 12]);
+  const message = decodeMessage(Buffer.concat([header, question, answer]));
+  assert.deepEqual(message.answers[0], { name: 'example.test', type: 'CNAME', ttl: 60, data: 'www.example.test' });
+
+  // An owner name that points at itself
+  const loop = Buffer.concat([header, question, Buffer.from([0xc0, 12 + question.length])]);
+  assert.throws(() => decodeMessage(loop), /compression loop/);
+
+  assert.throws(() => decodeMessage(Buffer.alloc(4)), /shorter than header/);
+});
+
+test('exchange retries a truncated UDP answer over TCP', async () => {
+  const udp = await startUdpStandIn(() => ({ truncated: true }));
+  const tcp = await startTcpStandIn(({ name }) => [{ answers: [{ name, type: 'TXT', data: 'full answer' }] }], udp.port);
+  try {
+    const response = await exchange(encodeQuery('big.example.test', 'TXT'), '127.0.0.1', { port: udp.port, timeout: 2000 });
+    assert.equal(response.truncated, false);
+    assert.deepEqual(response.answers.map(record => record.data), [['full answer']]);
+    assert.equal(tcp.questions.length, 1);
+  } finally {
+    await Promise.all([udp.close(), tcp.close()]);
+  }
+});
+
+test('exchange fails fast when the TCP server closes mid-message', async () => {
+  const udp = await startUdpStandIn(() => ({ truncated: true }));
+  // A length prefix promising 100 bytes, then only 3 of them before the server closes
+  const tcp = await startTcpStandIn(() => Buffer.from([0, 100, 1, 2, 3]), udp.port);
+  try {
+    const started = Date.now();
+    await assert.rejects(
+      exchange(encodeQuery('big.example.test', 'TXT'), '127.0.0.1', { port: udp.port, timeout: 5000 }),
+      /closed the connection before a complete response/
+    );
+    assert.ok(Date.now() - started < 2000, 'rejected on close rather than at the timeout');
+  } finally {
+    await Promise.all([udp.close(), tcp.close()]);
+  }
+});
+
+test('exchange times out when nothing answers', async () => {
+  const udp = await startUdpStandIn(() => undefined);
+  try {
+    await assert.rejects(exchange(encodeQuery('example.test', 'A'), '127.0.0.1', { port: udp.port, timeout: 200 }), {
+      code: dns.TIMEOUT,
+      message: /timed out/,
+    });
+  } finally {
+    await udp.close();
+  }
+});
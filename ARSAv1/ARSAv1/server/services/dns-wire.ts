@@ -0,0 +1,427 @@
+import crypto from 'crypto';
+import dgram from 'dgram';
+import dns from 'dns';
+import net from 'net';
+
+// Minimal RFC 1035 message codec for the queries Node's resolver can't make (AXFR, DNSSEC types)
+
+export const RECORD_TYPES: { [name: string]: number } = {
+  A: 1,
+  NS: 2,
+  CNAME: 5,
+  SOA: 6,
+  PTR: 12,
+  MX: 15,
+  TXT: 16,
+  AAAA: 28,
+  SRV: 33,
+  DS: 43,
+  RRSIG: 46,
+  NSEC: 47,
+  DNSKEY: 48,
+  OPT: 41,
+  AXFR: 252,
+  ANY: 255,
+  CAA: 257,
+};
+
+export const RCODES: { [code: number]: string } = {
+  0: 'NOERROR',
+  1: 'FORMERR',
+  2: 'SERVFAIL',
+  3: 'NXDOMAIN',
+  4: 'NOTIMP',
+  5: 'REFUSED',
+  9: 'NOTAUTH',
+};
+
+// Decoded RDATA for each record type the codec understands
+export interface RecordData {
+  A: string;
+  AAAA: string;
+  NS: string;
+  CNAME: string;
+  PTR: string;
+  MX: { priority: number; exchange: string };
+  TXT: string[];
+  SOA: { nsname: string; hostmaster: string; serial: number; refresh: number; retry: number; expire: number; minttl: number };
+  SRV: { priority: number; weight: number; port: number; name: string };
+  CAA: { critical: number; tag: string; value: string };
+  DNSKEY: { flags: number; protocol: number; algorithm: number; publicKey: string };
+  DS: { keyTag: number; algorithm: number; digestType: number; digest: string };
+}
+
+export type DecodedRecordType = keyof RecordData;
+
+// Types known by name but not decoded, and unnamed ones; their data is the raw RDATA in hex
+export type OpaqueRecordType = 'RRSIG' | 'NSEC' | 'OPT' | 'AXFR' | 'ANY' | `TYPE${number}`;
+
+type RecordBody =
+  | { [T in DecodedRecordType]: { type: T; data: RecordData[T] } }[DecodedRecordType]
+  | { type: OpaqueRecordType; data: string };
+
+// Discriminated by `type`, so checking it narrows `data`
+export type DnsRecord = RecordBody & {
+  name: string;
+  ttl: number;
+};
+
+export interface DnsMessage {
+  id: number;
+  rcode: number;
+  authoritative: boolean;
+  truncated: boolean;
+  recursionAvailable: boolean;
+  questions: { name: string; type: string }[];
+  answers: DnsRecord[];
+  authorities: DnsRecord[];
+  additionals: DnsRecord[];
+}
+
+export function typeName(code: number): DecodedRecordType | OpaqueRecordType {
+  const name = Object.keys(RECORD_TYPES).find(key => RECORD_TYPES[key] === code);
+  return (name as DecodedRecordType | OpaqueRecordType | undefined) || `TYPE${code}`;
+}
+
+// The decoded data of every record of one type, e.g. the addresses in an A answer
+export function recordsOfType<T extends DecodedRecordType>(records: DnsRecord[], type: T): RecordData[T][] {
+  return records
+    .filter((record): record is Extract<DnsRecord, { type: T }> => record.type === type)
+    .map(record => record.data as RecordData[T]);
+}
+
+export function encodeName(name: string): Buffer {
+  const labels = name.replace(/\.$/, '').split('.').filter(Boolean);
+  const parts: Buffer[] = [];
+
+  labels.forEach(label => {
+    const bytes = Buffer.from(label, 'utf-8');
+    if (bytes.length > 63) {
+      throw new Error(`DNS label too long: ${label}`);
+    }
+    parts.push(Buffer.from([bytes.length]), bytes);
+  });
+  parts.push(Buffer.from([0]));
+
+  return Buffer.concat(parts);
+}
+
+export interface QueryOptions {
+  id?: number;
+  recursionDesired?: boolean;
+  qclass?: 'IN' | 'CH'; // CHAOS is only used for server identity queries such as version.bind
+  // Adds an EDNS0 OPT record so answers larger than 512 bytes (e.g. DNSKEY sets) fit in one UDP datagram
+  edns?: { udpSize?: number; dnssecOk?: boolean };
+}
+
+export function encodeQuery(name: string, type: string, options: QueryOptions = {}): Buffer {
+  const typeCode = RECORD_TYPES[type];
+  if (!typeCode) {
+    throw new Error(`Unsupported DNS record type: ${type}`);
+  }
+
+  const header = Buffer.alloc(12);
+  header.writeUInt16BE(options.id ?? crypto.randomBytes(2).readUInt16BE(0), 0);
+  header.writeUInt16BE(options.recursionDesired === false ? 0 : 0x0100, 2);
+  header.writeUInt16BE(1, 4); // QDCOUNT
+
+  const question = Buffer.alloc(4);
+  question.writeUInt16BE(typeCode, 0);
+  question.writeUInt16BE(options.qclass === 'CH' ? 3 : 1, 2);
+
+  if (!options.edns) {
+    return Buffer.concat([header, encodeName(name), question]);
+  }
+
+  // OPT pseudo-record: root owner, type 41, class = UDP payload size, TTL carries the DO flag
+  header.writeUInt16BE(1, 10); // ARCOUNT
+  const opt = Buffer.alloc(11);
+  opt.writeUInt16BE(RECORD_TYPES.OPT, 1);
+  opt.writeUInt16BE(options.edns.udpSize ?? 4096, 3);
+  opt.writeUInt16BE(options.edns.dnssecOk ? 0x8000 : 0, 7);
+
+  return Buffer.concat([header, encodeName(name), question, opt]);
+}
+
+// Reads a possibly-compressed name; returns the offset just past the name at its original position
+function decodeName(buffer: Buffer, offset: number): { name: string; offset: number } {
+  const labels: string[] = [];
+  let position = offset;
+  let endOffset = -1;
+  let jumps = 0;
+
+  while (true) {
+    if (position >= buffer.length) {
+      throw new Error('DNS name runs past end of message');
+    }
+    const length = buffer[position];
+
+    if ((length & 0xc0) === 0xc0) {
+      if (++jumps > 64) {
+        throw new Error('DNS name compression loop');
+      }
+      if (endOffset < 0) endOffset = position + 2;
+      position = ((length & 0x3f) << 8) | buffer[position + 1];
+      continue;
+    }
+
+    if (length === 0) {
+      position += 1;
+      break;
+    }
+
+    labels.push(buffer.toString('utf-8', position + 1, position + 1 + length));
+    position += 1 + length;
+  }
+
+  return { name: labels.join('.'), offset: endOffset >= 0 ? endOffset : position };
+}
+
+function formatIPv6(bytes: Buffer): string {
+  const groups: string[] = [];
+  for (let i = 0; i < 16; i += 2) {
+    groups.push(bytes.readUInt16BE(i).toString(16));
+  }
+
+  // Collapse the longest run of zero groups, as in RFC 5952
+  let bestStart = -1;
+  let bestLength = 0;
+  for (let i = 0; i < groups.length; i++) {
+    let length = 0;
+    while (i + length < groups.length && groups[i + length] === '0') length++;
+    if (length > bestLength && length > 1) {
+      bestStart = i;
+      bestLength = length;
+    }
+  }
+
+  if (bestStart < 0) {
+    return groups.join(':');
+  }
+  const head = groups.slice(0, bestStart).join(':');
+  const tail = groups.slice(bestStart + bestLength).join(':');
+  return `${head}::${tail}`;
+}
+
+function decodeRecordData(buffer: Buffer, type: DecodedRecordType | OpaqueRecordType, offset: number, length: number): RecordBody {
+  const rdata = buffer.subarray(offset, offset + length);
+
+  switch (type) {
+    case 'A':
+      return { type, data: Array.from(rdata).join('.') };
+    case 'AAAA':
+      return { type, data: formatIPv6(rdata) };
+    case 'NS':
+    case 'CNAME':
+    case 'PTR':
+      return { type, data: decodeName(buffer, offset).name };
+    case 'MX':
+      return { type, data: { priority: rdata.readUInt16BE(0), exchange: decodeName(buffer, offset + 2).name } };
+    case 'TXT': {
+      const strings: string[] = [];
+      let position = 0;
+      while (position < rdata.length) {
+        const size = rdata[position];
+        strings.push(rdata.toString('utf-8', position + 1, position + 1 + size));
+        position += 1 + size;
+      }
+      return { type, data: strings };
+    }
+    case 'SOA': {
+      const mname = decodeName(buffer, offset);
+      const rname = decodeName(buffer, mname.offset);
+      return {
+        type,
+        data: {
+          nsname: mname.name,
+          hostmaster: rname.name,
+          serial: buffer.readUInt32BE(rname.offset),
+          refresh: buffer.readUInt32BE(rname.offset + 4),
+          retry: buffer.readUInt32BE(rname.offset + 8),
+          expire: buffer.readUInt32BE(rname.offset + 12),
+          minttl: buffer.readUInt32BE(rname.offset + 16),
+        },
+      };
+    }
+    case 'SRV':
+      return {
+        type,
+        data: {
+          priority: rdata.readUInt16BE(0),
+          weight: rdata.readUInt16BE(2),
+          port: rdata.readUInt16BE(4),
+          name: decodeName(buffer, offset + 6).name,
+        },
+      };
+    case 'CAA': {
+      const tagLength = rdata[1];
+      return {
+        type,
+        data: {
+          critical: rdata[0],
+          tag: rdata.toString('utf-8', 2, 2 + tagLength),
+          value: rdata.toString('utf-8', 2 + tagLength),
+        },
+      };
+    }
+    case 'DNSKEY':
+      return {
+        type,
+        data: {
+          flags: rdata.readUInt16BE(0),
+          protocol: rdata[2],
+          algorithm: rdata[3],
+          publicKey: rdata.subarray(4).toString('base64'),
+        },
+      };
+    case 'DS':
+      return {
+        type,
+        data: {
+          keyTag: rdata.readUInt16BE(0),
+          algorithm: rdata[2],
+          digestType: rdata[3],
+          digest: rdata.subarray(4).toString('hex'),
+        },
+      };
+    default:
+      return { type, data: rdata.toString('hex') };
+  }
+}
+
+function decodeRecords(buffer: Buffer, offset: number, count: number): { records: DnsRecord[]; offset: number } {
+  const records: DnsRecord[] = [];
+  let position = offset;
+
+  for (let i = 0; i < count; i++) {
+    const owner = decodeName(buffer, position);
+    position = owner.offset;
+
+    const type = typeName(buffer.readUInt16BE(position));
+    const ttl = buffer.readUInt32BE(position + 4);
+    const length = buffer.readUInt16BE(position + 8);
+    position += 10;
+
+    if (position + length > buffer.length) {
+      throw new Error('DNS record data runs past end of message');
+    }
+
+    records.push({ name: owner.name, ttl, ...decodeRecordData(buffer, type, position, length) });
+    position += length;
+  }
+
+  return { records, offset: position };
+}
+
+export function decodeMessage(buffer: Buffer): DnsMessage {
+  if (buffer.length < 12) {
+    throw new Error('DNS message shorter than header');
+  }
+
+  const flags = buffer.readUInt16BE(2);
+  const questionCount = buffer.readUInt16BE(4);
+  let position = 12;
+
+  const questions: { name: string; type: string }[] = [];
+  for (let i = 0; i < questionCount; i++) {
+    const question = decodeName(buffer, position);
+    questions.push({ name: question.name, type: typeName(buffer.readUInt16BE(question.offset)) });
+    position = question.offset + 4;
+  }
+
+  const answers = decodeRecords(buffer, position, buffer.readUInt16BE(6));
+  const authorities = decodeRecords(buffer, answers.offset, buffer.readUInt16BE(8));
+  const additionals = decodeRecords(buffer, authorities.offset, buffer.readUInt16BE(10));
+
+  return {
+    id: buffer.readUInt16BE(0),
+    rcode: flags & 0x000f,
+    authoritative: (flags & 0x0400) !== 0,
+    truncated: (flags & 0x0200) !== 0,
+    recursionAvailable: (flags & 0x0080) !== 0,
+    questions,
+    answers: answers.records,
+    authorities: authorities.records,
+    additionals: additionals.records,
+  };
+}
+
+export interface ExchangeOptions {
+  port?: number;
+  timeout?: number;
+}
+
+// Carries the same code as the system resolver's timeouts, so callers can tell silence from refusals and bad answers
+function timeoutError(server: string): NodeJS.ErrnoException {
+  return Object.assign(new Error(`DNS query to ${server} timed out`), { code: dns.TIMEOUT });
+}
+
+function exchangeUdp(query: Buffer, server: string, port: number, timeout: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const socket = dgram.createSocket(net.isIPv6(server) ? 'udp6' : 'udp4');
+    const timer = setTimeout(() => {
+      socket.close();
+      reject(timeoutError(server));
+    }, timeout);
+
+    socket.on('message', (message) => {
+      // Ignore stray datagrams that don't answer our query ID
+      if (message.length < 2 || message.readUInt16BE(0) !== query.readUInt16BE(0)) return;
+      clearTimeout(timer);
+      socket.close();
+      resolve(message);
+    });
+    socket.on('error', (error) => {
+      clearTimeout(timer);
+      socket.close();
+      reject(error);
+    });
+
+    socket.send(query, port, server);
+  });
+}
+
+function exchangeTcp(query: Buffer, server: string, port: number, timeout: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const socket = net.connect(port, server);
+    let pending = Buffer.alloc(0);
+    let settled = false;
+
+    const finish = (error: Error | undefined, response?: Buffer) => {
+      if (settled) return;
+      settled = true;
+      socket.destroy();
+      if (error) reject(error);
+      else resolve(response!);
+    };
+
+    socket.setTimeout(timeout);
+    socket.on('timeout', () => finish(timeoutError(server)));
+    socket.on('error', (error) => finish(error));
+    // Closing (or half-closing) before a whole length-prefixed message arrived means no answer is coming
+    socket.on('close', () => finish(new Error(`DNS server ${server} closed the connection before a complete response`)));
+    socket.on('connect', () => {
+      const length = Buffer.alloc(2);
+      length.writeUInt16BE(query.length, 0);
+      socket.write(Buffer.concat([length, query]));
+    });
+    socket.on('data', (chunk) => {
+      pending = Buffer.concat([pending, chunk]);
+      if (pending.length >= 2 && pending.length >= 2 + pending.readUInt16BE(0)) {
+        finish(undefined, pending.subarray(2, 2 + pending.readUInt16BE(0)));
+      }
+    });
+  });
+}
+
+// Sends a query over UDP and retries over TCP when the answer comes back truncated
+export async function exchange(query: Buffer, server: string, options: ExchangeOptions = {}): Promise<DnsMessage> {
+  const { port = 53, timeout = 5000 } = options;
+
+  const response = decodeMessage(await exchangeUdp(query, server, port, timeout));
+  if (!response.truncated) {
+    return response;
+  }
+
+  return decodeMessage(await exchangeTcp(query, server, port, timeout));
+}
@@ -0,0 +1,82 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import { analyzeEmailSecurity, type EmailDnsLookups } from './email-security';
+
+// TXT and MX answers from a fixed zone; names without records fail the way a resolver would
+function zone(txt: { [name: string]: string[] }, mx: { priority: number; exchange: string }[] = []): EmailDnsLookups {
+  return {
+    txt: async (name) => {
+      if (!txt[name]) throw Object.assign(new Error(`queryTxt ENOTFOUND ${name}`), { code: 'ENOTFOUND' });
+      return txt[name];
+    },
+    mx: async () => mx,
+  };
+}
+
+const findingTypes = (result: Awaited<ReturnType<typeof analyzeEmailSecurity>>) => result.findings.map(finding => finding.type);
+
+test('a locked-down domain that sends no mail has no findings', async () => {
+  const result = await analyzeEmailSecurity('example.test', zone({
+    'example.test': ['v=spf1 -all'],
+    '_dmarc.example.test': ['v=DMARC1; p=reject; rua=mailto:dmarc@example.test'],
+  }));
+
+  assert.deepEqual(result.findings, []);
+  assert.equal(result.report.spf.allQualifier, '-');
+  assert.equal(result.report.dmarc.policy, 'reject');
+  assert.deepEqual(result.report.dmarc.aggregateReports, ['mailto:dmarc@example.test']);
+});
+
+test('missing records are reported, with the MTA-STS and TLS-RPT checks only for domains that receive mail', async () => {
+  const mx = [{ priority: 10, exchange: 'mx.example.test' }];
+  assert.deepEqual(findingTypes(await analyzeEmailSecurity('example.test', zone({}, mx))), [
+    'Missing SPF Record', 'Missing DMARC Record', 'Missing MTA-STS Policy', 'Missing TLS-RPT Record',
+  ]);
+
+  // RFC 7505 null MX: the domain explicitly accepts no mail
+  assert.deepEqual(findingTypes(await analyzeEmailSecurity('example.test', zone({}, [{ priority: 0, exchange: '' }]))), [
+    'Missing SPF Record', 'Missing DMARC Record',
+  ]);
+});
+
+test('the SPF tree follows includes and redirects and counts lookups', async () => {
+  const includes = Object.fromEntries(Array.from({ length: 11 }, (_, index) =>
+    [`spf${index}.example.test`, [`v=spf1 ip4:192.0.2.${index} ~all`]]));
+  const result = await analyzeEmailSecurity('example.test', zone({
+    'example.test': [`v=spf1 ${Object.keys(includes).map(name => `include:${name}`).join(' ')} ?all`],
+    ...includes,
+  }));
+
+  assert.equal(result.report.spf.tree?.includes.length, 11);
+  assert.equal(result.report.spf.lookupCount, 11);
+  assert.equal(result.report.spf.allQualifier, '?');
+  assert.ok(findingTypes(result).includes('SPF DNS Lookup Limit Exceeded'));
+  assert.ok(findingTypes(result).includes('Weak SPF Policy (?all)'));
+
+  const redirected = await analyzeEmailSecurity('example.test', zone({
+    'example.test': ['v=spf1 redirect=_spf.example.test'],
+    '_spf.example.test': ['v=spf1 include:example.test +all'],
+  }));
+  assert.equal(redirected.report.spf.allQualifier, '+');
+  assert.equal(redirected.report.spf.tree?.includes[0].includes[0].error, 'Include loop');
+  assert.ok(findingTypes(redirected).includes('SPF Allows All Senders (+all)'));
+});
+
+test('DMARC tags and DKIM key sizes are checked', async () => {
+  const { publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 1024 });
+  const key = publicKey.export({ type: 'spki', format: 'der' }).toString('base64');
+  const result = await analyzeEmailSecurity('example.test', zone({
+    'example.test': ['v=spf1 -all', 'v=spf1 ~all'],
+    '_dmarc.example.test': ['v=DMARC1; p=quarantine; pct=25'],
+    'selector1._domainkey.example.test': [`v=DKIM1; k=rsa; p=${key}`],
+    'k1._domainkey.example.test': ['v=DKIM1; p='], // revoked
+  }));
+
+  assert.deepEqual(findingTypes(result), [
+    'Multiple SPF Records', 'DMARC Policy Applied Partially', 'DMARC Without Aggregate Reporting', 'Weak DKIM Key',
+  ]);
+  assert.deepEqual(result.report.dkim.selectors.map(({ selector, keyBits, revoked }) => ({ selector, keyBits, revoked })),
+    [{ selector: 'selector1', keyBits: 1024, revoked: false }, { selector: 'k1', keyBits: undefined, revoked: true }]);
+  assert.equal(result.findings.find(finding => finding.type === 'Weak DKIM Key')?.severity, 'low');
+});
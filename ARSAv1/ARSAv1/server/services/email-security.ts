@@ -0,0 +1,449 @@
+import crypto from 'crypto';
+import https from 'https';
+import net from 'net';
+import type { ReconFinding } from './reconnaissance';
+
+// DNS lookups are injected so the analyzer uses the same resolvers as the rest of the scan
+export interface EmailDnsLookups {
+  txt: (name: string) => Promise<string[]>;
+  mx: (name: string) => Promise<{ priority: number; exchange: string }[]>;
+  lookup?: net.LookupFunction; // used for the MTA-STS policy fetch
+}
+
+export interface SpfMechanism {
+  qualifier: '+' | '-' | '~' | '?';
+  type: string;
+  value?: string;
+}
+
+export interface SpfNode {
+  domain: string;
+  record?: string;
+  mechanisms: SpfMechanism[];
+  redirect?: string;
+  includes: SpfNode[];
+  error?: string;
+}
+
+export interface EmailSecurityReport {
+  mx: { priority: number; exchange: string }[];
+  spf: {
+    records: string[];
+    tree?: SpfNode;
+    lookupCount: number;
+    allQualifier?: SpfMechanism['qualifier'];
+  };
+  dmarc: {
+    record?: string;
+    tags: { [tag: string]: string };
+    policy?: string;
+    subdomainPolicy?: string;
+    pct?: number;
+    aggregateReports: string[];
+    forensicReports: string[];
+  };
+  dkim: {
+    selectors: { selector: string; keyType: string; keyBits?: number; revoked: boolean; record: string }[];
+  };
+  mtaSts: {
+    record?: string;
+    policy?: { mode?: string; mx: string[]; maxAge?: number };
+    error?: string;
+  };
+  tlsRpt: {
+    record?: string;
+    reportUris: string[];
+  };
+}
+
+const SPF_LOOKUP_LIMIT = 10;
+const SPF_MAX_DEPTH = 10;
+
+// Selectors used by the major mail providers and ESPs; DKIM has no way to list a domain's selectors
+const DKIM_SELECTORS = [
+  'default', 'dkim', 'mail', 'selector1', 'selector2', 'google', 'k1', 'k2', 'k3', 's1', 's2',
+  'sig1', 'smtp', 'key1', 'key2', 'dk', 'mandrill', 'mxvault', 'zoho', 'protonmail', 'protonmail2',
+  'protonmail3', 'fm1', 'fm2', 'fm3', 'amazonses', 'mailjet', 'sendgrid', 'everlytickey1',
+  'everlytickey2', 'cm', 'pm', 'mta', 'scph0316', 's1024', 's2048', '20161025', '20210112', '20230601',
+];
+
+// Parses "k=v; k2=v2" tag lists used by DMARC, DKIM, MTA-STS and TLS-RPT records
+function parseTags(record: string): { [tag: string]: string } {
+  const tags: { [tag: string]: string } = {};
+  record.split(';').forEach(part => {
+    const index = part.indexOf('=');
+    if (index > 0) {
+      tags[part.slice(0, index).trim().toLowerCase()] = part.slice(index + 1).trim();
+    }
+  });
+  return tags;
+}
+
+function parseSpfRecord(record: string): { mechanisms: SpfMechanism[]; redirect?: string } {
+  const mechanisms: SpfMechanism[] = [];
+  let redirect: string | undefined;
+
+  record.split(/\s+/).slice(1).forEach(term => {
+    if (!term) return;
+
+    const modifier = term.match(/^([a-z][a-z0-9_.-]*)=(.*)$/i);
+    if (modifier) {
+      if (modifier[1].toLowerCase() === 'redirect') redirect = modifier[2];
+      return;
+    }
+
+    const qualifier = '+-~?'.includes(term[0]) ? term[0] as SpfMechanism['qualifier'] : '+';
+    const body = qualifier === term[0] ? term.slice(1) : term;
+    const separator = body.search(/[:/]/);
+    const type = (separator >= 0 ? body.slice(0, separator) : body).toLowerCase();
+    const value = separator >= 0 ? body.slice(separator).replace(/^:/, '') : undefined;
+
+    mechanisms.push({ qualifier, type, value });
+  });
+
+  return { mechanisms, redirect };
+}
+
+// Mechanisms and modifiers that cost a DNS lookup under RFC 7208 section 4.6.4
+function countOwnLookups(node: SpfNode): number {
+  const mechanismLookups = node.mechanisms.filter(mechanism =>
+    ['include', 'a', 'mx', 'ptr', 'exists'].includes(mechanism.type)
+  ).length;
+  return mechanismLookups + (node.redirect ? 1 : 0);
+}
+
+function countLookups(node: SpfNode): number {
+  return node.includes.reduce((total, child) => total + countLookups(child), countOwnLookups(node));
+}
+
+function findAllQualifier(node: SpfNode): SpfMechanism['qualifier'] | undefined {
+  const all = node.mechanisms.find(mechanism => mechanism.type === 'all');
+  if (all) return all.qualifier;
+
+  // redirect= only applies when the record has no "all"; it is the last entry in includes
+  const redirected = node.redirect ? node.includes[node.includes.length - 1] : undefined;
+  return redirected ? findAllQualifier(redirected) : undefined;
+}
+
+async function resolveSpfTree(
+  domain: string,
+  lookups: EmailDnsLookups,
+  ancestors: string[]
+): Promise<SpfNode> {
+  const node: SpfNode = { domain, mechanisms: [], includes: [] };
+
+  // Receivers re-evaluate an include each time it appears, so only the ancestor chain counts as a loop
+  if (ancestors.includes(domain.toLowerCase())) {
+    node.error = 'Include loop';
+    return node;
+  }
+  if (ancestors.length >= SPF_MAX_DEPTH) {
+    node.error = 'Excessive include nesting';
+    return node;
+  }
+
+  const records = (await lookups.txt(domain).catch(() => [] as string[]))
+    .filter(record => /^v=spf1(\s|$)/i.test(record));
+  if (records.length === 0) {
+    node.error = 'No SPF record';
+    return node;
+  }
+  if (records.length > 1) {
+    node.error = 'Multiple SPF records (permerror)';
+  }
+
+  node.record = records[0];
+  const parsed = parseSpfRecord(records[0]);
+  node.mechanisms = parsed.mechanisms;
+  node.redirect = parsed.redirect;
+
+  const targets = parsed.mechanisms
+    .filter(mechanism => mechanism.type === 'include' && mechanism.value)
+    .map(mechanism => mechanism.value!);
+  if (parsed.redirect && !parsed.mechanisms.some(mechanism => mechanism.type === 'all')) {
+    targets.push(parsed.redirect);
+  }
+
+  for (const include of targets) {
+    node.includes.push(await resolveSpfTree(include, lookups, ancestors.concat(domain.toLowerCase())));
+  }
+
+  return node;
+}
+
+function fetchMtaStsPolicy(domain: string, lookup?: net.LookupFunction): Promise<string> {
+  return new Promise((resolve, reject) => {
+    // Certificate validation stays on: an invalid certificate makes the policy unusable for senders
+    const req = https.get(`https://mta-sts.${domain}/.well-known/mta-sts.txt`, { timeout: 10000, lookup }, (res) => {
+      if (res.statusCode !== 200) {
+        res.resume();
+        return reject(new Error(`Policy request returned HTTP ${res.statusCode}`));
+      }
+      let body = '';
+      res.setEncoding('utf-8');
+      res.on('data', (chunk: string) => {
+        body += chunk;
+        if (body.length > 65536) req.destroy(new Error('Policy file too large'));
+      });
+      res.on('end', () => resolve(body));
+    });
+    req.on('timeout', () => req.destroy(new Error('Policy request timed out')));
+    req.on('error', reject);
+  });
+}
+
+function getKeyBits(publicKey: string): number | undefined {
+  try {
+    const key = crypto.createPublicKey({ key: Buffer.from(publicKey, 'base64'), format: 'der', type: 'spki' });
+    return key.asymmetricKeyDetails?.modulusLength;
+  } catch (error) {
+    return undefined;
+  }
+}
+
+export async function analyzeEmailSecurity(
+  domain: string,
+  lookups: EmailDnsLookups
+): Promise<{ report: EmailSecurityReport; findings: ReconFinding[] }> {
+  const findings: ReconFinding[] = [];
+  const txt = (name: string) => lookups.txt(name).catch(() => [] as string[]);
+
+  const [mx, rootTxt, dmarcTxt, mtaStsTxt, tlsRptTxt] = await Promise.all([
+    lookups.mx(domain).catch(() => [] as { priority: number; exchange: string }[]),
+    txt(domain),
+    txt(`_dmarc.${domain}`),
+    txt(`_mta-sts.${domain}`),
+    txt(`_smtp._tls.${domain}`),
+  ]);
+  const receivesMail = mx.length > 0 && !(mx.length === 1 && mx[0].exchange === ''); // RFC 7505 null MX
+
+  // SPF
+  const spfRecords = rootTxt.filter(record => /^v=spf1(\s|$)/i.test(record));
+  const spf: EmailSecurityReport['spf'] = { records: spfRecords, lookupCount: 0 };
+
+  if (spfRecords.length === 0) {
+    findings.push({
+      severity: 'medium',
+      type: 'Missing SPF Record',
+      description: `${domain} publishes no SPF record, so receivers cannot tell which servers may send mail for it.`,
+      cvss: '5.3',
+      remediation: `Publish a TXT record such as "v=spf1 include:<your mail provider> -all" on ${domain}; ` +
+        'use "v=spf1 -all" if the domain never sends mail.',
+    });
+  } else {
+    spf.tree = await resolveSpfTree(domain, lookups, []);
+    spf.lookupCount = countLookups(spf.tree);
+    spf.allQualifier = findAllQualifier(spf.tree);
+
+    if (spfRecords.length > 1) {
+      findings.push({
+        severity: 'medium',
+        type: 'Multiple SPF Records',
+        description: `${domain} publishes ${spfRecords.length} SPF records; receivers treat this as a permanent error and ignore SPF.`,
+        cvss: '5.3',
+        remediation: 'Merge the SPF records into a single "v=spf1" TXT record.',
+        evidence: { records: spfRecords },
+      });
+    }
+
+    if (spf.allQualifier === '+') {
+      findings.push({
+        severity: 'high',
+        type: 'SPF Allows All Senders (+all)',
+        description: `The SPF policy for ${domain} ends in "+all", authorizing every host on the internet to send mail as the domain.`,
+        cvss: '7.5',
+        remediation: 'Replace "+all" with "-all" (or "~all" while rolling out) after listing the legitimate senders.',
+        evidence: { record: spf.tree.record },
+      });
+    } else if (spf.allQualifier === '~' || spf.allQualifier === '?') {
+      findings.push({
+        severity: 'low',
+        type: `Weak SPF Policy (${spf.allQualifier}all)`,
+        description: `The SPF policy for ${domain} ends in "${spf.allQualifier}all", so mail from unauthorized servers is ` +
+          `${spf.allQualifier === '~' ? 'only soft-failed' : 'treated as neutral'} rather than rejected.`,
+        cvss: '3.7',
+        remediation: 'Once all legitimate senders are listed, switch the policy to "-all" and enforce DMARC.',
+        evidence: { record: spf.tree.record },
+      });
+    } else if (!spf.allQualifier) {
+      findings.push({
+        severity: 'medium',
+        type: 'SPF Policy Without "all" Mechanism',
+        description: `The SPF record for ${domain} has no terminating "all" mechanism, so unlisted senders default to neutral.`,
+        cvss: '5.3',
+        remediation: 'End the SPF record with "-all".',
+        evidence: { record: spf.tree.record },
+      });
+    }
+
+    if (spf.lookupCount > SPF_LOOKUP_LIMIT) {
+      findings.push({
+        severity: 'medium',
+        type: 'SPF DNS Lookup Limit Exceeded',
+        description: `Evaluating the SPF policy for ${domain} takes ${spf.lookupCount} DNS lookups, over the RFC 7208 limit of ` +
+          `${SPF_LOOKUP_LIMIT}. Receivers return a permanent error and SPF effectively stops protecting the domain.`,
+        cvss: '5.3',
+        remediation: 'Flatten nested includes or replace them with ip4:/ip6: ranges to bring the total under 10 lookups.',
+        evidence: { tree: spf.tree },
+      });
+    }
+  }
+
+  // DMARC
+  const dmarcRecord = dmarcTxt.find(record => /^v=DMARC1(\s|;|$)/i.test(record));
+  const dmarcTags = dmarcRecord ? parseTags(dmarcRecord) : {};
+  const splitUris = (value?: string) => (value ? value.split(',').map(uri => uri.trim()).filter(Boolean) : []);
+  const dmarc: EmailSecurityReport['dmarc'] = {
+    record: dmarcRecord,
+    tags: dmarcTags,
+    policy: dmarcTags.p?.toLowerCase(),
+    subdomainPolicy: dmarcTags.sp?.toLowerCase(),
+    pct: dmarcTags.pct ? parseInt(dmarcTags.pct) : undefined,
+    aggregateReports: splitUris(dmarcTags.rua),
+    forensicReports: splitUris(dmarcTags.ruf),
+  };
+
+  if (!dmarcRecord) {
+    findings.push({
+      severity: 'medium',
+      type: 'Missing DMARC Record',
+      description: `No DMARC record exists at _dmarc.${domain}; spoofed mail using the domain in the From header is not rejected.`,
+      cvss: '5.3',
+      remediation: `Publish "v=DMARC1; p=none; rua=mailto:dmarc@${domain}" at _dmarc.${domain}, review the reports, ` +
+        'then move to p=quarantine and p=reject.',
+    });
+  } else {
+    if (dmarc.policy === 'none' || !dmarc.policy) {
+      findings.push({
+        severity: 'medium',
+        type: 'DMARC Policy Not Enforced (p=none)',
+        description: `The DMARC policy for ${domain} is "${dmarc.policy || 'missing'}", so receivers deliver mail that fails authentication.`,
+        cvss: '5.3',
+        remediation: 'Move the policy to p=quarantine and then p=reject once aggregate reports show legitimate mail aligns.',
+        evidence: { record: dmarcRecord },
+      });
+    }
+    if (dmarc.pct !== undefined && dmarc.pct < 100 && dmarc.policy !== 'none') {
+      findings.push({
+        severity: 'low',
+        type: 'DMARC Policy Applied Partially',
+        description: `The DMARC policy for ${domain} only applies to ${dmarc.pct}% of failing mail.`,
+        cvss: '3.1',
+        remediation: 'Raise pct to 100 (or remove the tag) once the policy is validated.',
+        evidence: { record: dmarcRecord },
+      });
+    }
+    if (dmarc.aggregateReports.length === 0) {
+      findings.push({
+        severity: 'low',
+        type: 'DMARC Without Aggregate Reporting',
+        description: `The DMARC record for ${domain} has no rua= address, so spoofing attempts and misconfigured senders go unnoticed.`,
+        cvss: '2.0',
+        remediation: `Add rua=mailto:<address> to the DMARC record at _dmarc.${domain}.`,
+        evidence: { record: dmarcRecord },
+      });
+    }
+  }
+
+  // DKIM
+  const dkimResults = await Promise.all(DKIM_SELECTORS.map(async selector => {
+    const record = (await txt(`${selector}._domainkey.${domain}`)).find(value => /(^|;)\s*(v=DKIM1|p=)/i.test(value));
+    if (!record) return undefined;
+
+    const tags = parseTags(record);
+    const keyType = (tags.k || 'rsa').toLowerCase();
+    const revoked = !tags.p;
+    return {
+      selector,
+      keyType,
+      keyBits: !revoked && keyType === 'rsa' ? getKeyBits(tags.p.replace(/\s+/g, '')) : undefined,
+      revoked,
+      record,
+    };
+  }));
+  const dkim: EmailSecurityReport['dkim'] = {
+    selectors: dkimResults.filter((result): result is NonNullable<typeof result> => !!result),
+  };
+
+  dkim.selectors.filter(selector => selector.keyBits !== undefined && selector.keyBits < 2048).forEach(selector => {
+    findings.push({
+      severity: selector.keyBits! < 1024 ? 'medium' : 'low',
+      type: 'Weak DKIM Key',
+      description: `DKIM selector "${selector.selector}" on ${domain} uses a ${selector.keyBits}-bit RSA key.`,
+      cvss: selector.keyBits! < 1024 ? '5.9' : '3.7',
+      remediation: 'Rotate to a 2048-bit RSA (or Ed25519) key under a new selector and retire the old one.',
+      evidence: { selector: selector.selector, record: selector.record },
+    });
+  });
+
+  // MTA-STS
+  const mtaStsRecord = mtaStsTxt.find(record => /^v=STSv1/i.test(record));
+  const mtaSts: EmailSecurityReport['mtaSts'] = { record: mtaStsRecord };
+
+  if (mtaStsRecord) {
+    try {
+      const policyTags: { [key: string]: string } = {};
+      const mxPatterns: string[] = [];
+      (await fetchMtaStsPolicy(domain, lookups.lookup)).split(/\r?\n/).forEach(line => {
+        const index = line.indexOf(':');
+        if (index < 0) return;
+        const key = line.slice(0, index).trim().toLowerCase();
+        const value = line.slice(index + 1).trim();
+        if (key === 'mx') mxPatterns.push(value);
+        else policyTags[key] = value;
+      });
+      mtaSts.policy = {
+        mode: policyTags.mode,
+        mx: mxPatterns,
+        maxAge: policyTags.max_age ? parseInt(policyTags.max_age) : undefined,
+      };
+
+      if (mtaSts.policy.mode !== 'enforce') {
+        findings.push({
+          severity: 'low',
+          type: 'MTA-STS Not Enforced',
+          description: `The MTA-STS policy for ${domain} is in "${mtaSts.policy.mode || 'unknown'}" mode, so senders still fall back to unencrypted delivery.`,
+          cvss: '3.7',
+          remediation: 'Switch the policy to "mode: enforce" after TLS-RPT reports show no delivery failures.',
+        });
+      }
+    } catch (error) {
+      mtaSts.error = (error as Error).message;
+      findings.push({
+        severity: 'medium',
+        type: 'Broken MTA-STS Policy',
+        description: `_mta-sts.${domain} advertises MTA-STS but the policy at https://mta-sts.${domain}/.well-known/mta-sts.txt ` +
+          `could not be retrieved (${mtaSts.error}).`,
+        cvss: '4.3',
+        remediation: 'Serve the policy file over HTTPS with a valid certificate for mta-sts.' + domain + '.',
+      });
+    }
+  } else if (receivesMail) {
+    findings.push({
+      severity: 'low',
+      type: 'Missing MTA-STS Policy',
+      description: `${domain} receives mail but publishes no MTA-STS policy, leaving inbound SMTP open to TLS downgrade.`,
+      cvss: '3.7',
+      remediation: `Publish a _mta-sts.${domain} TXT record and a policy file at https://mta-sts.${domain}/.well-known/mta-sts.txt.`,
+    });
+  }
+
+  // TLS-RPT
+  const tlsRptRecord = tlsRptTxt.find(record => /^v=TLSRPTv1/i.test(record));
+  const tlsRpt: EmailSecurityReport['tlsRpt'] = {
+    record: tlsRptRecord,
+    reportUris: tlsRptRecord ? splitUris(parseTags(tlsRptRecord).rua) : [],
+  };
+
+  if (!tlsRptRecord && receivesMail) {
+    findings.push({
+      severity: 'low',
+      type: 'Missing TLS-RPT Record',
+      description: `${domain} publishes no TLS-RPT record at _smtp._tls.${domain}, so failed TLS deliveries are not reported.`,
+      cvss: '2.0',
+      remediation: `Publish "v=TLSRPTv1; rua=mailto:tls-reports@${domain}" at _smtp._tls.${domain}.`,
+    });
+  }
+
+  return { report: { mx, spf, dmarc, dkim, mtaSts, tlsRpt }, findings };
+}
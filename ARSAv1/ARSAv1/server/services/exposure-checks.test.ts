@@ -0,0 +1,150 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import net from 'net';
+import { checkExposure } from './exposure-checks';
+
+// A local data store stand-in that answers the first request with a canned reply
+async function withServer(reply: (request: Buffer) => string | Buffer, run: (port: number) => Promise<void>) {
+  const sockets = new Set<net.Socket>();
+  const server = net.createServer(socket => {
+    sockets.add(socket);
+    socket.on('error', () => undefined);
+    socket.on('close', () => sockets.delete(socket));
+    socket.once('data', request => socket.end(reply(request)));
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  try {
+    await run((server.address() as net.AddressInfo).port);
+  } finally {
+    sockets.forEach(socket => socket.destroy());
+    await new Promise(resolve => server.close(resolve));
+  }
+}
+
+test('Redis is exposed only when PING runs without AUTH', async () => {
+  const info = '# Server\r\nredis_version:7.2.4\r\nredis_mode:standalone\r\nos:Linux 6.1.0 x86_64\r\n';
+  await withServer(() => `+PONG\r\n$${info.length}\r\n${info}\r\n`, async port => {
+    const { check, finding } = await checkExposure('127.0.0.1', 'redis', port);
+    assert.deepEqual(check, {
+      service: 'redis', port, exposed: true, detail: { version: '7.2.4', mode: 'standalone', os: 'Linux 6.1.0 x86_64' },
+    });
+    assert.equal(finding?.severity, 'critical');
+    assert.equal(finding?.type, 'Unauthenticated Redis');
+    assert.deepEqual(finding?.evidence, { host: '127.0.0.1', port, version: '7.2.4', mode: 'standalone', os: 'Linux 6.1.0 x86_64' });
+  });
+
+  await withServer(() => '-NOAUTH Authentication required.\r\n-NOAUTH Authentication required.\r\n', async port => {
+    assert.deepEqual(await checkExposure('127.0.0.1', 'redis', port), {
+      check: { service: 'redis', port, exposed: false, detail: { reply: '-NOAUTH Authentication required.' } },
+    });
+  });
+});
+
+test('memcached stats are read, and refusals and other services are told apart', async () => {
+  await withServer(() => 'STAT pid 1\r\nSTAT uptime 42\r\nSTAT version 1.6.21\r\nSTAT curr_items 3\r\nSTAT bytes 120\r\nEND\r\n', async port => {
+    const { check, finding } = await checkExposure('127.0.0.1', 'memcached', port);
+    assert.deepEqual(check?.detail, { version: '1.6.21', uptime: '42', items: '3', bytes: '120' });
+    assert.equal(finding?.type, 'Unauthenticated Memcached');
+  });
+
+  await withServer(() => 'ERROR\r\n', async port => {
+    assert.deepEqual((await checkExposure('127.0.0.1', 'memcached', port)).check, { service: 'memcached', port, exposed: false, detail: { reply: 'ERROR' } });
+  });
+
+  await withServer(() => 'HTTP/1.1 400 Bad Request\r\n\r\n', async port => {
+    assert.deepEqual(await checkExposure('127.0.0.1', 'memcached', port), { check: undefined });
+  });
+});
+
+type Document = { [key: string]: number | string | boolean | Document | Document[] };
+
+// Numbers as doubles, as mongod sends "ok"
+function bson(document: Document | Document[]): Buffer {
+  const elements = Object.entries(document).map(([key, value]) => {
+    const name = Buffer.from(`${key}\0`);
+    if (typeof value === 'number') {
+      const double = Buffer.alloc(8);
+      double.writeDoubleLE(value);
+      return Buffer.concat([Buffer.from([0x01]), name, double]);
+    }
+    if (typeof value === 'boolean') return Buffer.concat([Buffer.from([0x08]), name, Buffer.from([value ? 1 : 0])]);
+    if (typeof value === 'string') {
+      const length = Buffer.alloc(4);
+      length.writeInt32LE(Buffer.byteLength(value) + 1);
+      return Buffer.concat([Buffer.from([0x02]), name, length, Buffer.from(`${value}\0`)]);
+    }
+    return Buffer.concat([Buffer.from([Array.isArray(value) ? 0x04 : 0x03]), name, bson(value)]);
+  });
+  const body = Buffer.concat([...elements, Buffer.from([0])]);
+  const size = Buffer.alloc(4);
+  size.writeInt32LE(body.length + 4);
+  return Buffer.concat([size, body]);
+}
+
+// OP_MSG replies to the isMaster (request 1) and listDatabases (request 2) commands
+function mongoReplies(hello: Document, databases: Document): Buffer {
+  return Buffer.concat(([[1, hello], [2, databases]] as [number, Document][]).map(([responseTo, document]) => {
+    const body = Buffer.concat([Buffer.alloc(5), bson(document)]);
+    const header = Buffer.alloc(16);
+    header.writeInt32LE(16 + body.length, 0);
+    header.writeInt32LE(100 + responseTo, 4);
+    header.writeInt32LE(responseTo, 8);
+    header.writeInt32LE(2013, 12);
+    return Buffer.concat([header, body]);
+  }));
+}
+
+test('MongoDB is exposed when listDatabases runs before authentication', async () => {
+  const hello = { ismaster: true, maxWireVersion: 21, setName: 'rs0', ok: 1 };
+
+  await withServer(() => mongoReplies(hello, { databases: [{ name: 'admin', sizeOnDisk: 40960 }, { name: 'shop' }], ok: 1 }), async port => {
+    const { check, finding } = await checkExposure('127.0.0.1', 'mongodb', port);
+    assert.deepEqual(check?.detail, { maxWireVersion: 21, setName: 'rs0', readOnly: undefined, databases: ['admin', 'shop'] });
+    assert.equal(finding?.type, 'Unauthenticated MongoDB');
+  });
+
+  const unauthorized = { ok: 0, errmsg: 'command listDatabases requires authentication', code: 13, codeName: 'Unauthorized' };
+  await withServer(() => mongoReplies(hello, unauthorized), async port => {
+    const { check, finding } = await checkExposure('127.0.0.1', 'mongodb', port);
+    assert.equal(check?.exposed, false);
+    assert.equal(check?.detail.error, 'command listDatabases requires authentication');
+    assert.equal(finding, undefined);
+  });
+});
+
+test('Elasticsearch is exposed when the root endpoint answers without credentials', async () => {
+  const withHttp = async (status: number, body: object, run: (port: number) => Promise<void>) => {
+    const server = http.createServer((_req, res) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    try {
+      await run((server.address() as net.AddressInfo).port);
+    } finally {
+      server.closeAllConnections();
+      await new Promise(resolve => server.close(resolve));
+    }
+  };
+
+  const root = { name: 'node-1', cluster_name: 'search', version: { number: '8.11.1' }, tagline: 'You Know, for Search' };
+  await withHttp(200, root, async port => {
+    const { check, finding } = await checkExposure('127.0.0.1', 'elasticsearch', port);
+    assert.deepEqual(check?.detail, { scheme: 'http', clusterName: 'search', nodeName: 'node-1', version: '8.11.1', distribution: 'elasticsearch' });
+    assert.equal(finding?.type, 'Unauthenticated Elasticsearch');
+  });
+
+  await withHttp(401, { error: 'security_exception' }, async port => {
+    assert.deepEqual((await checkExposure('127.0.0.1', 'elasticsearch', port)).check,
+      { service: 'elasticsearch', port, exposed: false, detail: { scheme: 'http', statusCode: 401 } });
+  });
+
+  // Other JSON services on the port, and documents too large to be a status reply, are not Elasticsearch
+  await withHttp(200, { version: '8.11.1', tagline: 'You Know, for Search' }, async port => {
+    assert.equal((await checkExposure('127.0.0.1', 'elasticsearch', port)).check, undefined);
+  });
+  await withHttp(200, { ...root, padding: 'x'.repeat(200000) }, async port => {
+    assert.equal((await checkExposure('127.0.0.1', 'elasticsearch', port)).check, undefined);
+  });
+});
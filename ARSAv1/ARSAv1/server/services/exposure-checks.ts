@@ -0,0 +1,322 @@
+import http from 'http';
+import https from 'https';
+import { exchangeOnce } from './service-probes';
+import type { ReconFinding } from './reconnaissance';
+
+// Read-only checks for data stores that answer without credentials. Each one sends only commands that report
+// status or metadata (PING/INFO, isMaster/listDatabases, GET /, stats) and never reads or changes stored data.
+
+export type ExposureService = 'redis' | 'mongodb' | 'elasticsearch' | 'memcached';
+
+export interface ExposureCheck {
+  service: ExposureService;
+  port: number;
+  exposed: boolean;
+  detail: { [key: string]: unknown }; // what the unauthenticated session revealed, or why access was refused
+}
+
+export const DEFAULT_EXPOSURE_PORTS: { [service in ExposureService]: number[] } = {
+  redis: [6379],
+  mongodb: [27017],
+  elasticsearch: [9200],
+  memcached: [11211],
+};
+
+const PROBE_TIMEOUT = 5000;
+
+async function checkRedis(host: string, port: number): Promise<ExposureCheck | undefined> {
+  // Pipelined: PING proves whether commands run without AUTH, INFO server only describes the instance
+  const response = await exchangeOnce(host, port, '*1\r\n$4\r\nPING\r\n*2\r\n$4\r\nINFO\r\n$6\r\nserver\r\n', {
+    timeout: PROBE_TIMEOUT,
+    servername: host,
+  });
+  const text = response?.toString('utf-8');
+  if (!text || !/^[+-]/.test(text)) return undefined;
+
+  if (!text.startsWith('+PONG')) {
+    return { service: 'redis', port, exposed: false, detail: { reply: text.split('\r\n')[0] } };
+  }
+
+  const field = (name: string) => text.match(new RegExp(`^${name}:(.*)$`, 'm'))?.[1].trim();
+  return {
+    service: 'redis',
+    port,
+    exposed: true,
+    detail: { version: field('redis_version'), mode: field('redis_mode'), os: field('os') },
+  };
+}
+
+// Minimal BSON: enough to build command documents and read replies
+type BsonValue = number | string | boolean | null | BsonValue[] | { [key: string]: BsonValue };
+
+function encodeBson(document: { [key: string]: number | string }): Buffer {
+  const elements = Object.keys(document).map(key => {
+    const value = document[key];
+    const name = Buffer.from(`${key}\0`, 'utf-8');
+    if (typeof value === 'number') {
+      const int = Buffer.alloc(4);
+      int.writeInt32LE(value);
+      return Buffer.concat([Buffer.from([0x10]), name, int]);
+    }
+    const string = Buffer.from(`${value}\0`, 'utf-8');
+    const length = Buffer.alloc(4);
+    length.writeInt32LE(string.length);
+    return Buffer.concat([Buffer.from([0x02]), name, length, string]);
+  });
+
+  const body = Buffer.concat([...elements, Buffer.from([0])]);
+  const size = Buffer.alloc(4);
+  size.writeInt32LE(body.length + 4);
+  return Buffer.concat([size, body]);
+}
+
+function decodeBson(buffer: Buffer, offset = 0, asArray = false): { [key: string]: BsonValue } | BsonValue[] {
+  const end = offset + buffer.readInt32LE(offset);
+  const result: { [key: string]: BsonValue } = {};
+  let position = offset + 4;
+
+  while (position < end - 1) {
+    const type = buffer[position++];
+    const nameEnd = buffer.indexOf(0, position);
+    const name = buffer.toString('utf-8', position, nameEnd);
+    position = nameEnd + 1;
+
+    switch (type) {
+      case 0x01: result[name] = buffer.readDoubleLE(position); position += 8; break;
+      case 0x02: {
+        const length = buffer.readInt32LE(position);
+        result[name] = buffer.toString('utf-8', position + 4, position + 4 + length - 1);
+        position += 4 + length;
+        break;
+      }
+      case 0x03:
+      case 0x04:
+        result[name] = decodeBson(buffer, position, type === 0x04) as BsonValue;
+        position += buffer.readInt32LE(position);
+        break;
+      case 0x05: position += 4 + 1 + buffer.readInt32LE(position); result[name] = '<binary>'; break;
+      case 0x07: result[name] = buffer.toString('hex', position, position + 12); position += 12; break;
+      case 0x08: result[name] = buffer[position] === 1; position += 1; break;
+      case 0x09: result[name] = Number(buffer.readBigInt64LE(position)); position += 8; break;
+      case 0x0a: result[name] = null; break;
+      case 0x10: result[name] = buffer.readInt32LE(position); position += 4; break;
+      case 0x11:
+      case 0x12: result[name] = Number(buffer.readBigInt64LE(position)); position += 8; break;
+      case 0x13: result[name] = '<decimal128>'; position += 16; break;
+      default:
+        // Unknown element type: its length can't be known, so stop here with what was decoded
+        return asArray ? Object.keys(result).map(key => result[key]) : result;
+    }
+  }
+
+  return asArray ? Object.keys(result).map(key => result[key]) : result;
+}
+
+// OP_MSG (MongoDB 3.6+) with a single body section
+function mongoCommand(requestId: number, command: { [key: string]: number | string }): Buffer {
+  const header = Buffer.alloc(16);
+  const body = Buffer.concat([Buffer.alloc(4), Buffer.from([0]), encodeBson(command)]); // flagBits, section kind 0
+  header.writeInt32LE(16 + body.length, 0);
+  header.writeInt32LE(requestId, 4);
+  header.writeInt32LE(2013, 12);
+  return Buffer.concat([header, body]);
+}
+
+function readMongoReplies(response: Buffer): { [responseTo: number]: { [key: string]: BsonValue } } {
+  const replies: { [responseTo: number]: { [key: string]: BsonValue } } = {};
+  let offset = 0;
+
+  while (offset + 21 <= response.length) {
+    const length = response.readInt32LE(offset);
+    if (length < 21 || offset + length > response.length || response.readInt32LE(offset + 12) !== 2013) break;
+    replies[response.readInt32LE(offset + 8)] = decodeBson(response, offset + 21) as { [key: string]: BsonValue };
+    offset += length;
+  }
+
+  return replies;
+}
+
+async function checkMongo(host: string, port: number): Promise<ExposureCheck | undefined> {
+  // isMaster is allowed before authentication by design; listDatabases (names only) shows whether anything else is
+  const request = Buffer.concat([
+    mongoCommand(1, { isMaster: 1, $db: 'admin' }),
+    mongoCommand(2, { listDatabases: 1, nameOnly: 1, $db: 'admin' }),
+  ]);
+  const response = await exchangeOnce(host, port, request, { timeout: PROBE_TIMEOUT, servername: host });
+  if (!response) return undefined;
+
+  let replies: ReturnType<typeof readMongoReplies>;
+  try {
+    replies = readMongoReplies(response);
+  } catch (error) {
+    return undefined;
+  }
+  const hello = replies[1];
+  const databases = replies[2];
+  if (!hello) return undefined;
+
+  const detail = {
+    maxWireVersion: hello.maxWireVersion,
+    setName: hello.setName,
+    readOnly: hello.readOnly,
+  };
+  if (!databases || databases.ok !== 1) {
+    return { service: 'mongodb', port, exposed: false, detail: { ...detail, error: databases?.errmsg ?? databases?.codeName } };
+  }
+
+  const names = Array.isArray(databases.databases)
+    ? databases.databases.map(database => (database as { [key: string]: BsonValue }).name)
+    : [];
+  return { service: 'mongodb', port, exposed: true, detail: { ...detail, databases: names } };
+}
+
+// Status and metadata documents are small; anything past this is not the document being looked for
+const MAX_JSON_BYTES = 65536;
+
+function getJson(url: string): Promise<{ statusCode: number; body: unknown } | undefined> {
+  return new Promise((resolve) => {
+    const client = url.startsWith('https:') ? https : http;
+    const req = client.get(url, { timeout: PROBE_TIMEOUT, rejectUnauthorized: false }, (res) => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+
+      const done = () => {
+        let body: unknown;
+        try {
+          body = JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+        } catch (error) {
+          body = undefined;
+        }
+        resolve({ statusCode: res.statusCode || 0, body });
+      };
+
+      res.on('data', (chunk: Buffer) => {
+        chunks.push(chunk);
+        size += chunk.length;
+        if (size >= MAX_JSON_BYTES) {
+          res.destroy();
+          done();
+        }
+      });
+      res.on('end', done);
+      res.on('error', () => resolve(undefined));
+    });
+
+    req.on('timeout', () => req.destroy(new Error('Request timed out')));
+    req.on('error', () => resolve(undefined));
+  });
+}
+
+function isObject(value: unknown): value is { [key: string]: unknown } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+async function checkElasticsearch(host: string, port: number): Promise<ExposureCheck | undefined> {
+  const urlHost = host.includes(':') ? `[${host}]` : host;
+
+  for (const scheme of ['http', 'https']) {
+    const response = await getJson(`${scheme}://${urlHost}:${port}/`);
+    if (!response) continue;
+
+    if (response.statusCode === 401 || response.statusCode === 403) {
+      return { service: 'elasticsearch', port, exposed: false, detail: { scheme, statusCode: response.statusCode } };
+    }
+    const body = isObject(response.body) ? response.body : {};
+    const version = isObject(body.version) ? body.version : {};
+    if (response.statusCode === 200 && typeof version.number === 'string' && (body.tagline || body.cluster_name)) {
+      return {
+        service: 'elasticsearch',
+        port,
+        exposed: true,
+        detail: {
+          scheme,
+          clusterName: body.cluster_name,
+          nodeName: body.name,
+          version: version.number,
+          distribution: version.distribution || 'elasticsearch',
+        },
+      };
+    }
+  }
+
+  return undefined;
+}
+
+async function checkMemcached(host: string, port: number): Promise<ExposureCheck | undefined> {
+  const response = await exchangeOnce(host, port, 'stats\r\n', { timeout: PROBE_TIMEOUT, servername: host });
+  const text = response?.toString('utf-8');
+  if (!text) return undefined;
+
+  if (!text.startsWith('STAT ')) {
+    // SASL-enabled servers refuse plain commands
+    return /^(ERROR|CLIENT_ERROR|SERVER_ERROR)/.test(text)
+      ? { service: 'memcached', port, exposed: false, detail: { reply: text.split('\r\n')[0] } }
+      : undefined;
+  }
+
+  const stat = (name: string) => text.match(new RegExp(`^STAT ${name} (.*)$`, 'm'))?.[1].trim();
+  return {
+    service: 'memcached',
+    port,
+    exposed: true,
+    detail: { version: stat('version'), uptime: stat('uptime'), items: stat('curr_items'), bytes: stat('bytes') },
+  };
+}
+
+const CHECKS: { [service in ExposureService]: (host: string, port: number) => Promise<ExposureCheck | undefined> } = {
+  redis: checkRedis,
+  mongodb: checkMongo,
+  elasticsearch: checkElasticsearch,
+  memcached: checkMemcached,
+};
+
+const FINDINGS: { [service in ExposureService]: { type: string; cvss: string; impact: string; remediation: string } } = {
+  redis: {
+    type: 'Unauthenticated Redis',
+    cvss: '9.8',
+    impact: 'anyone can read and overwrite cached data, and CONFIG/MODULE commands commonly lead to remote code execution',
+    remediation: 'Require authentication (requirepass or ACL users), enable protected mode, and bind Redis to internal interfaces only.',
+  },
+  mongodb: {
+    type: 'Unauthenticated MongoDB',
+    cvss: '9.8',
+    impact: 'anyone can list, read, modify and delete its databases',
+    remediation: 'Enable access control (security.authorization: enabled), create users with least privilege, and bind to internal interfaces only.',
+  },
+  elasticsearch: {
+    type: 'Unauthenticated Elasticsearch',
+    cvss: '9.8',
+    impact: 'anyone can query, modify and delete its indices through the REST API',
+    remediation: 'Enable the security features (xpack.security.enabled) with authentication and TLS, and keep the HTTP port off public networks.',
+  },
+  memcached: {
+    type: 'Unauthenticated Memcached',
+    cvss: '9.1',
+    impact: 'anyone can read and overwrite cached entries, and an exposed UDP listener can be abused for amplification',
+    remediation: 'Bind memcached to internal interfaces, enable SASL authentication, and disable UDP (-U 0).',
+  },
+};
+
+export async function checkExposure(
+  host: string,
+  service: ExposureService,
+  port: number
+): Promise<{ check?: ExposureCheck; finding?: ReconFinding }> {
+  const check = await CHECKS[service](host, port);
+  if (!check?.exposed) {
+    return { check };
+  }
+
+  const template = FINDINGS[service];
+  return {
+    check,
+    finding: {
+      severity: 'critical',
+      type: template.type,
+      description: `The ${service} service on ${host}:${port} accepts commands without authentication; ${template.impact}.`,
+      cvss: template.cvss,
+      remediation: template.remediation,
+      evidence: { host, port, ...check.detail },
+    },
+  };
+}
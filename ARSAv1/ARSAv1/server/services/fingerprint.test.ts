@@ -0,0 +1,105 @@
+import { after, test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+// A team rule directory that overrides a bundled technology, adds its own category and carries broken files. The rule
+// directories are read from the environment when the module loads.
+const teamDir = fs.mkdtempSync(path.join(os.tmpdir(), 'technology-rules-'));
+fs.writeFileSync(path.join(teamDir, 'acme.json'), JSON.stringify({
+  'Acme Portal': {
+    cats: [99],
+    html: '<div id="acme-root"',
+    headers: { 'X-Acme': '(\\d+)?\\;version:\\1?custom:stock\\;confidence:30' },
+    js: { 'AcmeConfig.version': '' },
+    scriptSrc: '(unclosed',
+    implies: 'Acme Runtime\\;confidence:25',
+  },
+  'Acme Runtime': { cats: [22] },
+  Nginx: { cats: [22], headers: { Server: 'nginx\\;confidence:100' } },
+}));
+fs.writeFileSync(path.join(teamDir, 'categories.json'), JSON.stringify({ 99: { name: 'Customer portals' } }));
+fs.writeFileSync(path.join(teamDir, 'broken.json'), '{ "Half": ');
+fs.writeFileSync(path.join(teamDir, 'bad-schema.json'), JSON.stringify({ Thing: { cats: 'cms' } }));
+process.env.TECHNOLOGY_RULE_DIRS = `${teamDir}, ${path.join(teamDir, 'missing')}`;
+after(() => fs.rmSync(teamDir, { recursive: true, force: true }));
+
+const { detectTechnologies, extractSignals, loadTechnologyRules } = await import('./fingerprint');
+
+const byName = <T extends { name: string }>(items: T[]) => [...items].sort((a, b) => a.name.localeCompare(b.name));
+
+test('page signals are collected from headers, cookies, meta tags and scripts', () => {
+  const signals = extractSignals('https://example.test/', {
+    Server: 'nginx',
+    'set-cookie': ['PHPSESSID=abc123; Path=/; HttpOnly', 'consent'],
+    vary: ['Accept-Encoding', 'Cookie'],
+    'x-missing': undefined,
+  }, [
+    '<meta name="Generator" content="WordPress 6.4.2">',
+    "<meta property='og:site_name' content=Example>",
+    '<script src="/wp-includes/js/wp-embed.min.js"></script>',
+    '<script>window.dataLayer = [];</script>',
+  ].join('\n'));
+
+  assert.deepEqual(signals.headers, { server: 'nginx', 'set-cookie': 'PHPSESSID=abc123; Path=/; HttpOnly, consent', vary: 'Accept-Encoding, Cookie' });
+  assert.deepEqual(signals.cookies, { phpsessid: 'abc123', consent: '' });
+  assert.deepEqual(signals.meta, { generator: ['WordPress 6.4.2'], 'og:site_name': ['Example'] });
+  assert.deepEqual(signals.scriptSrc, ['/wp-includes/js/wp-embed.min.js']);
+  assert.equal(signals.scripts, 'window.dataLayer = [];\n');
+});
+
+test('bundled rules combine evidence, extract versions and follow implies', async t => {
+  // The team directory's broken files are reported on every load; the next test checks those messages
+  t.mock.method(console, 'warn', () => undefined);
+  t.mock.method(console, 'error', () => undefined);
+  const rules = await loadTechnologyRules();
+  const signals = extractSignals('https://example.test/', { server: 'Apache/2.4.58' }, [
+    '<meta name="generator" content="WordPress 6.4.2">',
+    '<script src="/wp-content/themes/site/app.js"></script>',
+    '<script src="/wp-includes/js/wp-embed.min.js"></script>',
+  ].join('\n'));
+
+  assert.deepEqual(byName(detectTechnologies(rules, signals)), [
+    { name: 'Apache', version: '2.4.58', category: 'web_server', confidence: 80 },
+    { name: 'PHP', version: undefined, category: 'framework', confidence: 97 }, // implied by WordPress
+    { name: 'WordPress', version: '6.4.2', category: 'cms', confidence: 97 }, // 1 - 0.2 × 0.4 × 0.4
+  ]);
+});
+
+test('comments and stylesheet links are matched through the html rules', async t => {
+  t.mock.method(console, 'warn', () => undefined);
+  t.mock.method(console, 'error', () => undefined);
+  const rules = await loadTechnologyRules();
+  const detect = (body: string) => detectTechnologies(rules, extractSignals('https://example.test/', {}, body))
+    .map(({ name, version }) => ({ name, version }));
+
+  assert.deepEqual(detect('<html><!-- This is Squarespace. --><body></body></html>'), [{ name: 'Squarespace', version: undefined }]);
+  assert.deepEqual(detect('<!-- Google Tag Manager (noscript) --><noscript></noscript>'), [{ name: 'Google Tag Manager', version: undefined }]);
+  assert.deepEqual(detect('<link rel="stylesheet" href="https://cdn.jsdelivr.net/npm/bootstrap@5.3.2/dist/css/bootstrap.min.css">'),
+    [{ name: 'Bootstrap', version: '5.3.2' }]);
+});
+
+test('team rule directories override bundled rules, add categories and skip broken files', async t => {
+  const warnings: string[] = [];
+  t.mock.method(console, 'warn', (message: string) => { warnings.push(message); });
+  t.mock.method(console, 'error', (message: string) => { warnings.push(message); });
+
+  const rules = await loadTechnologyRules();
+  const signals = extractSignals('https://portal.example.test/', { server: 'nginx/1.25.3', 'x-acme': '' },
+    '<div id="acme-root"></div><script>window.AcmeConfig.version = "3";</script>');
+
+  assert.deepEqual(byName(detectTechnologies(rules, signals)), [
+    { name: 'Acme Portal', version: 'stock', category: 'customer_portals', confidence: 79 }, // 1 - 0.7 × 0.6 × 0.5
+    { name: 'Acme Runtime', version: undefined, category: 'web_server', confidence: 20 },
+    { name: 'Nginx', version: undefined, category: 'web_server', confidence: 100 },
+  ]);
+  assert.ok(!rules.technologies.has('Thing'));
+  assert.ok(rules.technologies.has('WordPress'));
+
+  assert.equal(warnings.length, 4);
+  assert.ok(warnings.some(message => message.includes('skipping invalid scriptSrc pattern for Acme Portal')));
+  assert.ok(warnings.some(message => message.startsWith(`Skipping technology rule file ${path.join(teamDir, 'broken.json')}`)));
+  assert.ok(warnings.some(message => message.startsWith(`Skipping technology rule file ${path.join(teamDir, 'bad-schema.json')}`)));
+  assert.ok(warnings.some(message => message.includes(`${path.join(teamDir, 'missing')} could not be read`)));
+});
@@ -0,0 +1,333 @@
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import type { DetectedTechnology } from './reconnaissance';
+
+// Technology detection from a fetched page, driven by rule files in the Wappalyzer format. Every *.json file in a
+// rule directory maps technology names to their patterns; categories.json maps category ids to names. Patterns are
+// case-insensitive regular expressions with optional "\;version:\1" and "\;confidence:50" tags. The format has no
+// keys for HTML comments or stylesheet links, so rules for those match the raw markup through "html", e.g.
+// "<link[^>]+href=[\"'][^\"']*bootstrap[^\"']*\\.css".
+
+const BUNDLED_RULE_DIR = path.resolve(process.cwd(), 'server', 'data', 'technologies');
+
+// Team rule directories, comma-separated. They load after the bundled rules, so a technology defined again there
+// replaces the bundled definition.
+const EXTRA_RULE_DIRS = (process.env.TECHNOLOGY_RULE_DIRS || '').split(',').map(dir => dir.trim()).filter(Boolean);
+
+export type SignalKind = 'headers' | 'cookies' | 'meta' | 'html' | 'scriptSrc' | 'scripts' | 'url' | 'js';
+
+export interface PageSignals {
+  url: string;
+  headers: { [name: string]: string }; // lower-cased names; repeated headers joined with ", "
+  cookies: { [name: string]: string }; // lower-cased names from Set-Cookie to their values
+  meta: { [name: string]: string[] }; // lower-cased meta name (or property) to every content value
+  html: string; // the whole body, including comments and <link> tags, which have no signal of their own
+  scriptSrc: string[];
+  scripts: string; // bodies of script tags without src, concatenated
+}
+
+// The weight of a pattern without a confidence tag, in percent. Wappalyzer treats every untagged pattern as proof;
+// here a generator tag or Server header is close to it, while a cookie name or a fragment of markup can be copied
+// or left over from another stack.
+const DEFAULT_WEIGHTS: { [kind in SignalKind]: number } = {
+  headers: 80,
+  meta: 80,
+  cookies: 60,
+  scriptSrc: 60,
+  url: 60,
+  js: 50,
+  scripts: 50,
+  html: 40,
+};
+
+// Wappalyzer category ids to the groups the technology view uses
+const CATEGORY_GROUPS: { [id: number]: string } = {
+  1: 'cms',
+  6: 'ecommerce',
+  10: 'analytics',
+  11: 'cms',
+  12: 'javascript',
+  18: 'framework',
+  22: 'web_server',
+  23: 'cdn',
+  27: 'framework',
+  31: 'cdn',
+  42: 'analytics',
+  57: 'cms',
+  59: 'javascript',
+  66: 'javascript',
+};
+
+const patternsSchema = z.union([z.string(), z.array(z.string())]);
+
+// Fields this engine doesn't evaluate (dom, css, excludes, requires, website, icon, ...) are accepted and ignored
+const technologySchema = z.object({
+  cats: z.array(z.number().int()).default([]),
+  headers: z.record(z.string()).optional(),
+  cookies: z.record(z.string()).optional(),
+  meta: z.record(patternsSchema).optional(),
+  html: patternsSchema.optional(),
+  scriptSrc: patternsSchema.optional(),
+  scripts: patternsSchema.optional(),
+  url: patternsSchema.optional(),
+  js: z.record(z.string()).optional(),
+  implies: patternsSchema.optional(),
+}).passthrough();
+
+const technologiesSchema = z.record(technologySchema);
+const categoriesSchema = z.record(z.object({ name: z.string() }).passthrough());
+
+interface RulePattern {
+  regex: RegExp;
+  version?: string; // template with \1-style group references
+  confidence?: number;
+}
+
+interface RuleMatcher {
+  kind: SignalKind;
+  key?: string; // header, cookie or meta name; js property path
+  pattern: RulePattern;
+}
+
+interface TechnologyRule {
+  name: string;
+  category: string;
+  matchers: RuleMatcher[];
+  implies: { name: string; confidence?: number }[];
+}
+
+export interface TechnologyRules {
+  technologies: Map<string, TechnologyRule>;
+}
+
+// Splits "value\;version:\1\;confidence:50" into the value and its tags
+function parseTags(source: string): { value: string; version?: string; confidence?: number } {
+  const [value, ...tags] = source.split('\\;');
+  const parsed: { value: string; version?: string; confidence?: number } = { value };
+
+  tags.forEach(tag => {
+    const separator = tag.indexOf(':');
+    const tagValue = tag.slice(separator + 1);
+    switch (tag.slice(0, separator)) {
+      case 'version': parsed.version = tagValue; break;
+      case 'confidence': parsed.confidence = parseInt(tagValue); break;
+    }
+  });
+
+  return parsed;
+}
+
+function parsePattern(source: string): RulePattern {
+  const { value, version, confidence } = parseTags(source);
+  return { regex: new RegExp(value, 'i'), version, confidence };
+}
+
+// Resolves "\1" references and Wappalyzer's "\1?if-set:if-unset" ternaries against a match
+function resolveVersion(template: string, match: RegExpMatchArray): string | undefined {
+  const version = template
+    .replace(/\\(\d)\?([^:]*):(.*)$/, (_, group, ifSet, ifUnset) => match[parseInt(group)] ? ifSet : ifUnset)
+    .replace(/\\(\d)/g, (_, group) => match[parseInt(group)] || '')
+    .trim();
+  return version || undefined;
+}
+
+function compileTechnology(
+  name: string,
+  definition: z.infer<typeof technologySchema>,
+  categories: Map<number, string>,
+  source: string
+): TechnologyRule {
+  const matchers: RuleMatcher[] = [];
+  const add = (kind: SignalKind, patterns: string | string[] | undefined, key?: string) => {
+    (Array.isArray(patterns) ? patterns : patterns !== undefined ? [patterns] : []).forEach(pattern => {
+      try {
+        // Only the presence of a js property can be seen (see signalValues), so its value pattern is dropped
+        const parsed = parsePattern(pattern);
+        matchers.push({ kind, key, pattern: kind === 'js' ? { regex: /(?:)/, confidence: parsed.confidence } : parsed });
+      } catch (error) {
+        console.warn(`${source}: skipping invalid ${kind} pattern for ${name}: ${(error as Error).message}`);
+      }
+    });
+  };
+
+  Object.entries(definition.headers || {}).forEach(([header, pattern]) => add('headers', pattern, header.toLowerCase()));
+  Object.entries(definition.cookies || {}).forEach(([cookie, pattern]) => add('cookies', pattern, cookie.toLowerCase()));
+  Object.entries(definition.meta || {}).forEach(([meta, patterns]) => add('meta', patterns, meta.toLowerCase()));
+  Object.entries(definition.js || {}).forEach(([property, pattern]) => add('js', pattern, property));
+  add('html', definition.html);
+  add('scriptSrc', definition.scriptSrc);
+  add('scripts', definition.scripts);
+  add('url', definition.url);
+
+  const implies = (Array.isArray(definition.implies) ? definition.implies : definition.implies ? [definition.implies] : [])
+    .map(implied => {
+      const { value, confidence } = parseTags(implied);
+      return { name: value, confidence };
+    });
+
+  // The first category decides the group, as it is the one Wappalyzer lists the technology under. Categories
+  // without a group keep their own name ("Web server extensions" becomes web_server_extensions).
+  const categoryName = categories.get(definition.cats[0]);
+  const category = CATEGORY_GROUPS[definition.cats[0]]
+    || (categoryName ? categoryName.toLowerCase().replace(/[^a-z0-9]+/g, '_') : 'other');
+
+  return { name, category, matchers, implies };
+}
+
+async function readRuleDirectory(
+  dir: string,
+  definitions: Map<string, { definition: z.infer<typeof technologySchema>; source: string }>,
+  categories: Map<number, string>
+): Promise<void> {
+  let files: string[];
+  try {
+    files = (await fs.promises.readdir(dir)).filter(file => file.endsWith('.json')).sort();
+  } catch (error) {
+    console.warn(`Technology rule directory ${dir} could not be read: ${(error as Error).message}`);
+    return;
+  }
+
+  for (const file of files) {
+    const source = path.join(dir, file);
+    // One broken team file shouldn't stop fingerprinting with the others
+    try {
+      const content = JSON.parse(await fs.promises.readFile(source, 'utf-8'));
+      if (file === 'categories.json') {
+        Object.entries(categoriesSchema.parse(content)).forEach(([id, category]) => categories.set(parseInt(id), category.name));
+        continue;
+      }
+      // Older single-file exports wrap everything in { technologies, categories }
+      const technologies = content.technologies && typeof content.technologies === 'object' ? content.technologies : content;
+      if (content.categories && typeof content.categories === 'object') {
+        Object.entries(categoriesSchema.parse(content.categories)).forEach(([id, category]) => categories.set(parseInt(id), category.name));
+      }
+      Object.entries(technologiesSchema.parse(technologies)).forEach(([name, definition]) => definitions.set(name, { definition, source }));
+    } catch (error) {
+      console.error(`Skipping technology rule file ${source}: ${(error as Error).message}`);
+    }
+  }
+}
+
+// Read once per scan (the reconnaissance service is per scan), so edited or added rule files apply without a restart
+export async function loadTechnologyRules(): Promise<TechnologyRules> {
+  const definitions = new Map<string, { definition: z.infer<typeof technologySchema>; source: string }>();
+  const categories = new Map<number, string>();
+
+  for (const dir of [BUNDLED_RULE_DIR, ...EXTRA_RULE_DIRS]) {
+    await readRuleDirectory(dir, definitions, categories);
+  }
+
+  const technologies = new Map<string, TechnologyRule>();
+  definitions.forEach(({ definition, source }, name) => {
+    technologies.set(name, compileTechnology(name, definition, categories, source));
+  });
+  return { technologies };
+}
+
+export function extractSignals(url: string, headers: { [name: string]: string | string[] | undefined }, body: string): PageSignals {
+  const signals: PageSignals = { url, headers: {}, cookies: {}, meta: {}, html: body, scriptSrc: [], scripts: '' };
+
+  Object.keys(headers).forEach(name => {
+    const value = headers[name];
+    if (value === undefined) return;
+    signals.headers[name.toLowerCase()] = Array.isArray(value) ? value.join(', ') : value;
+  });
+
+  const setCookie = headers['set-cookie'];
+  (Array.isArray(setCookie) ? setCookie : setCookie ? [setCookie] : []).forEach(cookie => {
+    const pair = cookie.split(';')[0];
+    const separator = pair.indexOf('=');
+    const name = (separator === -1 ? pair : pair.slice(0, separator)).trim().toLowerCase();
+    if (name) signals.cookies[name] = separator === -1 ? '' : pair.slice(separator + 1).trim();
+  });
+
+  const attribute = (tag: string, name: string) =>
+    tag.match(new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i'))?.slice(1).find(value => value !== undefined);
+
+  (body.match(/<meta\b[^>]*>/gi) || []).forEach(tag => {
+    const name = (attribute(tag, 'name') || attribute(tag, 'property'))?.toLowerCase();
+    const content = attribute(tag, 'content');
+    if (!name || content === undefined) return;
+    (signals.meta[name] = signals.meta[name] || []).push(content);
+  });
+
+  (body.match(/<script\b[^>]*>[\s\S]*?<\/script>/gi) || []).forEach(script => {
+    const openTag = script.slice(0, script.indexOf('>') + 1);
+    const src = attribute(openTag, 'src');
+    if (src) {
+      signals.scriptSrc.push(src);
+    } else {
+      signals.scripts += script.slice(openTag.length, -'</script>'.length) + '\n';
+    }
+  });
+
+  return signals;
+}
+
+// The values a matcher is tested against. JavaScript globals can't be evaluated without a browser, so a js property
+// counts when an inline script refers to it.
+function signalValues(signals: PageSignals, matcher: RuleMatcher): string[] {
+  switch (matcher.kind) {
+    case 'headers': return signals.headers[matcher.key!] !== undefined ? [signals.headers[matcher.key!]] : [];
+    case 'cookies': return signals.cookies[matcher.key!] !== undefined ? [signals.cookies[matcher.key!]] : [];
+    case 'meta': return signals.meta[matcher.key!] || [];
+    case 'html': return [signals.html];
+    case 'scriptSrc': return signals.scriptSrc;
+    case 'scripts': return [signals.scripts];
+    case 'url': return [signals.url];
+    case 'js': {
+      const property = matcher.key!.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      return new RegExp(`(?:^|[^\\w$.]|window\\.)${property}\\b`).test(signals.scripts) ? [''] : [];
+    }
+  }
+}
+
+// Each matching pattern adds its weight to what the others left uncertain (1 - Π(1 - w)), so one script path gives
+// 60%, two give 84%, and a generator tag plus a script path gives 92%. Implied technologies (PHP under WordPress)
+// inherit the confidence of whatever implied them, scaled by the implies tag when there is one.
+export function detectTechnologies(rules: TechnologyRules, signals: PageSignals): DetectedTechnology[] {
+  const found = new Map<string, { uncertainty: number; version?: string }>();
+  const addEvidence = (name: string, confidence: number, version?: string) => {
+    const entry = found.get(name) || { uncertainty: 1 };
+    entry.uncertainty *= 1 - Math.min(confidence, 100) / 100;
+    entry.version = entry.version || version;
+    found.set(name, entry);
+  };
+
+  rules.technologies.forEach(rule => {
+    rule.matchers.forEach(matcher => {
+      // A pattern counts once however many values it matches; any of them may carry the version
+      const matches = signalValues(signals, matcher)
+        .map(value => value.match(matcher.pattern.regex))
+        .filter((match): match is RegExpMatchArray => !!match);
+      if (matches.length === 0) return;
+
+      const version = matcher.pattern.version
+        ? matches.map(match => resolveVersion(matcher.pattern.version!, match)).find(version => !!version)
+        : undefined;
+      addEvidence(rule.name, matcher.pattern.confidence ?? DEFAULT_WEIGHTS[matcher.kind], version);
+    });
+  });
+
+  const pending = Array.from(found.keys());
+  const implied = new Set<string>();
+  while (pending.length > 0) {
+    const name = pending.shift()!;
+    const confidence = 100 * (1 - found.get(name)!.uncertainty);
+    rules.technologies.get(name)?.implies.forEach(implication => {
+      const key = `${name}>${implication.name}`;
+      if (implied.has(key) || !rules.technologies.has(implication.name)) return;
+      implied.add(key);
+      addEvidence(implication.name, confidence * (implication.confidence ?? 100) / 100);
+      pending.push(implication.name);
+    });
+  }
+
+  return Array.from(found.entries()).map(([name, { uncertainty, version }]) => ({
+    name,
+    version,
+    category: rules.technologies.get(name)!.category,
+    confidence: Math.round(100 * (1 - uncertainty)),
+  }));
+}
@@ -0,0 +1,222 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import net from 'net';
+import { ResolverPool } from './resolver-pool';
+import { SubdomainRegistry } from './subdomains';
+import { scanOptionsSchema } from '@shared/schema';
+import {
+  analyzeRedirectChain, discoverHttpEndpoints, pinnedLookup, profileHost, profileSubdomains, requestRootPage, type HttpProbeContext,
+} from './http-probes';
+import type { DiscoveredSubdomain } from './reconnaissance';
+import { startUdpStandIn } from './test-support/dns-stand-in';
+import { startWebStandIn, type WebStandInResponse } from './test-support/web-stand-in';
+
+// Every page is "fingerprinted" as Stub so tests can see which URLs reached the fingerprinter
+function stubProbe(resolver: ResolverPool, ports: HttpProbeContext['ports'], fingerprinted: string[] = []): HttpProbeContext {
+  return {
+    lookup: resolver.lookup,
+    ports,
+    fingerprint: async (url) => {
+      fingerprinted.push(url);
+      return [{ name: 'Stub', category: 'other', confidence: 50 }];
+    },
+  };
+}
+
+test('profileHost tells dead, resolving and live hosts apart and reads the title of the page that answered', async () => {
+  const addresses: { [name: string]: string } = { 'live.example.test': '127.0.0.1', 'quiet.example.test': '127.0.0.2' };
+  const dns = await startUdpStandIn(({ name, type }) => type === 'A' && addresses[name]
+    ? { answers: [{ name, type: 'A', data: addresses[name] }] }
+    : { rcode: addresses[name] ? 0 : 3 });
+  const secure = await startWebStandIn(() => ({ body: '<html><head><title>\n  Live &amp; Well </title></head></html>' }), { tls: true });
+  const plain = await startWebStandIn(() => ({ status: 403, body: '<title>Forbidden</title>' }));
+  const resolver = new ResolverPool({ servers: [`127.0.0.1:${dns.port}`], timeout: 1000 });
+  const fingerprinted: string[] = [];
+  const probe = stubProbe(resolver, { https: secure.port, http: plain.port }, fingerprinted);
+
+  try {
+    assert.deepEqual(await profileHost(resolver, 'gone.example.test', probe), { status: 'dead', ipv4: [], ipv6: [] });
+    // Resolves, but nothing listens on 127.0.0.2
+    assert.deepEqual(await profileHost(resolver, 'quiet.example.test', probe), { status: 'resolving', ipv4: ['127.0.0.2'], ipv6: [] });
+
+    assert.deepEqual(await profileHost(resolver, 'live.example.test', probe), {
+      status: 'http_live',
+      ipv4: ['127.0.0.1'],
+      ipv6: [],
+      http: {
+        url: `https://live.example.test:${secure.port}/`,
+        statusCode: 200,
+        title: 'Live & Well',
+        technologies: [{ name: 'Stub', category: 'other', confidence: 50 }],
+      },
+    });
+    assert.deepEqual(secure.requests, [{ host: `live.example.test:${secure.port}`, path: '/' }]);
+
+    // Without HTTPS the plain-HTTP page is the one profiled, whatever its status
+    const httpOnly = stubProbe(resolver, { https: plain.port, http: plain.port }, fingerprinted);
+    const profile = await profileHost(resolver, 'live.example.test', httpOnly);
+    assert.equal(profile.status, 'http_live');
+    assert.equal(profile.http?.url, `http://live.example.test:${plain.port}/`);
+    assert.equal(profile.http?.statusCode, 403);
+    assert.equal(profile.http?.title, 'Forbidden');
+    assert.deepEqual(fingerprinted, [`https://live.example.test:${secure.port}/`, `http://live.example.test:${plain.port}/`]);
+  } finally {
+    await Promise.all([dns.close(), secure.close(), plain.close()]);
+  }
+});
+
+test('profileSubdomains profiles every name except wildcard matches and reports each one', async () => {
+  const dns = await startUdpStandIn(() => ({ rcode: 3 }));
+  const resolver = new ResolverPool({ servers: [`127.0.0.1:${dns.port}`], timeout: 1000 });
+  const registry = new SubdomainRegistry({});
+  await registry.add({ name: 'a.example.test', addresses: ['192.0.2.1'], source: 'bruteforce' });
+  await registry.add({ name: 'b.example.test', addresses: ['192.0.2.99'], source: 'bruteforce', wildcard: true });
+  const profiled: DiscoveredSubdomain[] = [];
+  const progress: number[] = [];
+
+  try {
+    await profileSubdomains(resolver, registry, 4, stubProbe(resolver, { https: 443, http: 80 }), {
+      onSubdomainProfiled: subdomain => { profiled.push(subdomain); },
+      onProgress: (_stage, completed) => progress.push(completed),
+    });
+
+    assert.deepEqual(profiled.map(subdomain => [subdomain.name, subdomain.profile?.status]), [['a.example.test', 'dead']]);
+    assert.equal(registry.values()[1].profile, undefined);
+    assert.deepEqual(progress, [1]);
+  } finally {
+    await dns.close();
+  }
+});
+
+test('discoverHttpEndpoints requests HTTP on open ports not identified as another service, pinned to their address', async () => {
+  const plain = await startWebStandIn(() => ({ headers: { server: 'plain' }, body: '<title>Plain</title>' }));
+  const secure = await startWebStandIn(() => ({ status: 401, headers: { server: 'secure' } }), { tls: true });
+  // An SSH daemon and a silent service: neither answers HTTP, and the SSH port must not even be connected to
+  let sshConnections = 0;
+  const ssh = net.createServer(socket => { sshConnections++; socket.end('SSH-2.0-OpenSSH_9.6\r\n'); });
+  const silent = net.createServer(socket => socket.destroy());
+  await Promise.all([ssh, silent].map(server => new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))));
+  const portOf = (server: net.Server) => (server.address() as net.AddressInfo).port;
+  const [sshPort, silentPort] = [portOf(ssh), portOf(silent)];
+
+  const fingerprinted: string[] = [];
+  const probe: HttpProbeContext = {
+    // Every request goes to the address the port was found on, so the name is never looked up
+    lookup: (hostname, _options, callback) => callback(new Error(`unexpected lookup of ${hostname}`), '', 4),
+    ports: { https: 443, http: 80 },
+    fingerprint: async (url) => {
+      fingerprinted.push(url);
+      return [];
+    },
+  };
+  const openPorts = [plain.port, secure.port, sshPort, silentPort].sort((a, b) => a - b);
+  const progress: number[] = [];
+
+  try {
+    const endpoints = await discoverHttpEndpoints('app.example.test', {
+      families: [{ family: 'ipv4', address: '127.0.0.1', openPorts }],
+      openPorts,
+      services: [
+        { port: secure.port, protocol: 'tcp', service: 'http', tls: true, method: 'probe' },
+        { port: sshPort, protocol: 'tcp', service: 'ssh', method: 'banner' },
+      ],
+    }, probe, { onProgress: (_stage, completed) => progress.push(completed) });
+
+    assert.deepEqual(endpoints.map(({ url, host, ip, port, scheme, statusCode, title, headers }) =>
+      ({ url, host, ip, port, scheme, statusCode, title, server: headers.server })), [
+      { url: `http://app.example.test:${plain.port}/`, host: 'app.example.test', ip: '127.0.0.1', port: plain.port, scheme: 'http',
+        statusCode: 200, title: 'Plain', server: 'plain' },
+      { url: `https://app.example.test:${secure.port}/`, host: 'app.example.test', ip: '127.0.0.1', port: secure.port, scheme: 'https',
+        statusCode: 401, title: undefined, server: 'secure' },
+    ].sort((a, b) => a.port - b.port));
+    assert.deepEqual(fingerprinted.sort(), endpoints.map(endpoint => endpoint.url).sort());
+    // One request each: the HTTPS attempt on the unidentified plain port fails before reaching the handler
+    assert.deepEqual(plain.requests, [{ host: `app.example.test:${plain.port}`, path: '/' }]);
+    assert.deepEqual(secure.requests, [{ host: `app.example.test:${secure.port}`, path: '/' }]);
+    assert.equal(sshConnections, 0);
+    assert.deepEqual(progress, [1, 2, 3]);
+  } finally {
+    await Promise.all([plain.close(), secure.close(), ...[ssh, silent].map(server => new Promise(resolve => server.close(resolve)))]);
+  }
+});
+
+test('requestRootPage follows redirects across schemes and hosts and fingerprints the final page', async () => {
+  let plainPort = 0;
+  // HTTPS root -> plain HTTP on the same host -> a partner's sign-in page
+  const secure = await startWebStandIn(() => ({ status: 301, headers: { location: `http://www.example.test:${plainPort}/home` } }), { tls: true });
+  const plain = await startWebStandIn(({ host }): WebStandInResponse => host.startsWith('www.')
+    ? { status: 302, headers: { location: `http://login.partner.test:${plainPort}/sso`, 'set-cookie': 'session=1' } }
+    : { headers: { server: 'idp' }, body: '<title>Sign in</title>' });
+  plainPort = plain.port;
+
+  const lookedUp: string[] = [];
+  const fingerprinted: string[] = [];
+  const probe: HttpProbeContext = {
+    // Only hops that leave the target's host are looked up; the rest stay on the pinned address
+    lookup: (hostname, options, callback) => {
+      lookedUp.push(hostname);
+      pinnedLookup('127.0.0.1')(hostname, options, callback);
+    },
+    ports: { https: secure.port, http: plain.port },
+    fingerprint: async (url) => {
+      fingerprinted.push(url);
+      return [{ name: 'Stub', category: 'other', confidence: 50 }];
+    },
+  };
+  const rootUrl = `https://www.example.test:${secure.port}/`;
+  const homeUrl = `http://www.example.test:${plain.port}/home`;
+  const ssoUrl = `http://login.partner.test:${plain.port}/sso`;
+
+  try {
+    const root = await requestRootPage('www.example.test', '127.0.0.1', scanOptionsSchema.parse({}).web, probe);
+
+    assert.deepEqual(root.redirectChain.map(({ url, statusCode, location }) => ({ url, statusCode, location })), [
+      { url: rootUrl, statusCode: 301, location: homeUrl },
+      { url: homeUrl, statusCode: 302, location: ssoUrl },
+      { url: ssoUrl, statusCode: 200, location: undefined },
+    ]);
+    // Each hop keeps its own response headers
+    assert.deepEqual(root.redirectChain[1].headers['set-cookie'], ['session=1']);
+    assert.equal(root.redirectChain[2].headers.server, 'idp');
+    // The final page is the one reported and fingerprinted; the certificate is the target's own
+    assert.equal(root.statusCode, 200);
+    assert.equal(root.headers.server, 'idp');
+    assert.deepEqual(root.technologies, [{ name: 'Stub', category: 'other', confidence: 50 }]);
+    assert.deepEqual(fingerprinted, [ssoUrl]);
+    assert.equal(root.certificate?.subject.CN, 'www.example.test');
+    assert.deepEqual(lookedUp, ['login.partner.test']);
+
+    assert.deepEqual(analyzeRedirectChain('www.example.test', root.redirectChain).map(finding => [finding.type, finding.evidence]), [
+      ['HTTPS to HTTP Redirect', { from: rootUrl, to: homeUrl, statusCode: 301, location: homeUrl }],
+      ['Cross-Domain Redirect', { from: homeUrl, to: ssoUrl, statusCode: 302, location: ssoUrl }],
+    ]);
+
+    // With one redirect allowed, the chain stops at the second response, which is then the page fingerprinted
+    fingerprinted.length = 0;
+    const limited = await requestRootPage('www.example.test', '127.0.0.1', scanOptionsSchema.parse({ web: { maxRedirects: 1 } }).web, probe);
+    assert.deepEqual(limited.redirectChain.map(hop => hop.url), [rootUrl, homeUrl]);
+    assert.equal(limited.statusCode, 302);
+    assert.deepEqual(fingerprinted, [homeUrl]);
+    assert.equal(plain.requests.filter(request => request.path === '/sso').length, 1);
+  } finally {
+    await Promise.all([secure.close(), plain.close()]);
+  }
+});
+
+test('analyzeRedirectChain leaves redirects within the domain and from bare addresses alone', () => {
+  const chain = (...urls: string[]) => urls.map((url, index) => ({
+    url, statusCode: index < urls.length - 1 ? 301 : 200, location: urls[index + 1], headers: {},
+  }));
+
+  // Subdomains and the parent domain count as the same site
+  assert.deepEqual(analyzeRedirectChain('www.example.test',
+    chain('https://www.example.test/', 'https://example.test/', 'https://shop.example.test/cart')), []);
+  // Addresses redirecting to their name are expected; the downgrade is still reported
+  assert.deepEqual(analyzeRedirectChain('192.0.2.10',
+    chain('https://192.0.2.10/', 'http://www.example.test/')).map(finding => finding.type), ['HTTPS to HTTP Redirect']);
+  // Only the hop leaving the domain is reported, not later hops elsewhere
+  assert.deepEqual(analyzeRedirectChain('example.test',
+    chain('https://example.test/', 'https://cdn.other.test/', 'https://www.other.test/')).map(finding => finding.evidence), [
+    { from: 'https://example.test/', to: 'https://cdn.other.test/', statusCode: 301, location: 'https://cdn.other.test/' },
+  ]);
+});
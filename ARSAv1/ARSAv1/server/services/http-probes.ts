@@ -0,0 +1,360 @@
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import tls from 'tls';
+import type { ScanOptions } from '@shared/schema';
+import { mapWithConcurrency } from './concurrency';
+import { getDNSRecord, resolveAddressFamilies } from './dns-records';
+import type { ResolverPool } from './resolver-pool';
+import type { ServiceInfo } from './service-probes';
+import type { SubdomainRegistry } from './subdomains';
+import type {
+  AddressFamilyResult, DetectedTechnology, DiscoveredEndpoint, RedirectHop, ReconFinding, ReconHooks, SubdomainProfile,
+} from './reconnaissance';
+
+// Web requests made by a scan: subdomain profiling, the endpoint sweep over open ports, and the target's root page
+// with its redirect chain
+
+export const REDIRECT_STATUSES = [301, 302, 303, 307, 308];
+
+// What the web stages need from the scan they run in
+export interface HttpProbeContext {
+  lookup: net.LookupFunction; // for hosts that aren't pinned to an address
+  ports: { http: number; https: number }; // where a host's web root is requested; tests point these at local servers
+  fingerprint(url: string, page: FetchedPage): Promise<DetectedTechnology[]>;
+}
+
+export interface FetchedPage {
+  statusCode: number;
+  headers: { [key: string]: string };
+  body: string;
+  certificate?: tls.PeerCertificate; // HTTPS only
+}
+
+// Answers every hostname with one address, so a request keeps its Host header and SNI but goes to a chosen family
+export function pinnedLookup(address: string): net.LookupFunction {
+  const family = net.isIPv6(address) ? 6 : 4;
+  return (hostname, options, callback) => options.all ? callback(null, [{ address, family }]) : callback(null, address, family);
+}
+
+// Single GET without following redirects; the body is capped so large pages don't stall a probe. `address` pins
+// the connection to one resolved address while the URL's host still goes out as Host and SNI.
+export function fetchPage(
+  url: string,
+  options: { lookup: net.LookupFunction; address?: string; timeout?: number; maxBodyBytes?: number }
+): Promise<FetchedPage> {
+  const { timeout = 5000, maxBodyBytes = 65536 } = options;
+
+  return new Promise((resolve, reject) => {
+    const client = url.startsWith('https:') ? https : http;
+    const lookup = options.address ? pinnedLookup(options.address) : options.lookup;
+    const req = client.get(url, { timeout, rejectUnauthorized: false, lookup }, (res) => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+      const certificate = (res.socket as tls.TLSSocket).getPeerCertificate?.();
+
+      const done = () => resolve({
+        statusCode: res.statusCode || 0,
+        headers: res.headers as { [key: string]: string },
+        body: Buffer.concat(chunks).toString('utf-8'),
+        certificate: certificate && Object.keys(certificate).length > 0 ? certificate : undefined,
+      });
+
+      res.on('data', (chunk: Buffer) => {
+        chunks.push(chunk);
+        size += chunk.length;
+        if (size >= maxBodyBytes) {
+          res.destroy();
+          done();
+        }
+      });
+      res.on('end', done);
+      res.on('error', reject);
+    });
+
+    req.on('timeout', () => req.destroy(new Error('Request timed out')));
+    req.on('error', reject);
+  });
+}
+
+export function extractTitle(body: string): string | undefined {
+  const match = body.match(/<title[^>]*>([^<]*)<\/title>/i);
+  if (!match) return undefined;
+
+  const title = match[1]
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/\s+/g, ' ')
+    .trim();
+  return title ? title.slice(0, 200) : undefined;
+}
+
+// Root URL of a host on the context's port for the scheme, leaving the port out when it is the default
+function rootUrl(scheme: 'http' | 'https', host: string, probe: HttpProbeContext): string {
+  const urlHost = net.isIPv6(host) ? `[${host}]` : host;
+  const port = probe.ports[scheme];
+  return `${scheme}://${urlHost}${port === (scheme === 'https' ? 443 : 80) ? '' : `:${port}`}/`;
+}
+
+// HTTPS first, then HTTP; undefined when neither answers
+export async function fetchRootPage(
+  host: string,
+  probe: HttpProbeContext
+): Promise<{ url: string; page: FetchedPage } | undefined> {
+  for (const url of [rootUrl('https', host, probe), rootUrl('http', host, probe)]) {
+    try {
+      return { url, page: await fetchPage(url, { lookup: probe.lookup }) };
+    } catch (error) {
+      // Try the next scheme
+    }
+  }
+  return undefined;
+}
+
+export async function profileSubdomains(
+  resolver: ResolverPool,
+  registry: SubdomainRegistry,
+  concurrency: number,
+  probe: HttpProbeContext,
+  hooks: ReconHooks
+): Promise<void> {
+  const subdomains = registry.values().filter(subdomain => !subdomain.wildcard);
+  let completed = 0;
+
+  await mapWithConcurrency(subdomains, concurrency, async (subdomain) => {
+    subdomain.profile = await profileHost(resolver, subdomain.name, probe);
+    await hooks.onSubdomainProfiled?.(subdomain);
+
+    completed++;
+    hooks.onProgress?.('fingerprinting', completed, subdomains.length);
+  });
+}
+
+// Resolves both address families, then tries HTTPS before HTTP
+export async function profileHost(resolver: ResolverPool, hostname: string, probe: HttpProbeContext): Promise<SubdomainProfile> {
+  const [ipv4, ipv6] = await Promise.all([
+    getDNSRecord(resolver, hostname, 'A').catch(() => [] as string[]),
+    getDNSRecord(resolver, hostname, 'AAAA').catch(() => [] as string[]),
+  ]);
+
+  if (ipv4.length === 0 && ipv6.length === 0) {
+    return { status: 'dead', ipv4, ipv6 };
+  }
+
+  const root = await fetchRootPage(hostname, probe);
+  if (!root) {
+    return { status: 'resolving', ipv4, ipv6 };
+  }
+
+  return {
+    status: 'http_live',
+    ipv4,
+    ipv6,
+    http: {
+      url: root.url,
+      statusCode: root.page.statusCode,
+      title: extractTitle(root.page.body),
+      technologies: await probe.fingerprint(root.url, root.page),
+    },
+  };
+}
+
+// Every open port that answers HTTP or HTTPS becomes an endpoint with its own headers, title and technologies
+export async function discoverHttpEndpoints(
+  target: string,
+  scan: { families: AddressFamilyResult[]; openPorts: number[]; services: ServiceInfo[] },
+  probe: HttpProbeContext,
+  hooks: ReconHooks
+): Promise<DiscoveredEndpoint[]> {
+  // Ports identified as something else (SSH, SMTP, ...) aren't worth an HTTP request
+  const candidates = scan.openPorts.map(port => ({ port, service: scan.services.find(service => service.port === port) }))
+    .filter(({ service }) => !service || service.service === 'http' || service.service === 'unknown');
+  const urlHost = net.isIPv6(target) ? `[${target}]` : target;
+  const endpoints: DiscoveredEndpoint[] = [];
+  let completed = 0;
+
+  await mapWithConcurrency(candidates, 20, async ({ port, service }) => {
+    const schemes: ('http' | 'https')[] = service?.service === 'http' ? [service.tls ? 'https' : 'http'] : ['https', 'http'];
+    // Requested on the address the port was found open on, so IPv6-only ports are reached over IPv6
+    const address = scan.families.find(family => family.openPorts!.includes(port))!.address;
+
+    for (const scheme of schemes) {
+      const defaultPort = scheme === 'https' ? 443 : 80;
+      const url = `${scheme}://${urlHost}${port === defaultPort ? '' : `:${port}`}/`;
+      try {
+        const page = await fetchPage(url, { lookup: probe.lookup, address });
+        endpoints.push({
+          url,
+          host: target,
+          ip: address,
+          port,
+          scheme,
+          statusCode: page.statusCode,
+          title: extractTitle(page.body),
+          headers: page.headers,
+          technologies: await probe.fingerprint(url, page),
+        });
+        break;
+      } catch (error) {
+        // Not this scheme (or not HTTP at all)
+      }
+    }
+
+    hooks.onProgress?.('http discovery', ++completed, candidates.length);
+  });
+
+  return endpoints.sort((a, b) => a.port - b.port);
+}
+
+// Root page of the target; dual-stack names are requested once per address family and compared
+export async function getWebInfo(
+  resolver: ResolverPool,
+  target: string,
+  options: ScanOptions['web'],
+  probe: HttpProbeContext
+): Promise<{
+  headers: { [key: string]: string };
+  statusCode: number;
+  technologies: DetectedTechnology[];
+  certificate?: tls.PeerCertificate;
+  redirectChain: RedirectHop[];
+  families: AddressFamilyResult[];
+  findings: ReconFinding[];
+}> {
+  const addresses = net.isIP(target) ? [target] : await resolveAddressFamilies(resolver, target);
+  const answers = await Promise.allSettled(addresses.map(address => requestRootPage(target, address, options, probe)));
+
+  const families = addresses.map((address, index): AddressFamilyResult => {
+    const answer = answers[index];
+    return {
+      family: net.isIPv6(address) ? 'ipv6' : 'ipv4',
+      address,
+      web: answer.status === 'fulfilled'
+        ? { statusCode: answer.value.statusCode, server: answer.value.headers.server }
+        : { error: (answer.reason as Error).message },
+    };
+  });
+
+  const answered = answers.find(answer => answer.status === 'fulfilled');
+  if (!answered || answered.status !== 'fulfilled') {
+    throw (answers[0] as PromiseRejectedResult).reason;
+  }
+
+  const findings = analyzeRedirectChain(target, answered.value.redirectChain);
+  const [ipv4, ipv6] = families;
+  if (ipv6 && (ipv4.web!.statusCode !== ipv6.web!.statusCode || ipv4.web!.server !== ipv6.web!.server)) {
+    const describe = (family: AddressFamilyResult) => family.web!.error
+      ? `no response (${family.web!.error})`
+      : `HTTP ${family.web!.statusCode}${family.web!.server ? ` from ${family.web!.server}` : ''}`;
+    findings.push({
+      severity: 'low',
+      type: 'IPv4/IPv6 Web Response Mismatch',
+      description: `The web root of ${target} answers differently over IPv4 (${ipv4.address}: ${describe(ipv4)}) and IPv6 (${ipv6.address}: ${describe(ipv6)}). One family may reach a different, possibly unmaintained or unprotected, server.`,
+      cvss: '3.7',
+      remediation: 'Serve both address families from the same, equally protected frontend, or remove the AAAA (or A) record that points elsewhere.',
+      evidence: { host: target, ipv4: { address: ipv4.address, ...ipv4.web }, ipv6: { address: ipv6.address, ...ipv6.web } },
+    });
+  }
+
+  return { ...answered.value, families, findings };
+}
+
+// HTTPS, falling back to plain HTTP, pinned to one address. Redirects are followed up to `maxRedirects` so the
+// final page is fingerprinted rather than the redirect; hops to the target's own host stay on the same address.
+export async function requestRootPage(
+  target: string,
+  address: string,
+  options: ScanOptions['web'],
+  probe: HttpProbeContext
+): Promise<{
+  headers: { [key: string]: string };
+  statusCode: number;
+  technologies: DetectedTechnology[];
+  certificate?: tls.PeerCertificate;
+  redirectChain: RedirectHop[];
+}> {
+  const fetchOptions = { lookup: probe.lookup, timeout: 10000, maxBodyBytes: options.maxBodyBytes };
+  let url = rootUrl('https', target, probe);
+  let page: FetchedPage;
+  try {
+    page = await fetchPage(url, { ...fetchOptions, address });
+  } catch (error) {
+    url = rootUrl('http', target, probe);
+    page = await fetchPage(url, { ...fetchOptions, address });
+  }
+
+  const certificate = page.certificate;
+  const redirectChain: RedirectHop[] = [];
+
+  while (true) {
+    const location = REDIRECT_STATUSES.includes(page.statusCode) ? page.headers.location : undefined;
+    redirectChain.push({ url, statusCode: page.statusCode, location, headers: page.headers });
+    if (!location || redirectChain.length > options.maxRedirects) break;
+
+    let next: URL;
+    try {
+      next = new URL(location, url);
+    } catch (error) {
+      break;
+    }
+    if (!/^https?:$/.test(next.protocol) || redirectChain.some(hop => hop.url === next.href)) break;
+
+    try {
+      const sameHost = next.hostname.replace(/^\[|\]$/g, '').toLowerCase() === target.toLowerCase();
+      page = await fetchPage(next.href, { ...fetchOptions, address: sameHost ? address : undefined });
+      url = next.href;
+    } catch (error) {
+      redirectChain.push({ url: next.href, headers: {}, error: (error as Error).message });
+      break;
+    }
+  }
+
+  return {
+    headers: page.headers,
+    statusCode: page.statusCode,
+    technologies: await probe.fingerprint(url, page),
+    certificate,
+    redirectChain,
+  };
+}
+
+// HTTPS-to-HTTP hops expose the rest of the chain to interception; hops leaving the target's domain are what an
+// open redirect looks like. "In the domain" means the target without a leading www., its subdomains, or a parent.
+export function analyzeRedirectChain(target: string, chain: RedirectHop[]): ReconFinding[] {
+  const findings: ReconFinding[] = [];
+  const base = target.toLowerCase().replace(/^www\./, '');
+  const inDomain = (host: string) => host === base || host.endsWith(`.${base}`) || base.endsWith(`.${host}`);
+
+  chain.slice(1).forEach((hop, index) => {
+    const from = new URL(chain[index].url);
+    const to = new URL(hop.url);
+
+    if (from.protocol === 'https:' && to.protocol === 'http:') {
+      findings.push({
+        severity: 'medium',
+        type: 'HTTPS to HTTP Redirect',
+        description: `${from.href} redirects to ${to.href}, downgrading the connection to plain HTTP. Anyone on the network path can read or rewrite the rest of the exchange, including cookies not marked Secure.`,
+        cvss: '4.8',
+        remediation: 'Redirect only to HTTPS URLs and enable HSTS so browsers never make the plain-HTTP request.',
+        evidence: { from: from.href, to: to.href, statusCode: chain[index].statusCode, location: chain[index].location },
+      });
+    }
+
+    // Only the hop that leaves the domain is reported; bare addresses routinely redirect to their canonical name
+    if (!net.isIP(target) && inDomain(from.hostname.toLowerCase()) && !inDomain(to.hostname.toLowerCase())) {
+      findings.push({
+        severity: 'low',
+        type: 'Cross-Domain Redirect',
+        description: `${from.href} redirects to ${to.href}, outside ${base}. Confirm the destination is intended; redirect targets built from request input allow open redirects used in phishing.`,
+        cvss: '3.1',
+        remediation: 'Redirect only to fixed destinations or an allowlist of trusted hosts; never take the Location from request parameters unchecked.',
+        evidence: { from: from.href, to: to.href, statusCode: chain[index].statusCode, location: chain[index].location },
+      });
+    }
+  });
+
+  return findings;
+}
@@ -0,0 +1,45 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { expandTargetRange, isRangeTarget, ipv4ToNumber, numberToIpv4 } from './ip-range';
+
+test('isRangeTarget recognises CIDR blocks and dash ranges only', () => {
+  assert.ok(isRangeTarget('10.20.0.0/22'));
+  assert.ok(isRangeTarget('10.0.0.1-50'));
+  assert.equal(isRangeTarget('10.0.0.1'), false);
+  assert.equal(isRangeTarget('example.com'), false);
+});
+
+test('ipv4ToNumber and numberToIpv4 round-trip the whole address space', () => {
+  for (const ip of ['0.0.0.0', '10.20.30.40', '255.255.255.255']) {
+    assert.equal(numberToIpv4(ipv4ToNumber(ip)), ip);
+  }
+  assert.equal(ipv4ToNumber('255.255.255.255'), 0xffffffff);
+});
+
+test('CIDR blocks skip the network and broadcast addresses below /31', () => {
+  assert.deepEqual(expandTargetRange('192.0.2.7/30'), ['192.0.2.5', '192.0.2.6']);
+  assert.deepEqual(expandTargetRange('192.0.2.4/31'), ['192.0.2.4', '192.0.2.5']);
+  assert.deepEqual(expandTargetRange('192.0.2.9/32'), ['192.0.2.9']);
+  assert.equal(expandTargetRange('10.20.1.7/22').length, 1022);
+});
+
+test('dash ranges accept a full end address or just its last octet', () => {
+  assert.deepEqual(expandTargetRange('10.0.0.254-10.0.1.1'), ['10.0.0.254', '10.0.0.255', '10.0.1.0', '10.0.1.1']);
+  assert.deepEqual(expandTargetRange('10.0.0.1-3'), ['10.0.0.1', '10.0.0.2', '10.0.0.3']);
+  assert.throws(() => expandTargetRange('10.0.0.9-3'), /runs backwards/);
+  assert.throws(() => expandTargetRange('10.0.0.1-300'), /Invalid address range/);
+});
+
+test('malformed, oversized and reserved ranges are rejected', () => {
+  assert.throws(() => expandTargetRange('10.0.0.0/33'), /Invalid CIDR block/);
+  assert.throws(() => expandTargetRange('300.0.0.0/24'), /Invalid CIDR block/);
+  assert.throws(() => expandTargetRange('10.0.0.0/15'), /the limit is 65536/);
+  assert.equal(expandTargetRange('10.0.0.0/16').length, 65534);
+
+  assert.throws(() => expandTargetRange('0.0.0.0/24'), /reserved block 0\.0\.0\.0\/8/);
+  assert.throws(() => expandTargetRange('224.0.0.0/24'), /reserved block 224\.0\.0\.0\/4/);
+  assert.throws(() => expandTargetRange('239.255.255.250-251'), /reserved block 224\.0\.0\.0\/4/);
+  assert.throws(() => expandTargetRange('255.255.255.0/24'), /reserved block 240\.0\.0\.0\/4/);
+  assert.throws(() => expandTargetRange('223.255.255.250-224.0.0.5'), /reserved block 224\.0\.0\.0\/4/);
+  assert.equal(expandTargetRange('223.255.255.0/24').length, 254);
+});
@@ -0,0 +1,76 @@
+import net from 'net';
+
+// IPv4 range targets: CIDR blocks ("10.20.0.0/22") and dash ranges ("10.0.0.1-10.0.0.50", or "10.0.0.1-50" for
+// the last octet)
+
+// A /16; larger ranges are almost always typos and would take hours to sweep
+export const MAX_RANGE_ADDRESSES = 65536;
+
+// "This network", multicast and the reserved class E space: nothing in them can be scanned as a host
+const UNSCANNABLE_BLOCKS = ['0.0.0.0/8', '224.0.0.0/4', '240.0.0.0/4'];
+
+export function ipv4ToNumber(ip: string): number {
+  return ip.split('.').reduce((value, octet) => value * 256 + parseInt(octet), 0);
+}
+
+export function numberToIpv4(value: number): string {
+  return [value >>> 24, (value >>> 16) & 255, (value >>> 8) & 255, value & 255].join('.');
+}
+
+// Whether the target is written as a range at all; expandTargetRange decides whether it is a valid one
+export function isRangeTarget(target: string): boolean {
+  return /^[\d.]+\/\d+$/.test(target) || /^[\d.]+-[\d.]+$/.test(target);
+}
+
+// Every address in the range, in order; throws on malformed, oversized or reserved ranges
+export function expandTargetRange(target: string): string[] {
+  let first: number;
+  let last: number;
+
+  const cidr = target.match(/^([\d.]+)\/(\d+)$/);
+  const range = target.match(/^([\d.]+)-([\d.]+)$/);
+  if (cidr) {
+    const prefix = parseInt(cidr[2]);
+    if (!net.isIPv4(cidr[1]) || prefix > 32) {
+      throw new Error(`Invalid CIDR block: ${target}`);
+    }
+    // Host bits in the base address are ignored, as nmap does ("10.20.1.7/22" is 10.20.0.0/22)
+    const size = Math.pow(2, 32 - prefix);
+    first = ipv4ToNumber(cidr[1]) - (ipv4ToNumber(cidr[1]) % size);
+    last = first + size - 1;
+    // The network and broadcast addresses never answer as hosts, except in /31 point-to-point links and /32s
+    if (prefix < 31) {
+      first++;
+      last--;
+    }
+  } else if (range && net.isIPv4(range[1])) {
+    const end = /^\d+$/.test(range[2])
+      ? range[1].replace(/\d+$/, range[2])
+      : range[2];
+    if (!net.isIPv4(end)) {
+      throw new Error(`Invalid address range: ${target}`);
+    }
+    first = ipv4ToNumber(range[1]);
+    last = ipv4ToNumber(end);
+    if (first > last) {
+      throw new Error(`Address range runs backwards: ${target}`);
+    }
+  } else {
+    throw new Error(`Invalid address range: ${target}`);
+  }
+
+  for (const block of UNSCANNABLE_BLOCKS) {
+    const [base, prefix] = block.split('/');
+    const blockFirst = ipv4ToNumber(base);
+    const blockLast = blockFirst + Math.pow(2, 32 - parseInt(prefix)) - 1;
+    if (first <= blockLast && last >= blockFirst) {
+      throw new Error(`Range ${target} overlaps the reserved block ${block}`);
+    }
+  }
+
+  if (last - first + 1 > MAX_RANGE_ADDRESSES) {
+    throw new Error(`Range ${target} has ${last - first + 1} addresses; the limit is ${MAX_RANGE_ADDRESSES}`);
+  }
+
+  return Array.from({ length: last - first + 1 }, (_, index) => numberToIpv4(first + index));
+}
@@ -16,9 +16,18 @@ export interface VulnerabilityAnalysis {
     description: string;
     cvss: string;
     remediation: string;
+    subdomain?: string;
   }[];
 }
 
+// Deterministic finding already stored for the scan; the model is told not to report it again
+export interface RecordedFinding {
+  severity: string;
+  type: string;
+  subdomain?: string;
+  host?: string; // for range scans
+}
+
 export interface TechnologyAnalysis {
   name: string;
   version: string;
@@ -30,7 +39,8 @@ export interface TechnologyAnalysis {
 
 export async function analyzeVulnerabilities(
   target: string,
-  scanResults: any
+  scanResults: any,
+  recordedFindings: RecordedFinding[] = []
 ): Promise<VulnerabilityAnalysis> {
   try {
     const prompt = `
@@ -38,7 +48,12 @@ Analyze the following cybersecurity scan results for target "${target}" and prov
 
 Scan Results:
 ${JSON.stringify(scanResults, null, 2)}
-
+${recordedFindings.length > 0 ? `
+Already Recorded Findings:
+These came from deterministic checks and are already stored. Take them into account for the risk score, but do not
+list them again in "vulnerabilities".
+${JSON.stringify(recordedFindings, null, 2)}
+` : ''}
 Please provide a detailed analysis in JSON format with the following structure:
 {
   "riskScore": number (0-10),
@@ -51,13 +66,15 @@ Please provide a detailed analysis in JSON format with the following structure:
       "type": "vulnerability type",
       "description": "detailed description",
       "cvss": "CVSS score if applicable",
-      "remediation": "specific remediation steps"
+      "remediation": "specific remediation steps",
+      "subdomain": "the affected subdomain, only when the issue concerns a single one"
     }
   ]
 }
 
 Focus on:
 - Actual security implications
+- Known CVEs for the service products and versions identified on open ports
 - Actionable recommendations
 - Prioritization based on risk
 - Specific remediation steps
@@ -84,7 +101,8 @@ Focus on:
                   type: { type: "string" },
                   description: { type: "string" },
                   cvss: { type: "string" },
-                  remediation: { type: "string" }
+                  remediation: { type: "string" },
+                  subdomain: { type: "string" }
                 }
               }
             }
@@ -0,0 +1,42 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { generatePermutations } from './permutations';
+
+const options = { affixes: [] as string[], maxCandidates: 10000 };
+const namesFor = (discovered: string[], rule: string, extra = options) =>
+  generatePermutations(discovered, 'example.com', extra).filter(candidate => candidate.rule === rule).map(candidate => candidate.name);
+
+test('numbers are stepped around an existing suffix, keeping zero padding', () => {
+  assert.deepEqual(namesFor(['web01.example.com'], 'number-increment'),
+    ['web00.example.com', 'web02.example.com', 'web03.example.com']);
+  assert.deepEqual(namesFor(['api.example.com'], 'number-increment'),
+    ['api1.example.com', 'api2.example.com', 'api3.example.com', 'api01.example.com', 'api02.example.com']);
+});
+
+test('an existing environment word is swapped instead of added', () => {
+  const swaps = namesFor(['api-dev.example.com'], 'env-swap');
+  assert.ok(swaps.includes('api-staging.example.com'));
+  assert.ok(!swaps.includes('api-dev.example.com'));
+  assert.deepEqual(namesFor(['api-dev.example.com'], 'env-prefix'), []);
+
+  assert.ok(namesFor(['api.example.com'], 'env-prefix').includes('dev-api.example.com'));
+  assert.ok(namesFor(['api.example.com'], 'env-suffix').includes('apistaging.example.com'));
+});
+
+test('only the leftmost label changes and discovered names are never candidates', () => {
+  const candidates = generatePermutations(['api.dev.example.com', 'api2.dev.example.com'], 'example.com', options);
+
+  assert.ok(candidates.every(candidate => candidate.name.endsWith('.dev.example.com')));
+  assert.ok(!candidates.some(candidate => candidate.name === 'api2.dev.example.com'));
+  assert.equal(new Set(candidates.map(candidate => candidate.name)).size, candidates.length);
+  assert.equal(candidates.find(candidate => candidate.name === 'api3.dev.example.com')?.base, 'api.dev.example.com');
+});
+
+test('word swaps, custom affixes, scope and the candidate cap', () => {
+  assert.deepEqual(namesFor(['internal-api.example.com'], 'word-swap'), ['api-internal.example.com']);
+  assert.deepEqual(namesFor(['api.example.com'], 'custom-affix', { affixes: [' Corp ', ''], maxCandidates: 100 }),
+    ['corp-api.example.com', 'api-corp.example.com', 'corpapi.example.com', 'apicorp.example.com']);
+
+  assert.deepEqual(generatePermutations(['api.other.com'], 'example.com', options), []);
+  assert.equal(generatePermutations(['api.example.com', 'www.example.com'], 'example.com', { affixes: [], maxCandidates: 7 }).length, 7);
+});
@@ -0,0 +1,108 @@
+// Generates alteration candidates (api → api2, dev-api, api-staging, ...) from subdomains already found
+
+export type PermutationRule =
+  | 'number-increment'
+  | 'env-prefix'
+  | 'env-suffix'
+  | 'env-swap'
+  | 'word-swap'
+  | 'custom-affix';
+
+export interface PermutationCandidate {
+  name: string;
+  base: string; // the discovered subdomain the candidate was derived from
+  rule: PermutationRule;
+}
+
+const ENVIRONMENT_WORDS = [
+  'dev', 'develop', 'development', 'test', 'testing', 'qa', 'uat', 'stage', 'staging',
+  'preprod', 'prod', 'production', 'sandbox', 'demo', 'int', 'internal', 'old', 'new', 'beta',
+];
+
+const labelRegex = /^[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?$/;
+
+// Only the leftmost label is altered: api.dev.example.com yields api2.dev.example.com, not api.dev2.example.com
+function labelPermutations(label: string, customAffixes: string[]): { label: string; rule: PermutationRule }[] {
+  const results: { label: string; rule: PermutationRule }[] = [];
+  const add = (candidate: string, rule: PermutationRule) => results.push({ label: candidate, rule });
+
+  // Number increments: api → api1/api2, api2 → api1/api3, web01 → web02
+  const numbered = label.match(/^(.*?)(\d+)$/);
+  if (numbered) {
+    const [, stem, digits] = numbered;
+    const value = parseInt(digits, 10);
+    [value - 1, value + 1, value + 2].filter(next => next >= 0).forEach(next => {
+      add(`${stem}${String(next).padStart(digits.length, '0')}`, 'number-increment');
+    });
+  } else {
+    ['1', '2', '3', '01', '02'].forEach(suffix => add(`${label}${suffix}`, 'number-increment'));
+  }
+
+  const words = label.split('-');
+  const environmentIndex = words.findIndex(word => ENVIRONMENT_WORDS.includes(word));
+
+  if (environmentIndex >= 0) {
+    // Swap the existing environment word: api-dev → api-staging
+    ENVIRONMENT_WORDS.forEach(environment => {
+      if (environment === words[environmentIndex]) return;
+      const swapped = words.slice();
+      swapped[environmentIndex] = environment;
+      add(swapped.join('-'), 'env-swap');
+    });
+  } else {
+    ENVIRONMENT_WORDS.forEach(environment => {
+      add(`${environment}-${label}`, 'env-prefix');
+      add(`${label}-${environment}`, 'env-suffix');
+      add(`${label}${environment}`, 'env-suffix');
+    });
+  }
+
+  // Word order swaps: internal-api → api-internal
+  if (words.length === 2) {
+    add(`${words[1]}-${words[0]}`, 'word-swap');
+  } else if (words.length > 2) {
+    add(words.slice().reverse().join('-'), 'word-swap');
+  }
+
+  customAffixes.forEach(affix => {
+    add(`${affix}-${label}`, 'custom-affix');
+    add(`${label}-${affix}`, 'custom-affix');
+    add(`${affix}${label}`, 'custom-affix');
+    add(`${label}${affix}`, 'custom-affix');
+  });
+
+  return results.filter(result => result.label !== label && labelRegex.test(result.label));
+}
+
+export function generatePermutations(
+  discovered: string[],
+  target: string,
+  options: { affixes: string[]; maxCandidates: number }
+): PermutationCandidate[] {
+  const known = new Set(discovered.map(name => name.toLowerCase()));
+  const seen = new Set<string>();
+  const candidates: PermutationCandidate[] = [];
+  const affixes = options.affixes.map(affix => affix.trim().toLowerCase()).filter(Boolean);
+
+  for (const base of discovered) {
+    const name = base.toLowerCase();
+    if (!name.endsWith(`.${target}`)) continue;
+
+    const dot = name.indexOf('.');
+    const label = name.slice(0, dot);
+    const parent = name.slice(dot + 1);
+
+    for (const permutation of labelPermutations(label, affixes)) {
+      const candidate = `${permutation.label}.${parent}`;
+      if (known.has(candidate) || seen.has(candidate)) continue;
+
+      seen.add(candidate);
+      candidates.push({ name: candidate, base: name, rule: permutation.rule });
+      if (candidates.length >= options.maxCandidates) {
+        return candidates;
+      }
+    }
+  }
+
+  return candidates;
+}
@@ -0,0 +1,150 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import net from 'net';
+import { ConnectScanner, compareFamilyPorts, type ConnectScanStats, type ConnectScannerOptions } from './port-scanner';
+
+const options: ConnectScannerOptions = {
+  concurrency: 10, perHostConcurrency: 10, rate: 1000, retries: 0, minTimeout: 50, maxTimeout: 1000,
+};
+
+type Outcome = { state: 'open' | 'closed' | 'filtered'; rtt?: number; timedOut?: boolean };
+// Replaces the socket connect so timeouts and in-flight counts can be controlled
+function stubConnect(scanner: ConnectScanner, connect: (host: string, port: number, timeout: number) => Promise<Outcome>) {
+  (scanner as unknown as { connect: typeof connect }).connect = connect;
+}
+
+test('open and refused ports are told apart over real connections', async () => {
+  const server = net.createServer(socket => socket.destroy());
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const open = (server.address() as net.AddressInfo).port;
+  const closing = net.createServer();
+  await new Promise<void>(resolve => closing.listen(0, '127.0.0.1', resolve));
+  const closed = (closing.address() as net.AddressInfo).port;
+  await new Promise(resolve => closing.close(resolve));
+
+  try {
+    const reports: ConnectScanStats[] = [];
+    const results = await new ConnectScanner(options).scan([{ host: '127.0.0.1', ports: [open, closed] }], stats => reports.push(stats));
+
+    assert.equal(results.find(result => result.port === open)?.state, 'open');
+    assert.equal(results.find(result => result.port === closed)?.state, 'closed');
+    assert.ok(results.every(result => result.rtt !== undefined));
+    assert.deepEqual({ ...reports[reports.length - 1], attemptsPerSecond: 0, elapsedMs: 0 },
+      { completed: 2, total: 2, open: 1, attempts: 2, retried: 0, attemptsPerSecond: 0, elapsedMs: 0 });
+  } finally {
+    await new Promise(resolve => server.close(resolve));
+  }
+});
+
+test('global and per-host concurrency are respected and hosts take turns', async () => {
+  const scanner = new ConnectScanner({ ...options, concurrency: 3, perHostConcurrency: 2 });
+  const inFlight = new Map<string, number>();
+  const launched: string[] = [];
+  let peak = 0;
+  let peakPerHost = 0;
+  stubConnect(scanner, async host => {
+    launched.push(host);
+    inFlight.set(host, (inFlight.get(host) || 0) + 1);
+    peak = Math.max(peak, Array.from(inFlight.values()).reduce((sum, count) => sum + count, 0));
+    peakPerHost = Math.max(peakPerHost, inFlight.get(host)!);
+    await new Promise(resolve => setTimeout(resolve, 10));
+    inFlight.set(host, inFlight.get(host)! - 1);
+    return { state: 'closed', rtt: 1 };
+  });
+
+  const ports = [1, 2, 3, 4, 5, 6];
+  const results = await scanner.scan([{ host: 'a', ports }, { host: 'b', ports }]);
+
+  assert.equal(results.length, 12);
+  assert.equal(peak, 3);
+  assert.equal(peakPerHost, 2);
+  assert.deepEqual(launched.slice(0, 3), ['a', 'b', 'a']);
+});
+
+test('concurrent scans on one scanner share its rate and concurrency caps', async () => {
+  const scanner = new ConnectScanner({ ...options, concurrency: 2, rate: 50 });
+  const started: { host: string; at: number }[] = [];
+  let inFlight = 0;
+  let peak = 0;
+  stubConnect(scanner, async host => {
+    started.push({ host, at: Date.now() });
+    peak = Math.max(peak, ++inFlight);
+    await new Promise(resolve => setTimeout(resolve, 30)); // longer than the 20ms between attempts, so they overlap
+    inFlight--;
+    return { state: 'closed', rtt: 1 };
+  });
+
+  const ports = [1, 2, 3, 4, 5];
+  // Two hosts of a range scan, each scanned by its own call
+  const [a, b] = await Promise.all([scanner.scan([{ host: 'a', ports }]), scanner.scan([{ host: 'b', ports }])]);
+
+  assert.equal(a.length + b.length, 10);
+  assert.equal(peak, 2);
+  const elapsed = started[started.length - 1].at - started[0].at;
+  assert.ok(elapsed >= 170, `ten attempts at 50/s span at least 180ms, took ${elapsed}ms`);
+  // Neither call waits for the other to finish
+  const hosts = started.map(attempt => attempt.host);
+  assert.ok(hosts.indexOf('b') < hosts.lastIndexOf('a'), hosts.join(','));
+});
+
+test('only timed-out attempts are retried, up to the retry limit', async () => {
+  const scanner = new ConnectScanner({ ...options, retries: 2 });
+  const attempts = new Map<number, number>();
+  stubConnect(scanner, async (_host, port) => {
+    attempts.set(port, (attempts.get(port) || 0) + 1);
+    if (port === 1) return { state: 'filtered', timedOut: true };
+    if (port === 2) return { state: 'filtered' }; // e.g. host unreachable: final at once
+    return attempts.get(port) === 1 ? { state: 'filtered', timedOut: true } : { state: 'open', rtt: 5 };
+  });
+
+  let final: ConnectScanStats | undefined;
+  const results = await scanner.scan([{ host: 'a', ports: [1, 2, 3] }], stats => { final = stats; });
+
+  assert.deepEqual(Object.fromEntries(attempts), { 1: 3, 2: 1, 3: 2 });
+  assert.deepEqual(results.map(({ port, state }) => [port, state]).sort(), [[1, 'filtered'], [2, 'filtered'], [3, 'open']]);
+  assert.equal(final?.retried, 3);
+  assert.equal(final?.attempts, 6);
+});
+
+test('connect timeouts adapt to the measured round-trip time within bounds', () => {
+  const scanner = new ConnectScanner({ ...options, minTimeout: 100, maxTimeout: 2000 });
+  const state = { host: 'a', queue: [], active: 0 } as Parameters<ConnectScanner['timeoutFor']>[0];
+
+  assert.equal(scanner['timeoutFor'](state), 2000); // no sample yet
+  scanner['recordRtt'](state, 10);
+  assert.equal(scanner['timeoutFor'](state), 100); // 10 + 4 * 5, raised to the floor
+  scanner['recordRtt'](state, 1000);
+  assert.equal(scanner['timeoutFor'](state), 1139); // srtt 133.75, rttvar 251.25
+  for (let i = 0; i < 5; i++) scanner['recordRtt'](state, 5000);
+  assert.equal(scanner['timeoutFor'](state), 2000);
+});
+
+test('the rate cap spaces connection attempts', async () => {
+  const scanner = new ConnectScanner({ ...options, rate: 50 });
+  stubConnect(scanner, async () => ({ state: 'closed', rtt: 1 }));
+
+  const startedAt = Date.now();
+  await scanner.scan([{ host: 'a', ports: [1, 2, 3, 4, 5, 6] }]);
+  assert.ok(Date.now() - startedAt >= 90, 'six attempts at 50/s take at least 100ms');
+});
+
+test('compareFamilyPorts reports ports open on only one address family, with the state seen on the other', () => {
+  const families = [
+    { family: 'ipv4' as const, address: '192.0.2.10', openPorts: [22, 443] },
+    { family: 'ipv6' as const, address: '2001:db8::10', openPorts: [22, 443, 6379] },
+  ];
+  const findings = compareFamilyPorts('db.example.test', families, [
+    { host: '192.0.2.10', port: 6379, state: 'filtered' },
+    { host: '2001:db8::10', port: 6379, state: 'open', rtt: 1 },
+  ]);
+
+  assert.equal(findings.length, 1);
+  assert.equal(findings[0].type, 'IPv4/IPv6 Port Exposure Mismatch');
+  assert.match(findings[0].description, /6379\/tcp filtered on IPv4, open on IPv6/);
+  assert.deepEqual(findings[0].evidence, {
+    host: 'db.example.test', ipv4: '192.0.2.10', ipv6: '2001:db8::10', ports: [{ port: 6379, ipv4: 'filtered', ipv6: 'open' }],
+  });
+
+  families[1].openPorts = [22, 443];
+  assert.deepEqual(compareFamilyPorts('db.example.test', families, []), []);
+});
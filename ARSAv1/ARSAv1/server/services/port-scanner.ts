@@ -0,0 +1,233 @@
+import net from 'net';
+import type { AddressFamilyResult, ReconFinding } from './reconnaissance';
+
+// TCP connect scanner with global and per-host concurrency, a connection-rate cap, per-host RTT-adaptive
+// timeouts and retries for ports that time out. Concurrent scan() calls on one scanner share its concurrency and rate.
+
+export interface ConnectScannerOptions {
+  concurrency: number; // connections in flight across all hosts and scans
+  perHostConcurrency: number; // connections in flight to any one host
+  rate: number; // connection attempts started per second, across all hosts and scans
+  retries: number; // extra attempts for ports that timed out; refused and open ports are final
+  minTimeout: number; // milliseconds; adaptive timeouts never go below this...
+  maxTimeout: number; // ...or above this, which is also the timeout before a host's first RTT sample
+  lookup?: net.LookupFunction;
+}
+
+export type ConnectPortState = 'open' | 'closed' | 'filtered';
+
+export interface ConnectScanResult {
+  host: string;
+  port: number;
+  state: ConnectPortState; // filtered: every attempt timed out or failed without a reset
+  rtt?: number; // milliseconds, for open and closed ports
+}
+
+export interface ConnectScanStats {
+  completed: number; // ports with a final state
+  total: number;
+  open: number;
+  attempts: number; // connection attempts including retries
+  retried: number;
+  attemptsPerSecond: number; // average since the scan started
+  elapsedMs: number;
+}
+
+interface HostState {
+  host: string;
+  queue: { port: number; attempt: number }[];
+  active: number;
+  srtt?: number;
+  rttvar?: number;
+}
+
+const PROGRESS_INTERVAL_MS = 500;
+
+export class ConnectScanner {
+  private options: ConnectScannerOptions;
+  private nextSlot = 0;
+  private active = 0; // connections in flight across every scan() call
+  private pumps = new Set<() => void>(); // one per running scan() call, woken whenever a connection slot frees up
+
+  constructor(options: ConnectScannerOptions) {
+    this.options = options;
+  }
+
+  async scan(
+    targets: { host: string; ports: number[] }[],
+    onProgress?: (stats: ConnectScanStats) => void
+  ): Promise<ConnectScanResult[]> {
+    const hosts: HostState[] = targets.map(target => ({
+      host: target.host,
+      queue: target.ports.map(port => ({ port, attempt: 0 })),
+      active: 0,
+    }));
+    const results: ConnectScanResult[] = [];
+    const startedAt = Date.now();
+    const stats: ConnectScanStats = {
+      completed: 0,
+      total: hosts.reduce((sum, host) => sum + host.queue.length, 0),
+      open: 0,
+      attempts: 0,
+      retried: 0,
+      attemptsPerSecond: 0,
+      elapsedMs: 0,
+    };
+    let lastReport = 0;
+
+    const report = (force = false) => {
+      const now = Date.now();
+      if (!onProgress || (!force && now - lastReport < PROGRESS_INTERVAL_MS)) return;
+      lastReport = now;
+      stats.elapsedMs = now - startedAt;
+      stats.attemptsPerSecond = Math.round(stats.attempts / Math.max(stats.elapsedMs / 1000, 0.001));
+      onProgress({ ...stats });
+    };
+
+    if (stats.total === 0) {
+      return results;
+    }
+
+    await new Promise<void>((resolve) => {
+      let active = 0; // this call's connections in flight
+      let cursor = 0; // one port per host per round, so no host waits behind another host's whole port list
+
+      const pump = () => {
+        let idle = 0; // hosts visited in a row that couldn't start anything
+        let started = false;
+        while (this.active < this.options.concurrency && idle < hosts.length) {
+          const state = hosts[cursor];
+          cursor = (cursor + 1) % hosts.length;
+          if (state.queue.length === 0 || state.active >= this.options.perHostConcurrency) {
+            idle++;
+            continue;
+          }
+
+          idle = 0;
+          started = true;
+          active++;
+          this.active++;
+          state.active++;
+          launch(state, state.queue.shift()!).then(() => {
+            active--;
+            this.active--;
+            state.active--;
+            if (active === 0 && hosts.every(host => host.queue.length === 0)) {
+              this.pumps.delete(pump);
+              report(true);
+              resolve();
+            }
+            Array.from(this.pumps).forEach(waiting => waiting());
+          });
+        }
+        // Scans sharing the scanner take turns at freed slots
+        if (started && this.pumps.delete(pump)) {
+          this.pumps.add(pump);
+        }
+      };
+
+      const launch = async (state: HostState, job: { port: number; attempt: number }) => {
+        await this.throttle();
+        stats.attempts++;
+        const outcome = await this.connect(state.host, job.port, this.timeoutFor(state));
+
+        if (outcome.rtt !== undefined) {
+          this.recordRtt(state, outcome.rtt);
+        }
+        if (outcome.state === 'filtered' && outcome.timedOut && job.attempt < this.options.retries) {
+          stats.retried++;
+          state.queue.push({ port: job.port, attempt: job.attempt + 1 });
+        } else {
+          stats.completed++;
+          if (outcome.state === 'open') stats.open++;
+          results.push({ host: state.host, port: job.port, state: outcome.state, rtt: outcome.rtt });
+        }
+        report();
+      };
+
+      this.pumps.add(pump);
+      pump();
+    });
+
+    return results;
+  }
+
+  // Spaces connection attempts 1/rate seconds apart; callers wait for their slot
+  private throttle(): Promise<void> {
+    const now = Date.now();
+    const slot = Math.max(now, this.nextSlot);
+    this.nextSlot = slot + 1000 / this.options.rate;
+    return slot > now ? new Promise(resolve => setTimeout(resolve, slot - now)) : Promise.resolve();
+  }
+
+  // Smoothed RTT and variance as in RFC 6298; resets and accepts both count as samples
+  private recordRtt(state: HostState, rtt: number): void {
+    if (state.srtt === undefined || state.rttvar === undefined) {
+      state.srtt = rtt;
+      state.rttvar = rtt / 2;
+      return;
+    }
+    state.rttvar = 0.75 * state.rttvar + 0.25 * Math.abs(state.srtt - rtt);
+    state.srtt = 0.875 * state.srtt + 0.125 * rtt;
+  }
+
+  private timeoutFor(state: HostState): number {
+    if (state.srtt === undefined || state.rttvar === undefined) {
+      return this.options.maxTimeout;
+    }
+    const timeout = state.srtt + 4 * state.rttvar;
+    return Math.round(Math.min(this.options.maxTimeout, Math.max(this.options.minTimeout, timeout)));
+  }
+
+  private connect(host: string, port: number, timeout: number): Promise<{ state: ConnectPortState; rtt?: number; timedOut?: boolean }> {
+    return new Promise((resolve) => {
+      const socket = new net.Socket();
+      const startedAt = Date.now();
+
+      socket.setTimeout(timeout);
+      socket.on('connect', () => {
+        socket.destroy();
+        resolve({ state: 'open', rtt: Date.now() - startedAt });
+      });
+
+      socket.on('timeout', () => {
+        socket.destroy();
+        resolve({ state: 'filtered', timedOut: true });
+      });
+
+      socket.on('error', (error: NodeJS.ErrnoException) => {
+        socket.destroy();
+        // A reset proves the host answered; unreachable and similar errors say nothing about the port
+        resolve(error.code === 'ECONNREFUSED'
+          ? { state: 'closed', rtt: Date.now() - startedAt }
+          : { state: 'filtered' });
+      });
+
+      socket.connect({ port, host, lookup: this.options.lookup });
+    });
+  }
+}
+
+// Ports open on one family but not the other usually mean a firewall policy that only covers IPv4 (or IPv6)
+export function compareFamilyPorts(target: string, families: AddressFamilyResult[], results: ConnectScanResult[]): ReconFinding[] {
+  const [ipv4, ipv6] = families;
+  const stateOf = (address: string, port: number) =>
+    results.find(result => result.host === address && result.port === port)?.state;
+  const mismatched = ipv4.openPorts!.filter(port => !ipv6.openPorts!.includes(port))
+    .concat(ipv6.openPorts!.filter(port => !ipv4.openPorts!.includes(port)))
+    .sort((a, b) => a - b)
+    .map(port => ({ port, ipv4: stateOf(ipv4.address, port), ipv6: stateOf(ipv6.address, port) }));
+
+  if (mismatched.length === 0) {
+    return [];
+  }
+
+  return [{
+    severity: 'medium',
+    type: 'IPv4/IPv6 Port Exposure Mismatch',
+    description: `${target} exposes different ports over IPv4 (${ipv4.address}) and IPv6 (${ipv6.address}): ${mismatched.map(entry => `${entry.port}/tcp ${entry.ipv4} on IPv4, ${entry.ipv6} on IPv6`).join('; ')}. Firewall rules that cover only one address family leave services reachable through the other.`,
+    cvss: '5.3',
+    remediation: 'Apply the same filtering policy to both address families (e.g. ip6tables alongside iptables, or ::/0 rules in security groups), and bind services only to the addresses meant to expose them.',
+    evidence: { host: target, ipv4: ipv4.address, ipv6: ipv6.address, ports: mismatched },
+  }];
+}
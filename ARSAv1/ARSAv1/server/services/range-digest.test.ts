@@ -0,0 +1,59 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { digestRangeResults } from './range-digest';
+import type { ReconFinding, ReconResults } from './reconnaissance';
+
+function host(index: number, openPorts: number[], findings: ReconFinding[] = []): ReconResults {
+  return {
+    target: `192.0.2.${index}`, subdomains: [], openPorts, addressFamilies: [], httpEndpoints: [], sshAudits: [],
+    exposureChecks: [], technologies: [], dnsRecords: [], headers: {}, certificates: [], zoneTransfers: [],
+    takeovers: [], relatedAssets: [], findings,
+    services: openPorts.map(port => ({ port, protocol: 'tcp' as const, service: port === 22 ? 'ssh' : 'http', method: 'port' as const })),
+  };
+}
+
+const finding = (severity: ReconFinding['severity']): ReconFinding => ({
+  severity, type: `${severity} issue`, description: '', cvss: '', remediation: '', evidence: { large: 'x'.repeat(1000) },
+});
+
+test('digestRangeResults bounds what a range scan sends for analysis', () => {
+  const hosts = Array.from({ length: 40 }, (_, index) => host(index + 1, index < 10 ? [22, 80] : [80]));
+  hosts[30] = host(31, [80], [finding('low'), finding('high')]);
+
+  const digest = digestRangeResults({
+    target: '192.0.2.0/24',
+    discovery: { addresses: 256, probePorts: [80], live: [] },
+    hosts,
+  }, 5, 1);
+
+  assert.equal(digest.hosts.length, 5);
+  assert.equal(digest.omittedHosts, 35);
+  // Hosts with findings first, then the ones exposing the most ports
+  assert.deepEqual(digest.hosts[0], { target: '192.0.2.31', openPorts: [80], services: ['80/tcp http'], technologies: [], findings: 2 });
+  assert.deepEqual(digest.hosts.slice(1).map(entry => entry.openPorts), [[22, 80], [22, 80], [22, 80], [22, 80]]);
+  assert.deepEqual(digest.ports, [{ port: 80, protocol: 'tcp', hosts: 40 }, { port: 22, protocol: 'tcp', hosts: 10 }]);
+  // Most severe first, without the evidence
+  assert.deepEqual(digest.findings, [{ severity: 'high', type: 'high issue', description: '', cvss: '', remediation: '', host: '192.0.2.31' }]);
+  assert.equal(digest.omittedFindings, 1);
+});
+
+test('digestRangeResults counts answered UDP ports alongside TCP', () => {
+  const withUdp = host(1, [53]);
+  withUdp.udpScan = {
+    spec: '53,161',
+    ports: [
+      { port: 53, protocol: 'udp', state: 'open', service: 'dns' },
+      { port: 161, protocol: 'udp', state: 'open|filtered' },
+    ],
+  };
+
+  const digest = digestRangeResults({
+    target: '192.0.2.0/30',
+    discovery: { addresses: 4, probePorts: [53], live: [{ address: '192.0.2.1', port: 53, state: 'open' }] },
+    hosts: [withUdp, host(2, [])],
+  });
+
+  assert.equal(digest.liveHosts, 1);
+  assert.deepEqual(digest.ports, [{ port: 53, protocol: 'tcp', hosts: 1 }, { port: 53, protocol: 'udp', hosts: 1 }]);
+  assert.equal(digest.omittedHosts, 0);
+});
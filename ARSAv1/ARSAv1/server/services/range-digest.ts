@@ -0,0 +1,53 @@
+import type { RangeReconResults, ReconFinding } from './reconnaissance';
+
+// Bounded view of a range scan for the AI analysis; the full per-host results are stored on the scan
+export interface RangeDigest {
+  target: string;
+  addresses: number;
+  liveHosts: number;
+  ports: { port: number; protocol: 'tcp' | 'udp'; hosts: number }[]; // most widespread first
+  hosts: { target: string; openPorts: number[]; services: string[]; technologies: string[]; findings: number }[];
+  omittedHosts: number;
+  findings: (Omit<ReconFinding, 'evidence'> & { host: string })[]; // most severe first
+  omittedFindings: number;
+}
+
+const SEVERITY_ORDER: ReconFinding['severity'][] = ['critical', 'high', 'medium', 'low'];
+
+// Hosts with findings come first, then those exposing the most ports
+export function digestRangeResults(results: RangeReconResults, maxHosts = 25, maxFindings = 100): RangeDigest {
+  const portCounts = new Map<string, { port: number; protocol: 'tcp' | 'udp'; hosts: number }>();
+  const countPort = (port: number, protocol: 'tcp' | 'udp') => {
+    const count = portCounts.get(`${port}/${protocol}`) || { port, protocol, hosts: 0 };
+    count.hosts++;
+    portCounts.set(`${port}/${protocol}`, count);
+  };
+  for (const host of results.hosts) {
+    host.openPorts.forEach(port => countPort(port, 'tcp'));
+    host.udpScan?.ports.filter(result => result.state === 'open').forEach(result => countPort(result.port, 'udp'));
+  }
+
+  const ranked = [...results.hosts].sort((a, b) =>
+    b.findings.length - a.findings.length || b.openPorts.length - a.openPorts.length);
+  const findings = results.hosts
+    .flatMap(host => host.findings.map(({ evidence, ...finding }) => ({ ...finding, host: host.target })))
+    .sort((a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity));
+
+  return {
+    target: results.target,
+    addresses: results.discovery.addresses,
+    liveHosts: results.discovery.live.length,
+    ports: Array.from(portCounts.values()).sort((a, b) => b.hosts - a.hosts || a.port - b.port),
+    hosts: ranked.slice(0, maxHosts).map(host => ({
+      target: host.target,
+      openPorts: host.openPorts,
+      services: host.services.map(found =>
+        [`${found.port}/${found.protocol}`, found.service, found.product, found.version].filter(Boolean).join(' ')),
+      technologies: host.technologies.map(tech => tech.version ? `${tech.name} ${tech.version}` : tech.name),
+      findings: host.findings.length,
+    })),
+    omittedHosts: Math.max(0, ranked.length - maxHosts),
+    findings: findings.slice(0, maxFindings),
+    omittedFindings: Math.max(0, findings.length - maxFindings),
+  };
+}
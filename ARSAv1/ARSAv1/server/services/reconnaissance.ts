@@ -3,79 +3,413 @@ import { promisify } from 'util';
 import { exec } from 'child_process';
 import dns from 'dns';
 import net from 'net';
-import https from 'https';
-import http from 'http';
+import { scanOptionsSchema, type ScanOptions } from '@shared/schema';
+import { parsePortSpec, formatPortRanges } from '@shared/port-spec';
+import { mapWithConcurrency } from './concurrency';
+import { resolveWordlist, loadBundledWordlist } from './wordlists';
+import { ResolverPool } from './resolver-pool';
+import { detectWildcard, getDNSRecord, getDNSRecords, resolveAddressFamilies, resolveHost } from './dns-records';
+import { SubdomainRegistry, checkZoneTransfers, enumerateRecursively, permuteSubdomains, resolveCandidates, sweepReverseDns, type SubdomainCandidate } from './subdomains';
+import { expandTargetRange, ipv4ToNumber } from './ip-range';
+import { ConnectScanner, compareFamilyPorts, type ConnectScanStats } from './port-scanner';
+import { identifyService, serviceCategory, type ServiceInfo } from './service-probes';
+import { probeUdpPort, type UdpPortResult } from './udp-probes';
+import { auditSsh, type SshAudit } from './ssh-audit';
+import { detectTechnologies, extractSignals, loadTechnologyRules, type TechnologyRules } from './fingerprint';
+import { checkExposure, DEFAULT_EXPOSURE_PORTS, type ExposureCheck, type ExposureService } from './exposure-checks';
+import { analyzeEmailSecurity, type EmailSecurityReport } from './email-security';
+import { discoverHttpEndpoints, getWebInfo, profileSubdomains, type FetchedPage, type HttpProbeContext } from './http-probes';
+import { checkTakeovers, type TakeoverCheck } from './takeover';
+import { CertificateHarvester } from './certificates';
 
 const execAsync = promisify(exec);
 
+export interface DetectedTechnology {
+  name: string;
+  version?: string;
+  category: string;
+  confidence: number; // 0-100; from the weights of the fingerprint rules that matched
+}
+
+// Structured value for each record type returned by getDNSRecord
+export interface DnsRecordValues {
+  A: string;
+  AAAA: string;
+  CNAME: string;
+  NS: string;
+  PTR: string;
+  TXT: string;
+  MX: { priority: number; exchange: string };
+  SOA: dns.SoaRecord;
+  CAA: { critical: number; tag: string; value: string };
+  SRV: dns.SrvRecord;
+  DNSKEY: { flags: number; protocol: number; algorithm: number; publicKey: string };
+  DS: { keyTag: number; algorithm: number; digestType: number; digest: string };
+}
+
+export type DnsRecordType = keyof DnsRecordValues;
+
+export interface DnsRecordEntry {
+  name: string; // owner name: the target, an SRV service name or the address a PTR was looked up for
+  type: DnsRecordType;
+  value: DnsRecordValues[DnsRecordType];
+}
+
+export interface DnssecStatus {
+  status: 'signed' | 'islanded' | 'broken' | 'unsigned';
+  keySigningKeys: number;
+  zoneSigningKeys: number;
+  algorithms: number[];
+}
+
+export type SubdomainSource = 'bruteforce' | 'axfr' | 'certificate' | 'permutation' | 'recursion' | 'ptr';
+
+export interface DiscoveredSubdomain {
+  name: string;
+  addresses: string[];
+  source: SubdomainSource;
+  sourceDetail?: Record<string, string>; // e.g. { rule, base } for permutation hits
+  parent?: string; // discovered subdomain one label up, e.g. dev.example.com for api.dev.example.com
+  wildcard?: boolean; // only resolves to the parent's wildcard answers
+  profile?: SubdomainProfile;
+}
+
+export interface SubdomainProfile {
+  status: 'http_live' | 'resolving' | 'dead';
+  ipv4: string[];
+  ipv6: string[];
+  http?: {
+    url: string;
+    statusCode: number;
+    title?: string;
+    technologies: DetectedTechnology[];
+  };
+}
+
+// Deterministic finding produced by a recon check, stored alongside the AI-reported vulnerabilities
+export interface ReconFinding {
+  severity: 'critical' | 'high' | 'medium' | 'low';
+  type: string;
+  description: string;
+  cvss: string;
+  remediation: string;
+  evidence?: unknown;
+  subdomain?: string; // set when the finding concerns a single discovered subdomain
+}
+
+export interface CertificateSummary {
+  host: string;
+  subject?: string;
+  issuer?: string;
+  validFrom?: string;
+  validTo?: string;
+  fingerprint256?: string;
+  names: string[]; // CN and subjectAltName DNS entries, wildcards kept as-is
+}
+
+// Hostname tied to the target's infrastructure but outside its domain, e.g. a PTR name on a shared IP
+export interface RelatedAsset {
+  hostname: string;
+  ip: string;
+  source: 'ptr';
+}
+
+export interface DiscoveredEndpoint {
+  url: string;
+  host: string;
+  ip?: string;
+  port: number;
+  scheme: 'http' | 'https';
+  statusCode: number;
+  title?: string;
+  headers: { [key: string]: string };
+  technologies: DetectedTechnology[];
+}
+
+// One request of the root page's redirect chain
+export interface RedirectHop {
+  url: string;
+  statusCode?: number; // missing when the request failed
+  location?: string; // as sent, before resolving against url
+  headers: { [key: string]: string };
+  error?: string;
+}
+
+// What one address of the target showed; dual-stack names get an entry per family so gaps between them stand out
+export interface AddressFamilyResult {
+  family: 'ipv4' | 'ipv6';
+  address: string;
+  openPorts?: number[]; // TCP scan
+  web?: { statusCode?: number; server?: string; error?: string }; // root page, HTTPS then HTTP
+}
+
+export interface WildcardInfo {
+  detected: boolean;
+  addresses: string[];
+}
+
 export interface ReconResults {
   target: string;
-  subdomains: string[];
+  subdomains: DiscoveredSubdomain[];
+  wildcard?: WildcardInfo;
   openPorts: number[];
-  technologies: { name: string; version?: string; category: string }[];
-  dnsRecords: { type: string; value: string }[];
+  // tested is in range notation, e.g. "1-1024,3389"; address is the IP the ports were scanned on
+  portScan?: { spec: string; tested: string; testedCount: number; address: string };
+  addressFamilies: AddressFamilyResult[];
+  services: ServiceInfo[];
+  httpEndpoints: DiscoveredEndpoint[];
+  sshAudits: SshAudit[];
+  exposureChecks: ExposureCheck[]; // only for the services enabled in options.exposureChecks
+  udpScan?: { spec: string; ports: UdpPortResult[] }; // every tested UDP port with its open/open|filtered/closed state
+  technologies: DetectedTechnology[];
+  dnsRecords: DnsRecordEntry[];
+  dnssec?: DnssecStatus;
   whoisData?: any;
   headers: { [key: string]: string };
   statusCode?: number;
-  certificates?: any;
+  redirectChain?: RedirectHop[]; // root page, first request to last; headers and statusCode describe the last
+  certificates: CertificateSummary[];
+  zoneTransfers: { nameserver: string; success: boolean; recordCount: number; error?: string }[];
+  permutations?: { candidates: number; hits: number; hitsByRule: { [rule: string]: number } };
+  recursion?: { depth: number; parents: string[]; candidates: number; hits: number }[];
+  reverseDns?: { lookups: number; hits: number };
+  relatedAssets: RelatedAsset[];
+  emailSecurity?: EmailSecurityReport;
+  takeovers: TakeoverCheck[];
+  findings: ReconFinding[];
+}
+
+// Range targets: which addresses answered the TCP ping, then one full result per live host
+export interface HostDiscoveryResult {
+  addresses: number; // in the range
+  probePorts: number[];
+  live: { address: string; port: number; state: 'open' | 'closed'; rtt?: number }[]; // the port that proved each host up
+}
+
+export interface RangeReconResults {
+  target: string; // the CIDR block or range as submitted
+  discovery: HostDiscoveryResult;
+  hosts: ReconResults[]; // in address order
+}
+
+interface PortScanOutcome {
+  address: string; // IPv4 when the target has both families
+  families: AddressFamilyResult[];
+  openPorts: number[];
+  tested: number[];
+  services: ServiceInfo[];
+  sshAudits: SshAudit[];
+  exposureChecks: ExposureCheck[];
+  findings: ReconFinding[];
+}
+
+export interface ReconHooks {
+  // Called once per discovered subdomain, as soon as it resolves
+  onSubdomain?: (subdomain: DiscoveredSubdomain) => Promise<void> | void;
+  // Called after a subdomain has been resolved and HTTP-probed
+  onSubdomainProfiled?: (subdomain: DiscoveredSubdomain) => Promise<void> | void;
+  onWildcard?: (wildcard: WildcardInfo) => void;
+  onProgress?: (stage: string, completed: number, total: number) => void;
+  // Throttled to a couple of reports per second while the TCP connect scan runs
+  onPortScanProgress?: (stats: ConnectScanStats) => void;
+}
+
+function emptyResults(target: string): ReconResults {
+  return {
+    target,
+    subdomains: [],
+    openPorts: [],
+    addressFamilies: [],
+    services: [],
+    httpEndpoints: [],
+    sshAudits: [],
+    exposureChecks: [],
+    technologies: [],
+    dnsRecords: [],
+    headers: {},
+    certificates: [],
+    zoneTransfers: [],
+    takeovers: [],
+    relatedAssets: [],
+    findings: [],
+  };
 }
 
 export class ReconnaissanceService {
+  // Loaded on the first fingerprinted page and shared by every page of the scan
+  private technologyRules?: Promise<TechnologyRules>;
+  private http: HttpProbeContext;
+
+  // Every DNS query and outbound connection made by the service resolves through this pool
+  constructor(private resolver: ResolverPool = new ResolverPool()) {
+    this.http = { lookup: resolver.lookup, ports: { http: 80, https: 443 }, fingerprint: (url, page) => this.fingerprintPage(url, page) };
+  }
+
   private validateTarget(target: string): boolean {
     // Basic domain/IP validation
     const domainRegex = /^[a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?(\.[a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?)*$/;
     const ipRegex = /^(?:(?:25[0-5]|2[0-4][0-9]|[01]?[0-9][0-9]?)\.){3}(?:25[0-5]|2[0-4][0-9]|[01]?[0-9][0-9]?)$/;
     
-    return domainRegex.test(target) || ipRegex.test(target);
+    return domainRegex.test(target) || ipRegex.test(target) || net.isIPv6(target);
   }
 
-  async performReconnaissance(target: string): Promise<ReconResults> {
+  async performReconnaissance(
+    target: string,
+    options: ScanOptions = scanOptionsSchema.parse({}),
+    hooks: ReconHooks = {}
+  ): Promise<ReconResults> {
     if (!this.validateTarget(target)) {
       throw new Error('Invalid target format');
     }
 
-    const results: ReconResults = {
-      target,
-      subdomains: [],
-      openPorts: [],
-      technologies: [],
-      dnsRecords: [],
-      headers: {},
-    };
+    const results = emptyResults(target);
+    const registry = new SubdomainRegistry(hooks);
 
     try {
+      const enumeration = this.enumerateSubdomains(target, options.enumeration, registry, hooks);
+      const zoneTransfer = checkZoneTransfers(this.resolver, target, options.zoneTransfer, registry);
+      const web = getWebInfo(this.resolver, target, options.web, this.http);
+
+      // Recursion descends into what brute force and AXFR found one level below the target
+      const recursion = Promise.allSettled([enumeration, zoneTransfer]).then(async () => {
+        if (!options.recursion.enabled) return undefined;
+        const words = await loadBundledWordlist(options.recursion.wordlist);
+        return enumerateRecursively(this.resolver, target, words, options, registry, hooks);
+      });
+
+      // Certificates are harvested once the other discovery stages have filled the registry
+      const harvester = new CertificateHarvester(this.resolver, target, options.enumeration.concurrency);
+      const certificateHarvest = Promise.allSettled([recursion, web]).then(([, webResult]) => {
+        const targetCertificate = webResult.status === 'fulfilled' ? webResult.value.certificate : undefined;
+        return harvester.harvest(registry, targetCertificate);
+      });
+
+      // Permutations are derived from everything the earlier stages found
+      const permutation = certificateHarvest.catch(() => undefined).then(async () => {
+        if (!options.permutations.enabled) return undefined;
+        return permuteSubdomains(this.resolver, target, options, await enumeration, registry, hooks);
+      });
+
+      // PTR lookups cover every address the discovery stages resolved
+      const reverseDns = permutation.catch(() => undefined).then(() => {
+        if (!options.reverseDns.enabled) return undefined;
+        return sweepReverseDns(this.resolver, target, options, registry, hooks);
+      });
+
+      // Permutation and PTR hits get their certificates read too, which may add further names
+      const lateCertificateHarvest = reverseDns.catch(() => undefined).then(() => harvester.harvest(registry));
+
+      // Profiling waits for discovery to settle so every subdomain is resolved and probed once
+      const profiling = lateCertificateHarvest.catch(() => undefined).then(() =>
+        profileSubdomains(this.resolver, registry, options.enumeration.concurrency, this.http, hooks)
+      );
+
+      // Takeover checks look at the final subdomain list, after profiling has settled
+      const takeoverCheck = profiling.catch(() => undefined).then(() =>
+        checkTakeovers(this.resolver, registry, options.enumeration.concurrency, this.http, hooks)
+      );
+
+      // HTTP(S) fingerprinting covers whatever the port scan found open, not just 80 and 443
+      const portScan = this.scanPorts(target, options.ports, options.exposureChecks, hooks);
+      const httpDiscovery = portScan.then(scan => discoverHttpEndpoints(target, scan, this.http, hooks));
+
       // Run reconnaissance tasks in parallel
-      const [subdomains, openPorts, dnsRecords, webInfo, whoisData] = await Promise.allSettled([
-        this.enumerateSubdomains(target),
-        this.scanPorts(target),
-        this.getDNSRecords(target),
-        this.getWebInfo(target),
+      const [wildcard, zoneTransfers, recursive, certificates, permutations, reverseLookups, , takeovers, openPorts, dnsRecords, webInfo, whoisData, emailSecurity, udpPorts, httpEndpoints] = await Promise.allSettled([
+        enumeration,
+        zoneTransfer,
+        recursion,
+        lateCertificateHarvest, // every summary from both harvests
+        permutation,
+        reverseDns,
+        profiling,
+        takeoverCheck,
+        portScan,
+        getDNSRecords(this.resolver, target),
+        web,
         this.getWhoisData(target),
+        this.checkEmailSecurity(target),
+        this.scanUdpPorts(target, options.udp, hooks),
+        httpDiscovery,
       ]);
 
-      if (subdomains.status === 'fulfilled') {
-        results.subdomains = subdomains.value;
+      results.subdomains = registry.values();
+
+      if (wildcard.status === 'fulfilled') {
+        results.wildcard = wildcard.value;
+      }
+
+      if (zoneTransfers.status === 'fulfilled') {
+        results.zoneTransfers = zoneTransfers.value.summary;
+        results.findings.push(...zoneTransfers.value.findings);
+      }
+
+      if (recursive.status === 'fulfilled' && recursive.value) {
+        results.recursion = recursive.value.levels;
+        results.zoneTransfers.push(...recursive.value.zoneTransfers);
+        results.findings.push(...recursive.value.findings);
+      }
+
+      if (certificates.status === 'fulfilled') {
+        results.certificates = certificates.value;
+      }
+
+      if (permutations.status === 'fulfilled') {
+        results.permutations = permutations.value;
+      }
+
+      if (reverseLookups.status === 'fulfilled' && reverseLookups.value) {
+        results.reverseDns = { lookups: reverseLookups.value.lookups, hits: reverseLookups.value.hits };
+        results.relatedAssets = reverseLookups.value.relatedAssets;
+      }
+
+      if (takeovers.status === 'fulfilled') {
+        results.takeovers = takeovers.value.checks;
+        results.findings.push(...takeovers.value.findings);
+      } else {
+        console.error('Subdomain takeover check error:', takeovers.reason);
       }
 
       if (openPorts.status === 'fulfilled') {
-        results.openPorts = openPorts.value;
+        this.applyPortScan(results, openPorts.value, options);
+      }
+
+      if (httpEndpoints.status === 'fulfilled') {
+        results.httpEndpoints = httpEndpoints.value;
+      } else {
+        console.error('HTTP endpoint discovery error:', httpEndpoints.reason);
+      }
+
+      if (udpPorts.status === 'fulfilled' && udpPorts.value) {
+        this.applyUdpScan(results, udpPorts.value, options);
+      } else if (udpPorts.status === 'rejected') {
+        console.error('UDP probing error:', udpPorts.reason);
       }
 
       if (dnsRecords.status === 'fulfilled') {
-        results.dnsRecords = dnsRecords.value;
+        results.dnsRecords = dnsRecords.value.records;
+        results.dnssec = dnsRecords.value.dnssec;
       }
 
       if (webInfo.status === 'fulfilled') {
         results.headers = webInfo.value.headers;
         results.statusCode = webInfo.value.statusCode;
+        results.redirectChain = webInfo.value.redirectChain;
         results.technologies = webInfo.value.technologies;
-        results.certificates = webInfo.value.certificates;
+        this.recordAddressFamilies(results, webInfo.value.families);
+        results.findings.push(...webInfo.value.findings);
       }
 
       if (whoisData.status === 'fulfilled') {
         results.whoisData = whoisData.value;
       }
 
+      if (emailSecurity.status === 'fulfilled' && emailSecurity.value) {
+        results.emailSecurity = emailSecurity.value.report;
+        results.findings.push(...emailSecurity.value.findings);
+      }
+
+      this.mergeServiceTechnologies(results);
+
     } catch (error) {
       console.error('Reconnaissance error:', error);
       throw new Error('Failed to perform reconnaissance');
@@ -84,252 +418,308 @@ export class ReconnaissanceService {
     return results;
   }
 
-  private async enumerateSubdomains(target: string): Promise<string[]> {
-    const subdomains: string[] = [];
-    
-    try {
-      // Common subdomain list
-      const commonSubdomains = [
-        'www', 'mail', 'ftp', 'admin', 'api', 'dev', 'test', 'staging', 
-        'blog', 'shop', 'secure', 'vpn', 'remote', 'support', 'help',
-        'cdn', 'static', 'media', 'assets', 'images', 'video', 'app',
-        'mobile', 'beta', 'alpha', 'demo', 'portal', 'dashboard'
-      ];
-
-      // Test each subdomain
-      for (const sub of commonSubdomains) {
-        const subdomain = `${sub}.${target}`;
-        try {
-          await this.resolveDNS(subdomain);
-          subdomains.push(subdomain);
-        } catch (error) {
-          // Subdomain doesn't exist, continue
-        }
-      }
-
-    } catch (error) {
-      console.error('Subdomain enumeration error:', error);
-    }
-
-    return subdomains;
-  }
-
-  private async resolveDNS(hostname: string): Promise<void> {
-    return new Promise((resolve, reject) => {
-      dns.lookup(hostname, (err) => {
-        if (err) reject(err);
-        else resolve();
-      });
+  // CIDR and dash-range targets: TCP-ping every address, then run the per-host pipeline on each live one
+  async performRangeReconnaissance(
+    target: string,
+    options: ScanOptions = scanOptionsSchema.parse({}),
+    hooks: ReconHooks = {}
+  ): Promise<RangeReconResults> {
+    // One scanner for discovery and every host, so options.ports.rate and concurrency cap the whole range scan
+    const scanner = new ConnectScanner({ ...options.ports, lookup: this.resolver.lookup });
+    const discovery = await this.discoverHosts(target, options, scanner, hooks);
+    let completed = 0;
+
+    const hosts = await mapWithConcurrency(discovery.live, options.discovery.hostConcurrency, async ({ address }) => {
+      const results = await this.reconHost(address, options, scanner);
+      hooks.onProgress?.('hosts', ++completed, discovery.live.length);
+      return results;
     });
-  }
 
-  private async scanPorts(target: string): Promise<number[]> {
-    const openPorts: number[] = [];
-    const commonPorts = [21, 22, 23, 25, 53, 80, 110, 143, 443, 993, 995, 8080, 8443, 3000, 3306, 5432, 6379, 27017];
-
-    const portPromises = commonPorts.map(port => this.checkPort(target, port));
-    const results = await Promise.allSettled(portPromises);
+    return { target, discovery, hosts };
+  }
 
-    results.forEach((result, index) => {
-      if (result.status === 'fulfilled' && result.value) {
-        openPorts.push(commonPorts[index]);
+  // A host is live when any probe port accepts or refuses a connection; a reset proves something answered
+  private async discoverHosts(target: string, options: ScanOptions, scanner: ConnectScanner, hooks: ReconHooks): Promise<HostDiscoveryResult> {
+    const addresses = expandTargetRange(target);
+    const probePorts = parsePortSpec(options.discovery.ports);
+    const results = await scanner.scan(
+      addresses.map(host => ({ host, ports: probePorts })),
+      stats => hooks.onProgress?.('host discovery', stats.completed, stats.total)
+    );
+
+    const live = new Map<string, HostDiscoveryResult['live'][number]>();
+    results.forEach(result => {
+      if (result.state === 'filtered') return;
+      const known = live.get(result.host);
+      if (!known || (known.state === 'closed' && result.state === 'open')) {
+        live.set(result.host, { address: result.host, port: result.port, state: result.state, rtt: result.rtt });
       }
     });
 
-    return openPorts;
+    return {
+      addresses: addresses.length,
+      probePorts,
+      live: Array.from(live.values()).sort((a, b) => ipv4ToNumber(a.address) - ipv4ToNumber(b.address)),
+    };
   }
 
-  private async checkPort(target: string, port: number): Promise<boolean> {
-    return new Promise((resolve) => {
-      const socket = new net.Socket();
-      const timeout = 3000;
+  // Per-host pipeline for live addresses in a range: ports, services, HTTP endpoints, UDP and PTR names. The
+  // name-based stages (subdomains, certificates, WHOIS, email security) don't apply to bare addresses, and progress
+  // is reported per host rather than per port since several hosts run at once.
+  private async reconHost(address: string, options: ScanOptions, scanner: ConnectScanner): Promise<ReconResults> {
+    const results = emptyResults(address);
+    const portScan = this.scanPorts(address, options.ports, options.exposureChecks, {}, scanner);
+    const httpDiscovery = portScan.then(scan => discoverHttpEndpoints(address, scan, this.http, {}));
+
+    const [openPorts, udpPorts, httpEndpoints, hostnames] = await Promise.allSettled([
+      portScan,
+      this.scanUdpPorts(address, options.udp, {}),
+      httpDiscovery,
+      getDNSRecord(this.resolver, address, 'PTR'),
+    ]);
+
+    if (openPorts.status === 'fulfilled') {
+      this.applyPortScan(results, openPorts.value, options);
+    } else {
+      console.error(`Port scan of ${address} failed:`, openPorts.reason);
+    }
 
-      socket.setTimeout(timeout);
-      socket.on('connect', () => {
-        socket.destroy();
-        resolve(true);
-      });
+    if (httpEndpoints.status === 'fulfilled') {
+      results.httpEndpoints = httpEndpoints.value;
+    }
 
-      socket.on('timeout', () => {
-        socket.destroy();
-        resolve(false);
-      });
+    if (udpPorts.status === 'fulfilled' && udpPorts.value) {
+      this.applyUdpScan(results, udpPorts.value, options);
+    }
 
-      socket.on('error', () => {
-        resolve(false);
-      });
+    if (hostnames.status === 'fulfilled') {
+      results.relatedAssets = hostnames.value.map(hostname => ({ hostname, ip: address, source: 'ptr' as const }));
+    }
 
-      socket.connect(port, target);
-    });
+    this.mergeServiceTechnologies(results);
+    return results;
   }
 
-  private async getDNSRecords(target: string): Promise<{ type: string; value: string }[]> {
-    const records: { type: string; value: string }[] = [];
-
-    try {
-      // A records
-      const aRecords = await this.getDNSRecord(target, 'A');
-      aRecords.forEach(record => records.push({ type: 'A', value: record }));
+  private applyPortScan(results: ReconResults, scan: PortScanOutcome, options: ScanOptions): void {
+    results.openPorts = scan.openPorts;
+    this.recordAddressFamilies(results, scan.families);
+    results.portScan = {
+      spec: options.ports.spec,
+      tested: formatPortRanges(scan.tested),
+      testedCount: scan.tested.length,
+      address: scan.address,
+    };
+    results.services = scan.services;
+    results.sshAudits = scan.sshAudits;
+    results.exposureChecks = scan.exposureChecks;
+    results.findings.push(...scan.findings);
+  }
 
-      // AAAA records
-      const aaaaRecords = await this.getDNSRecord(target, 'AAAA');
-      aaaaRecords.forEach(record => records.push({ type: 'AAAA', value: record }));
+  private recordAddressFamilies(results: ReconResults, families: AddressFamilyResult[]): void {
+    families.forEach(entry => {
+      const known = results.addressFamilies.find(family => family.address === entry.address);
+      if (known) {
+        Object.assign(known, entry);
+      } else {
+        results.addressFamilies.push({ ...entry });
+      }
+    });
+  }
 
-      // MX records
-      const mxRecords = await this.getDNSRecord(target, 'MX');
-      mxRecords.forEach(record => records.push({ type: 'MX', value: record }));
+  private applyUdpScan(results: ReconResults, udp: { ports: UdpPortResult[]; findings: ReconFinding[] }, options: ScanOptions): void {
+    results.udpScan = { spec: options.udp.spec, ports: udp.ports };
+    results.findings.push(...udp.findings);
+    // Answered UDP probes are services like any other; ports that stayed silent are only listed in udpScan
+    udp.ports.filter(port => port.state === 'open').forEach(({ state, ...port }) => {
+      results.services.push({ ...port, service: port.service || 'unknown', method: 'probe' });
+    });
+  }
 
-      // TXT records
-      const txtRecords = await this.getDNSRecord(target, 'TXT');
-      txtRecords.forEach(record => records.push({ type: 'TXT', value: record }));
+  private async enumerateSubdomains(
+    target: string,
+    options: ScanOptions['enumeration'],
+    registry: SubdomainRegistry,
+    hooks: ReconHooks
+  ): Promise<WildcardInfo> {
+    let wildcard: WildcardInfo = { detected: false, addresses: [] };
+    
+    try {
+      wildcard = await detectWildcard(this.resolver, target);
+      if (wildcard.detected) {
+        hooks.onWildcard?.(wildcard);
+      }
 
-      // NS records
-      const nsRecords = await this.getDNSRecord(target, 'NS');
-      nsRecords.forEach(record => records.push({ type: 'NS', value: record }));
+      const wordlist = await resolveWordlist(options);
+      const candidates = wordlist.map((word): SubdomainCandidate => ({ name: `${word}.${target}`, source: 'bruteforce' }));
+      await resolveCandidates(this.resolver, candidates, wildcard, options, registry, hooks, 'enumeration');
 
     } catch (error) {
-      console.error('DNS lookup error:', error);
+      console.error('Subdomain enumeration error:', error);
     }
 
-    return records;
+    return wildcard;
   }
 
-  private async getDNSRecord(target: string, type: string): Promise<string[]> {
-    return new Promise((resolve, reject) => {
-      const records: string[] = [];
-
-      switch (type) {
-        case 'A':
-          dns.resolve4(target, (err, addresses) => {
-            if (err) reject(err);
-            else resolve(addresses);
-          });
-          break;
-        case 'AAAA':
-          dns.resolve6(target, (err, addresses) => {
-            if (err) reject(err);
-            else resolve(addresses);
-          });
-          break;
-        case 'MX':
-          dns.resolveMx(target, (err, addresses) => {
-            if (err) reject(err);
-            else resolve(addresses.map(mx => `${mx.priority} ${mx.exchange}`));
-          });
-          break;
-        case 'TXT':
-          dns.resolveTxt(target, (err, addresses) => {
-            if (err) reject(err);
-            else resolve(addresses.map(txt => txt.join('')));
-          });
-          break;
-        case 'NS':
-          dns.resolveNs(target, (err, addresses) => {
-            if (err) reject(err);
-            else resolve(addresses);
-          });
-          break;
-        default:
-          reject(new Error(`Unsupported DNS record type: ${type}`));
-      }
-    });
+  private async fingerprintPage(url: string, page: FetchedPage): Promise<DetectedTechnology[]> {
+    this.technologyRules = this.technologyRules || loadTechnologyRules();
+    return detectTechnologies(await this.technologyRules, extractSignals(url, page.headers, page.body));
   }
 
-  private async getWebInfo(target: string): Promise<{
-    headers: { [key: string]: string };
-    statusCode: number;
-    technologies: { name: string; version?: string; category: string }[];
-    certificates?: any;
-  }> {
-    return new Promise((resolve, reject) => {
-      const options = {
-        hostname: target,
-        port: 443,
-        path: '/',
-        method: 'GET',
-        timeout: 10000,
-        rejectUnauthorized: false,
-      };
-
-      const req = https.request(options, (res) => {
-        const headers = res.headers as { [key: string]: string };
-        const statusCode = res.statusCode || 0;
-        const technologies = this.detectTechnologies(headers);
-        const certificates = (res.socket as any).getPeerCertificate?.();
-
-        resolve({
-          headers,
-          statusCode,
-          technologies,
-          certificates,
-        });
+  private async scanPorts(
+    target: string,
+    options: ScanOptions['ports'],
+    exposureChecks: ScanOptions['exposureChecks'],
+    hooks: ReconHooks,
+    scanner = new ConnectScanner({ ...options, lookup: this.resolver.lookup }) // shared when hosts of a range scan run at once
+  ): Promise<PortScanOutcome> {
+    const ports = parsePortSpec(options.spec);
+    // Resolve once up front rather than once per connection; dual-stack names are scanned once per address family
+    const addresses = net.isIP(target) ? [target] : await resolveAddressFamilies(this.resolver, target);
+    const results = await scanner.scan(addresses.map(host => ({ host, ports })), hooks.onPortScanProgress);
+
+    const families = addresses.map((address): AddressFamilyResult => ({
+      family: net.isIPv6(address) ? 'ipv6' : 'ipv4',
+      address,
+      openPorts: results.filter(result => result.host === address && result.state === 'open').map(result => result.port).sort((a, b) => a - b),
+    }));
+    const open = new Set(results.filter(result => result.state === 'open').map(result => result.port));
+    const openPorts = ports.filter(port => open.has(port));
+    // Each port is identified and audited on the first family it is open on
+    const addressOf = (port: number) => families.find(family => family.openPorts!.includes(port))!.address;
+    let services: ServiceInfo[] = [];
+
+    if (options.serviceDetection && openPorts.length > 0) {
+      // Each port may take several probe connections, so identification runs far narrower than the connect scan
+      let identified = 0;
+      services = await mapWithConcurrency(openPorts, Math.min(options.concurrency, 20), async (port) => {
+        const address = addressOf(port);
+        const service = await identifyService(address, port, { servername: net.isIP(target) ? undefined : target });
+        hooks.onProgress?.('service detection', ++identified, openPorts.length);
+        return { ...service, address };
       });
+    }
 
-      req.on('error', (error) => {
-        // Try HTTP if HTTPS fails
-        const httpOptions = { ...options, port: 80 };
-        const httpReq = http.request(httpOptions, (res) => {
-          const headers = res.headers as { [key: string]: string };
-          const statusCode = res.statusCode || 0;
-          const technologies = this.detectTechnologies(headers);
-
-          resolve({
-            headers,
-            statusCode,
-            technologies,
-          });
-        });
-
-        httpReq.on('error', reject);
-        httpReq.setTimeout(10000, () => httpReq.abort());
-        httpReq.end();
-      });
+    const audits = await this.auditServices(addressOf, openPorts, services, exposureChecks);
+    if (families.length > 1) {
+      audits.findings.push(...compareFamilyPorts(target, families, results));
+    }
+    return { address: addresses[0], families, openPorts, tested: ports, services, ...audits };
+  }
 
-      req.setTimeout(10000, () => req.abort());
-      req.end();
+  // Service-specific analyzers for open ports; SSH runs on anything identified as SSH, or on 22 without detection.
+  // Unauthenticated-access checks run only for the services enabled in the scan options, on ports identified as
+  // that service or on its default port when detection couldn't tell.
+  private async auditServices(
+    addressOf: (port: number) => string,
+    openPorts: number[],
+    services: ServiceInfo[],
+    exposureOptions: ScanOptions['exposureChecks']
+  ): Promise<{ sshAudits: SshAudit[]; exposureChecks: ExposureCheck[]; findings: ReconFinding[] }> {
+    const serviceOn = (port: number) => services.find(candidate => candidate.port === port && candidate.protocol === 'tcp');
+    const sshPorts = openPorts.filter(port => {
+      const service = serviceOn(port);
+      return service ? service.service === 'ssh' && !service.tls : port === 22;
+    });
+    const audits: SshAudit[] = [];
+    const exposureChecks: ExposureCheck[] = [];
+    const findings: ReconFinding[] = [];
+
+    const exposureTargets: { service: ExposureService; port: number }[] = [];
+    (Object.keys(DEFAULT_EXPOSURE_PORTS) as ExposureService[]).filter(name => exposureOptions[name]).forEach(name => {
+      openPorts.forEach(port => {
+        const service = serviceOn(port)?.service;
+        const onDefaultPort = DEFAULT_EXPOSURE_PORTS[name].includes(port);
+        // Elasticsearch answers the generic HTTP probe, so on its default port it is identified as http
+        if (service === name || (onDefaultPort && (!service || service === 'unknown' || (name === 'elasticsearch' && service === 'http')))) {
+          exposureTargets.push({ service: name, port });
+        }
+      });
     });
-  }
 
-  private detectTechnologies(headers: { [key: string]: string }): { name: string; version?: string; category: string }[] {
-    const technologies: { name: string; version?: string; category: string }[] = [];
-
-    // Server detection
-    if (headers.server) {
-      const server = headers.server.toLowerCase();
-      if (server.includes('apache')) {
-        const version = server.match(/apache\/([^\s]+)/)?.[1];
-        technologies.push({ name: 'Apache', version, category: 'web_server' });
-      } else if (server.includes('nginx')) {
-        const version = server.match(/nginx\/([^\s]+)/)?.[1];
-        technologies.push({ name: 'Nginx', version, category: 'web_server' });
-      } else if (server.includes('iis')) {
-        const version = server.match(/iis\/([^\s]+)/)?.[1];
-        technologies.push({ name: 'IIS', version, category: 'web_server' });
+    await Promise.all(exposureTargets.map(async ({ service, port }) => {
+      try {
+        const result = await checkExposure(addressOf(port), service, port);
+        if (result.check) exposureChecks.push(result.check);
+        if (result.finding) findings.push(result.finding);
+      } catch (error) {
+        console.error(`${service} exposure check of ${addressOf(port)}:${port} failed:`, error);
       }
-    }
-
-    // Framework detection
-    if (headers['x-powered-by']) {
-      const poweredBy = headers['x-powered-by'].toLowerCase();
-      if (poweredBy.includes('php')) {
-        const version = poweredBy.match(/php\/([^\s]+)/)?.[1];
-        technologies.push({ name: 'PHP', version, category: 'framework' });
-      } else if (poweredBy.includes('asp.net')) {
-        technologies.push({ name: 'ASP.NET', category: 'framework' });
+    }));
+
+    await Promise.all(sshPorts.map(async (port) => {
+      try {
+        const result = await auditSsh(addressOf(port), port);
+        audits.push(result.audit);
+        findings.push(...result.findings);
+      } catch (error) {
+        console.error(`SSH audit of ${addressOf(port)}:${port} failed:`, error);
       }
+    }));
+
+    return { sshAudits: audits, exposureChecks, findings };
+  }
+
+  private async scanUdpPorts(
+    target: string,
+    options: ScanOptions['udp'],
+    hooks: ReconHooks
+  ): Promise<{ ports: UdpPortResult[]; findings: ReconFinding[] } | undefined> {
+    if (!options.enabled) {
+      return undefined;
     }
 
-    // Content Management System detection
-    if (headers['x-generator']) {
-      const generator = headers['x-generator'].toLowerCase();
-      if (generator.includes('wordpress')) {
-        technologies.push({ name: 'WordPress', category: 'cms' });
-      } else if (generator.includes('drupal')) {
-        technologies.push({ name: 'Drupal', category: 'cms' });
+    const ports = parsePortSpec(options.spec);
+    const host = net.isIP(target) ? target : (await resolveHost(this.resolver, target))[0];
+    const findings: ReconFinding[] = [];
+    let completed = 0;
+
+    // Kept narrow: silent ports cost a full timeout per attempt, and ICMP replies are rate-limited by most hosts
+    const results = await mapWithConcurrency(ports, 10, async (port) => {
+      const { result, findings: portFindings } = await probeUdpPort(host, port, options);
+      findings.push(...portFindings);
+      hooks.onProgress?.('udp scan', ++completed, ports.length);
+      return result;
+    });
+
+    return { ports: results, findings };
+  }
+
+  // Products identified on open ports and extra endpoints join the header-based detections, so they are stored and
+  // matched against CVEs. A product named in a banner or probe reply is an identification rather than an inference,
+  // so it is fully confident.
+  private mergeServiceTechnologies(results: ReconResults): void {
+    const found = results.services
+      .filter(service => service.product)
+      .map((service): DetectedTechnology => ({
+        name: service.product!,
+        version: service.version,
+        category: serviceCategory(service.service),
+        confidence: 100,
+      }));
+    results.httpEndpoints.forEach(endpoint => found.push(...endpoint.technologies));
+
+    found.forEach(technology => {
+      const existing = results.technologies.find(known => known.name.toLowerCase() === technology.name.toLowerCase());
+      if (existing && (!existing.version || !technology.version || existing.version === technology.version)) {
+        existing.version = existing.version || technology.version;
+        existing.confidence = Math.max(existing.confidence, technology.confidence);
+        return;
       }
+      results.technologies.push(technology);
+    });
+  }
+
+  private async checkEmailSecurity(target: string) {
+    // SPF, DMARC and friends only exist on names, not on bare IP targets
+    if (net.isIP(target)) {
+      return undefined;
     }
 
-    return technologies;
+    return analyzeEmailSecurity(target, {
+      txt: (name) => getDNSRecord(this.resolver, name, 'TXT'),
+      mx: (name) => getDNSRecord(this.resolver, name, 'MX'),
+      lookup: this.resolver.lookup,
+    });
   }
 
   private async getWhoisData(target: string): Promise<any> {
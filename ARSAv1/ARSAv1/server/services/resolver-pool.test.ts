@@ -0,0 +1,120 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import dns from 'dns';
+import { ResolverPool } from './resolver-pool';
+import { recordsOfType } from './dns-wire';
+import { scanOptionsSchema } from '@shared/schema';
+import { startTcpStandIn, startUdpStandIn, type StandIn, type StandInAnswer } from './test-support/dns-stand-in';
+
+const healthy = (): StandInAnswer => ({ answers: [{ name: 'www.example.test', type: 'A', data: '192.0.2.10' }] });
+
+async function withStandIns(handlers: Array<() => StandInAnswer | Buffer | undefined>, run: (servers: StandIn[]) => Promise<void>) {
+  const servers = await Promise.all(handlers.map(handler => startUdpStandIn(handler)));
+  try {
+    await run(servers);
+  } finally {
+    await Promise.all(servers.map(server => server.close()));
+  }
+}
+
+const addresses = (servers: StandIn[]) => servers.map(server => `127.0.0.1:${server.port}`);
+
+test('queries rotate across the configured servers', async () => {
+  await withStandIns([healthy, healthy], async servers => {
+    const pool = new ResolverPool({ servers: addresses(servers), timeout: 1000 });
+
+    for (let i = 0; i < 4; i++) {
+      assert.deepEqual(await pool.resolve('www.example.test', 'A'), ['192.0.2.10']);
+    }
+    assert.deepEqual(servers.map(server => server.questions.length), [2, 2]);
+  });
+});
+
+test('SERVFAIL, REFUSED and timeouts move on to the next server', async () => {
+  await withStandIns([() => ({ rcode: 2 }), () => ({ rcode: 5 }), () => undefined, healthy], async servers => {
+    const pool = new ResolverPool({ servers: addresses(servers), timeout: 300, retries: 3 });
+
+    assert.deepEqual(await pool.resolve('www.example.test', 'A'), ['192.0.2.10']);
+    assert.deepEqual(servers.map(server => server.questions.length), [1, 1, 1, 1]);
+  });
+
+  await withStandIns([() => ({ rcode: 5 }), healthy], async servers => {
+    const pool = new ResolverPool({ servers: addresses(servers), timeout: 300, retries: 1 });
+
+    const response = await pool.query('www.example.test', 'A');
+    assert.deepEqual(recordsOfType(response.answers, 'A'), ['192.0.2.10']);
+    assert.deepEqual(servers.map(server => server.questions.length), [1, 1]);
+  });
+});
+
+test('the last resolver error surfaces once retries run out', async () => {
+  await withStandIns([() => ({ rcode: 2 }), healthy], async servers => {
+    const pool = new ResolverPool({ servers: addresses(servers), timeout: 300, retries: 0 });
+
+    await assert.rejects(pool.resolve('www.example.test', 'A'), { code: dns.SERVFAIL });
+    assert.equal(servers[1].questions.length, 0);
+  });
+});
+
+test('raw queries report timeouts as timeouts and keep the error of a broken answer', async () => {
+  await withStandIns([() => undefined, healthy], async servers => {
+    const pool = new ResolverPool({ servers: addresses(servers), timeout: 200, retries: 0 });
+
+    await assert.rejects(pool.query('www.example.test', 'A'), { code: dns.TIMEOUT });
+  });
+
+  // Two bytes after the ID: too short for a DNS header
+  await withStandIns([() => Buffer.from([0x84, 0x80]), healthy], async servers => {
+    const pool = new ResolverPool({ servers: addresses(servers), timeout: 1000, retries: 1 });
+
+    await assert.rejects(pool.query('www.example.test', 'A'), (error: NodeJS.ErrnoException) =>
+      /shorter than header/.test(error.message) && error.code === undefined);
+    assert.equal(servers[1].questions.length, 0);
+  });
+
+  // Truncated over UDP with nothing listening on TCP: the refusal keeps its code, and the next query rotates on
+  await withStandIns([() => ({ truncated: true }), healthy], async servers => {
+    const pool = new ResolverPool({ servers: addresses(servers), timeout: 1000, retries: 0 });
+
+    await assert.rejects(pool.query('www.example.test', 'A'), { code: dns.CONNREFUSED });
+    const response = await pool.query('www.example.test', 'A');
+    assert.deepEqual(recordsOfType(response.answers, 'A'), ['192.0.2.10']);
+  });
+
+  // Truncated over UDP, then the TCP retry is cut off mid-message
+  await withStandIns([() => ({ truncated: true }), healthy], async servers => {
+    const tcp = await startTcpStandIn(() => Buffer.from([0, 100, 1, 2, 3]), servers[0].port);
+    try {
+      const pool = new ResolverPool({ servers: addresses(servers), timeout: 1000, retries: 1 });
+
+      await assert.rejects(pool.query('big.example.test', 'TXT'), (error: NodeJS.ErrnoException) =>
+        /closed the connection before a complete response/.test(error.message) && error.code === undefined);
+    } finally {
+      await tcp.close();
+    }
+  });
+});
+
+test('NXDOMAIN is an answer, not a resolver failure, and is not retried', async () => {
+  await withStandIns([() => ({ rcode: 3 }), () => ({ rcode: 3 })], async servers => {
+    const pool = new ResolverPool({ servers: addresses(servers), timeout: 300, retries: 2 });
+
+    await assert.rejects(pool.resolve('missing.example.test', 'A'), { code: dns.NOTFOUND });
+    assert.deepEqual(servers.map(server => server.questions.length), [1, 0]);
+
+    assert.equal((await pool.query('missing.example.test', 'A')).rcode, 3);
+    assert.deepEqual(servers.map(server => server.questions.length), [1, 1]);
+  });
+});
+
+test('scan options only accept server entries the pool can use', () => {
+  const accepts = (server: string) => scanOptionsSchema.safeParse({ dns: { servers: [server] } }).success;
+
+  for (const server of ['1.1.1.1', '10.0.0.53:5353', '2001:db8::1', '[2001:db8::1]:53', '[::1]']) {
+    assert.ok(accepts(server), server);
+    assert.doesNotThrow(() => new ResolverPool({ servers: [server] }), server);
+  }
+  for (const server of ['999.1.1.1', ':', '1.2.3.4:99999', '1.2.3.4:0', '::::', '[1.2.3.4]:53', 'dns.example.test']) {
+    assert.equal(accepts(server), false, server);
+  }
+});
@@ -0,0 +1,137 @@
+import dns from 'dns';
+import net from 'net';
+import { encodeQuery, exchange, type DnsMessage, type QueryOptions } from './dns-wire';
+
+export interface ResolverPoolOptions {
+  servers?: string[]; // "1.1.1.1", "10.0.0.53:5353", "2001:db8::1" or "[2001:db8::1]:5353"
+  timeout?: number; // per attempt, in milliseconds
+  retries?: number; // extra attempts after the first, each on the next server
+}
+
+// Process-wide defaults; a scan's own options override them
+const DEFAULT_SERVERS = (process.env.DNS_RESOLVERS || '').split(',').map(server => server.trim()).filter(Boolean);
+const DEFAULT_TIMEOUT = parseInt(process.env.DNS_TIMEOUT_MS || '') || 5000;
+const DEFAULT_RETRIES = process.env.DNS_RETRIES ? parseInt(process.env.DNS_RETRIES) : 2;
+
+// Failures that say something about the resolver rather than the name; these are retried on the next server
+const RETRYABLE_ERRORS: string[] = [dns.TIMEOUT, dns.CONNREFUSED, dns.SERVFAIL, dns.REFUSED];
+const RETRYABLE_RCODES = [2, 5]; // SERVFAIL, REFUSED
+
+function parseServerAddress(entry: string): { host: string; port: number } {
+  const bracketed = entry.match(/^\[([^\]]+)\](?::(\d+))?$/);
+  if (bracketed) {
+    return { host: bracketed[1], port: bracketed[2] ? parseInt(bracketed[2]) : 53 };
+  }
+  const withPort = entry.match(/^([^:]+):(\d+)$/);
+  if (withPort) {
+    return { host: withPort[1], port: parseInt(withPort[2]) };
+  }
+  return { host: entry, port: 53 };
+}
+
+// Round-robins queries across a set of resolvers, with per-attempt timeouts and retries on resolver failures
+export class ResolverPool {
+  readonly servers: string[];
+  readonly timeout: number;
+  readonly retries: number;
+  private resolvers: dns.Resolver[];
+  private next = 0;
+
+  constructor(options: ResolverPoolOptions = {}) {
+    this.servers = options.servers?.length ? options.servers : DEFAULT_SERVERS.length ? DEFAULT_SERVERS : dns.getServers();
+    this.timeout = options.timeout ?? DEFAULT_TIMEOUT;
+    this.retries = options.retries ?? DEFAULT_RETRIES;
+
+    // One single-try c-ares channel per server, so timeouts, retries and rotation are all decided here
+    this.resolvers = this.servers.map(server => {
+      const resolver = new dns.Resolver({ timeout: this.timeout, tries: 1 });
+      resolver.setServers([server]);
+      return resolver;
+    });
+  }
+
+  private async withRetries<T>(attempt: (index: number) => Promise<T>): Promise<T> {
+    if (this.servers.length === 0) {
+      throw new Error('No DNS resolvers configured');
+    }
+
+    let lastError: unknown;
+    for (let i = 0; i <= this.retries; i++) {
+      const index = this.next;
+      this.next = (this.next + 1) % this.servers.length;
+
+      try {
+        return await attempt(index);
+      } catch (error) {
+        lastError = error;
+        if (!RETRYABLE_ERRORS.includes((error as NodeJS.ErrnoException).code || '')) {
+          throw error;
+        }
+      }
+    }
+    throw lastError;
+  }
+
+  resolve(hostname: string, rrtype: string): Promise<any> {
+    return this.withRetries(index => new Promise((resolve, reject) => {
+      this.resolvers[index].resolve(hostname, rrtype, (err: NodeJS.ErrnoException | null, records: any) => {
+        if (err) reject(err);
+        else resolve(records);
+      });
+    }));
+  }
+
+  reverse(ip: string): Promise<string[]> {
+    return this.withRetries(index => new Promise((resolve, reject) => {
+      this.resolvers[index].reverse(ip, (err, hostnames) => {
+        if (err) reject(err);
+        else resolve(hostnames);
+      });
+    }));
+  }
+
+  // Raw query for the types c-ares can't handle; timeouts, refused connections and SERVFAIL/REFUSED move on to the
+  // next server, while malformed or cut-off responses surface with their own error
+  query(name: string, type: string, options: QueryOptions = {}): Promise<DnsMessage> {
+    return this.withRetries(async index => {
+      const { host, port } = parseServerAddress(this.servers[index]);
+      const response = await exchange(encodeQuery(name, type, options), host, { port, timeout: this.timeout });
+
+      if (RETRYABLE_RCODES.includes(response.rcode)) {
+        throw Object.assign(new Error(`${type} query for ${name} failed on ${this.servers[index]}`), {
+          code: response.rcode === 2 ? dns.SERVFAIL : dns.REFUSED,
+        });
+      }
+      return response;
+    });
+  }
+
+  // Drop-in for the `lookup` option of net, tls, http and https so connections resolve through the pool too
+  lookup: net.LookupFunction = (hostname, options, callback) => {
+    const family = net.isIP(hostname);
+    if (family) {
+      return options.all ? callback(null, [{ address: hostname, family }]) : callback(null, hostname, family);
+    }
+
+    const requested = options.family === 'IPv4' ? 4 : options.family === 'IPv6' ? 6 : options.family;
+    const types = requested === 4 ? ['A'] : requested === 6 ? ['AAAA'] : ['A', 'AAAA'];
+    Promise.all(types.map(type =>
+      this.resolve(hostname, type).then(
+        (addresses: string[]) => ({
+          addresses: addresses.map((address): dns.LookupAddress => ({ address, family: type === 'A' ? 4 : 6 })),
+          error: undefined as NodeJS.ErrnoException | undefined,
+        }),
+        (error: NodeJS.ErrnoException) => ({ addresses: [] as dns.LookupAddress[], error })
+      )
+    )).then(answers => {
+      const addresses = answers.reduce((all, answer) => all.concat(answer.addresses), [] as dns.LookupAddress[]);
+      if (addresses.length === 0) {
+        const error = answers[0].error || Object.assign(new Error(`No addresses for ${hostname}`), { code: dns.NOTFOUND });
+        return callback(error, '');
+      }
+
+      if (options.all) callback(null, addresses);
+      else callback(null, addresses[0].address, addresses[0].family);
+    });
+  };
+}
@@ -0,0 +1,67 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import net from 'net';
+import { identifyService, serviceCategory } from './service-probes';
+
+// A local service on a random port, so no probe is picked by port number and every step has to run in order
+async function withServer(onConnection: (socket: net.Socket) => void, run: (port: number) => Promise<void>) {
+  const sockets = new Set<net.Socket>();
+  const server = net.createServer(socket => {
+    sockets.add(socket);
+    socket.on('error', () => undefined);
+    socket.on('close', () => sockets.delete(socket));
+    onConnection(socket);
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  try {
+    await run((server.address() as net.AddressInfo).port);
+  } finally {
+    sockets.forEach(socket => socket.destroy());
+    await new Promise(resolve => server.close(resolve));
+  }
+}
+
+const probeOptions = { timeout: 500 };
+
+test('services that talk first are identified from their banner', async () => {
+  await withServer(socket => socket.write('SSH-2.0-OpenSSH_9.6p1 Ubuntu-3ubuntu13\r\n'), async port => {
+    assert.deepEqual(await identifyService('127.0.0.1', port, probeOptions), {
+      port, protocol: 'tcp', method: 'banner', service: 'ssh', product: 'OpenSSH', version: '9.6p1',
+      banner: 'SSH-2.0-OpenSSH_9.6p1 Ubuntu-3ubuntu13',
+    });
+  });
+
+  // MySQL greets with a binary handshake: length, sequence id, protocol 10 and a NUL-terminated version
+  const version = Buffer.from('10.11.6-MariaDB-0+deb12u1\0', 'latin1');
+  const handshake = Buffer.concat([Buffer.from([version.length + 1, 0, 0, 0, 0x0a]), version]);
+  await withServer(socket => socket.write(handshake), async port => {
+    const service = await identifyService('127.0.0.1', port, probeOptions);
+    assert.deepEqual([service.service, service.product, service.version], ['mysql', 'MariaDB', '10.11.6']);
+  });
+});
+
+test('silent services are identified by the client-first probes', async () => {
+  await withServer(socket => socket.once('data', () => {
+    socket.end('HTTP/1.1 200 OK\r\nServer: nginx/1.25.3\r\nContent-Length: 0\r\n\r\n');
+  }), async port => {
+    const service = await identifyService('127.0.0.1', port, probeOptions);
+    assert.deepEqual([service.method, service.service, service.product, service.version], ['probe', 'http', 'nginx', '1.25.3']);
+  });
+
+  await withServer(socket => socket.on('data', data => {
+    socket.write(data.toString('latin1').includes('PING') ? '+PONG\r\n' : '-ERR unknown command\r\n');
+  }), async port => {
+    const service = await identifyService('127.0.0.1', port, probeOptions);
+    assert.deepEqual([service.method, service.service, service.product], ['probe', 'redis', 'Redis']);
+  });
+});
+
+test('unidentified services fall back to the port assignment and keep any banner', async () => {
+  await withServer(socket => socket.end('hello\r\n'), async port => {
+    assert.deepEqual(await identifyService('127.0.0.1', port, probeOptions),
+      { port, protocol: 'tcp', service: 'unknown', banner: 'hello', method: 'port' });
+  });
+
+  assert.equal(serviceCategory('postgresql'), 'database');
+  assert.equal(serviceCategory('unknown'), 'network_service');
+});
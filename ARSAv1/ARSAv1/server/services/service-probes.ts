@@ -0,0 +1,325 @@
+import net from 'net';
+import tls from 'tls';
+
+// Identifies what listens on an open TCP port from its banner or from safe, read-only protocol probes
+
+export interface ServiceInfo {
+  port: number;
+  protocol: 'tcp' | 'udp';
+  service: string; // e.g. 'ssh', 'http', 'smtp'; 'unknown' when nothing matched
+  product?: string;
+  version?: string;
+  banner?: string; // what the service sent back, printable characters only
+  tls?: boolean; // the service spoke TLS; `service` names the protocol inside
+  method: 'banner' | 'probe' | 'port'; // 'port' means only the well-known port assignment was used
+  address?: string; // the scanned address that answered, for dual-stack targets scanned on IPv4 and IPv6
+}
+
+export interface ProbeOptions {
+  timeout?: number; // per connection
+  servername?: string; // SNI and Host header; defaults to the address
+}
+
+type Identification = Omit<ServiceInfo, 'port' | 'protocol' | 'method'>;
+
+const MAX_RESPONSE_BYTES = 4096;
+const IDLE_AFTER_DATA_MS = 300;
+
+// Well-known assignments, used only when neither the banner nor a probe identifies the service
+const PORT_HINTS: { [port: number]: string } = {
+  21: 'ftp', 22: 'ssh', 23: 'telnet', 25: 'smtp', 53: 'domain', 80: 'http', 110: 'pop3', 111: 'rpcbind',
+  135: 'msrpc', 139: 'netbios-ssn', 143: 'imap', 389: 'ldap', 443: 'http', 445: 'microsoft-ds', 465: 'smtp',
+  587: 'smtp', 636: 'ldap', 993: 'imap', 995: 'pop3', 1433: 'ms-sql', 1521: 'oracle', 2049: 'nfs', 3000: 'http',
+  3306: 'mysql', 3389: 'rdp', 5432: 'postgresql', 5900: 'vnc', 6379: 'redis', 8000: 'http', 8080: 'http',
+  8443: 'http', 9200: 'elasticsearch', 11211: 'memcached', 27017: 'mongodb',
+};
+
+const SERVICE_CATEGORIES: { [service: string]: string } = {
+  http: 'web_server',
+  ssh: 'remote_access',
+  telnet: 'remote_access',
+  rdp: 'remote_access',
+  vnc: 'remote_access',
+  ftp: 'file_transfer',
+  smtp: 'mail_server',
+  pop3: 'mail_server',
+  imap: 'mail_server',
+  mysql: 'database',
+  postgresql: 'database',
+  redis: 'database',
+  memcached: 'database',
+  mongodb: 'database',
+  elasticsearch: 'database',
+  'ms-sql': 'database',
+  oracle: 'database',
+};
+
+export function serviceCategory(service: string): string {
+  return SERVICE_CATEGORIES[service] || 'network_service';
+}
+
+// Text banners, most specific first; `product` is fixed, or taken from the capture group when numeric
+const BANNER_SIGNATURES: { service: string; pattern: RegExp; product: string | number; version?: number }[] = [
+  { service: 'ssh', pattern: /^SSH-[\d.]+-OpenSSH_([\w.]+)/, product: 'OpenSSH', version: 1 },
+  { service: 'ssh', pattern: /^SSH-[\d.]+-dropbear_([\w.]+)/, product: 'Dropbear', version: 1 },
+  { service: 'ssh', pattern: /^SSH-[\d.]+-([^\s_-]+)(?:[_-]([\w.]+))?/, product: 1, version: 2 },
+  { service: 'ftp', pattern: /^220[- ].*vsFTPd ([\d.]+)/, product: 'vsftpd', version: 1 },
+  { service: 'ftp', pattern: /^220[- ].*ProFTPD ([\d.]+)/i, product: 'ProFTPD', version: 1 },
+  { service: 'ftp', pattern: /^220[- ].*Pure-FTPd/, product: 'Pure-FTPd' },
+  { service: 'ftp', pattern: /^220[- ].*FileZilla Server (?:version )?([\d.]+)/i, product: 'FileZilla Server', version: 1 },
+  { service: 'ftp', pattern: /^220[- ].*Microsoft FTP Service/, product: 'Microsoft ftpd' },
+  { service: 'smtp', pattern: /^220[- ].*ESMTP Postfix/, product: 'Postfix' },
+  { service: 'smtp', pattern: /^220[- ].*ESMTP Exim ([\d.]+)/, product: 'Exim', version: 1 },
+  { service: 'smtp', pattern: /^220[- ].*Sendmail ([\d.]+)/, product: 'Sendmail', version: 1 },
+  { service: 'smtp', pattern: /^220[- ].*Microsoft ESMTP MAIL Service(?:, Version: ([\d.]+))?/, product: 'Microsoft Exchange', version: 1 },
+  { service: 'smtp', pattern: /^220[- ].*(?:ESMTP|SMTP)/i, product: '' },
+  { service: 'ftp', pattern: /^220[- ].*FTP/i, product: '' },
+  { service: 'pop3', pattern: /^\+OK.*Dovecot/, product: 'Dovecot' },
+  { service: 'pop3', pattern: /^\+OK/, product: '' },
+  { service: 'imap', pattern: /^\* OK.*Dovecot/, product: 'Dovecot' },
+  { service: 'imap', pattern: /^\* OK.*Cyrus IMAP[^\d]*([\d.]+)/, product: 'Cyrus IMAP', version: 1 },
+  { service: 'imap', pattern: /^\* OK/, product: '' },
+  { service: 'vnc', pattern: /^RFB (\d{3}\.\d{3})/, product: 'VNC', version: 1 },
+];
+
+function printable(data: Buffer): string {
+  return data.toString('latin1').replace(/[^\x20-\x7e\r\n\t]/g, '.').trim().slice(0, 512);
+}
+
+function openConnection(host: string, port: number, timeout: number, servername?: string, secure = false): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = secure
+      // Certificates aren't validated: the handshake only has to succeed for the service to be identified
+      ? tls.connect({
+          host,
+          port,
+          servername: servername && !net.isIP(servername) ? servername : undefined,
+          rejectUnauthorized: false,
+          ALPNProtocols: ['http/1.1'],
+        })
+      : net.connect({ host, port });
+    const timer = setTimeout(() => {
+      socket.destroy();
+      reject(new Error('Connection timed out'));
+    }, timeout);
+
+    socket.once(secure ? 'secureConnect' : 'connect', () => {
+      clearTimeout(timer);
+      resolve(socket);
+    });
+    socket.once('error', (error) => {
+      clearTimeout(timer);
+      socket.destroy();
+      reject(error);
+    });
+  });
+}
+
+// Optionally sends `payload`, then collects the reply until the peer goes quiet, closes or sends enough to identify it
+function converse(socket: net.Socket, payload: string | Buffer | undefined, timeout: number): Promise<Buffer> {
+  return new Promise((resolve) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    let done = false;
+    let idleTimer: NodeJS.Timeout | undefined;
+
+    const finish = () => {
+      if (done) return;
+      done = true;
+      clearTimeout(overallTimer);
+      if (idleTimer) clearTimeout(idleTimer);
+      resolve(Buffer.concat(chunks));
+    };
+    const overallTimer = setTimeout(finish, timeout);
+
+    socket.on('data', (chunk: Buffer) => {
+      chunks.push(chunk);
+      size += chunk.length;
+      if (size >= MAX_RESPONSE_BYTES) return finish();
+      if (idleTimer) clearTimeout(idleTimer);
+      idleTimer = setTimeout(finish, IDLE_AFTER_DATA_MS);
+    });
+    socket.on('end', finish);
+    socket.on('close', finish);
+    socket.on('error', finish);
+
+    if (payload) socket.write(payload);
+  });
+}
+
+function matchBanner(data: Buffer, port: number): Identification | undefined {
+  // MySQL/MariaDB greet with a binary handshake: 3-byte length, sequence id, protocol 10, NUL-terminated version
+  if (data.length > 5 && data[3] === 0 && data[4] === 0x0a) {
+    const end = data.indexOf(0, 5);
+    const serverVersion = data.toString('latin1', 5, end > 5 ? end : Math.min(data.length, 64));
+    const mariadb = serverVersion.match(/(\d+\.\d+\.\d+)-MariaDB/);
+    return {
+      service: 'mysql',
+      product: mariadb ? 'MariaDB' : 'MySQL',
+      version: mariadb ? mariadb[1] : serverVersion.match(/^[\d.]+/)?.[0],
+      banner: printable(data),
+    };
+  }
+  // ...or with an error packet when the scanning host isn't allowed to connect
+  if (data.length > 7 && data[4] === 0xff && /MySQL|MariaDB/.test(data.toString('latin1'))) {
+    return { service: 'mysql', product: /MariaDB/.test(data.toString('latin1')) ? 'MariaDB' : 'MySQL', banner: printable(data) };
+  }
+
+  const text = data.toString('latin1');
+  for (const signature of BANNER_SIGNATURES) {
+    const match = text.match(signature.pattern);
+    if (!match) continue;
+
+    const product = typeof signature.product === 'number' ? match[signature.product] : signature.product;
+    // A bare "220" greeting is ambiguous between FTP and SMTP; fall back to the port for those
+    const service = signature.product === '' && /^220/.test(text) && PORT_HINTS[port] === 'ftp' ? 'ftp' : signature.service;
+    return {
+      service,
+      product: product || undefined,
+      version: signature.version ? match[signature.version] || undefined : undefined,
+      banner: printable(data),
+    };
+  }
+
+  return undefined;
+}
+
+function parseHttpResponse(data: Buffer): Identification | undefined {
+  const text = data.toString('latin1');
+  if (!/^HTTP\/\d(\.\d)?\s+\d{3}/.test(text)) {
+    return undefined;
+  }
+
+  const headerBlock = text.split(/\r?\n\r?\n/)[0];
+  const server = headerBlock.match(/^server:[ \t]*(.+)$/im)?.[1].trim();
+  const serverMatch = server?.match(/^([^\/\s]+)(?:\/([^\s]+))?/);
+
+  return {
+    service: 'http',
+    product: serverMatch?.[1],
+    version: serverMatch?.[2],
+    banner: printable(Buffer.from(headerBlock, 'latin1')),
+  };
+}
+
+// Opens a connection, exchanges one message and always closes it; undefined when the connection fails
+export async function exchangeOnce(
+  host: string,
+  port: number,
+  payload: string | Buffer | undefined,
+  options: Required<ProbeOptions>,
+  secure = false
+): Promise<Buffer | undefined> {
+  let socket: net.Socket;
+  try {
+    socket = await openConnection(host, port, options.timeout, options.servername, secure);
+  } catch (error) {
+    return undefined;
+  }
+
+  try {
+    return await converse(socket, payload, options.timeout);
+  } finally {
+    socket.destroy();
+  }
+}
+
+const httpRequest = (host: string) => `GET / HTTP/1.0\r\nHost: ${host}\r\nAccept: */*\r\nConnection: close\r\n\r\n`;
+
+// Client-first probes. None of them change server state: each sends a greeting, a ping or a version query.
+const PROBES: { name: string; ports: number[]; run: (host: string, port: number, options: Required<ProbeOptions>) => Promise<Identification | undefined> }[] = [
+  {
+    name: 'http',
+    ports: [80, 3000, 5000, 8000, 8008, 8080, 8081, 8888, 9000, 9200],
+    run: async (host, port, options) => {
+      const response = await exchangeOnce(host, port, httpRequest(options.servername), options);
+      return response ? parseHttpResponse(response) : undefined;
+    },
+  },
+  {
+    name: 'tls',
+    ports: [443, 465, 636, 993, 995, 8443],
+    run: async (host, port, options) => {
+      let socket: net.Socket;
+      try {
+        socket = await openConnection(host, port, options.timeout, options.servername, true);
+      } catch (error) {
+        return undefined;
+      }
+
+      try {
+        // Implicit-TLS mail protocols greet after the handshake; HTTPS waits for a request
+        const greeting = await converse(socket, undefined, Math.min(options.timeout, 1000));
+        const fromBanner = greeting.length > 0 ? matchBanner(greeting, port) : undefined;
+        if (fromBanner) return { ...fromBanner, tls: true };
+      } finally {
+        socket.destroy();
+      }
+
+      const response = await exchangeOnce(host, port, httpRequest(options.servername), options, true);
+      const http = response ? parseHttpResponse(response) : undefined;
+      return http ? { ...http, tls: true } : { service: PORT_HINTS[port] || 'unknown', tls: true };
+    },
+  },
+  {
+    name: 'redis',
+    ports: [6379, 6380],
+    run: async (host, port, options) => {
+      const response = await exchangeOnce(host, port, '*1\r\n$4\r\nPING\r\n', options);
+      return response && /^(\+PONG|-NOAUTH|-DENIED|-ERR)/.test(response.toString('latin1'))
+        ? { service: 'redis', product: 'Redis', banner: printable(response) }
+        : undefined;
+    },
+  },
+  {
+    name: 'memcached',
+    ports: [11211],
+    run: async (host, port, options) => {
+      const response = await exchangeOnce(host, port, 'version\r\n', options);
+      const match = response?.toString('latin1').match(/^VERSION ([\w.-]+)/);
+      return match ? { service: 'memcached', product: 'Memcached', version: match[1], banner: printable(response!) } : undefined;
+    },
+  },
+  {
+    name: 'postgresql',
+    ports: [5432],
+    run: async (host, port, options) => {
+      // SSLRequest: a server answers with a single 'S' or 'N' byte
+      const response = await exchangeOnce(host, port, Buffer.from([0, 0, 0, 8, 0x04, 0xd2, 0x16, 0x2f]), options);
+      return response && response.length === 1 && (response[0] === 0x53 || response[0] === 0x4e)
+        ? { service: 'postgresql', product: 'PostgreSQL', banner: response[0] === 0x53 ? 'SSL supported' : 'SSL not supported' }
+        : undefined;
+    },
+  },
+];
+
+export async function identifyService(host: string, port: number, probeOptions: ProbeOptions = {}): Promise<ServiceInfo> {
+  const options: Required<ProbeOptions> = {
+    timeout: probeOptions.timeout ?? 3000,
+    servername: probeOptions.servername ?? host,
+  };
+
+  // Probes made for this port run first; services that talk first are caught by the banner read in between
+  const hinted = PROBES.filter(probe => probe.ports.includes(port));
+  const others = PROBES.filter(probe => !probe.ports.includes(port));
+  let lastBanner: string | undefined;
+
+  const steps: (() => Promise<{ identification?: Identification; method: ServiceInfo['method'] }>)[] = [
+    ...hinted.map(probe => async () => ({ identification: await probe.run(host, port, options), method: 'probe' as const })),
+    async () => {
+      const banner = await exchangeOnce(host, port, undefined, { ...options, timeout: Math.min(options.timeout, 2000) });
+      if (banner && banner.length > 0) lastBanner = printable(banner);
+      return { identification: banner && banner.length > 0 ? matchBanner(banner, port) : undefined, method: 'banner' as const };
+    },
+    ...others.map(probe => async () => ({ identification: await probe.run(host, port, options), method: 'probe' as const })),
+  ];
+
+  for (const step of steps) {
+    const { identification, method } = await step();
+    if (identification) {
+      return { port, protocol: 'tcp', method, ...identification };
+    }
+  }
+
+  return { port, protocol: 'tcp', service: PORT_HINTS[port] || 'unknown', banner: lastBanner || undefined, method: 'port' };
+}
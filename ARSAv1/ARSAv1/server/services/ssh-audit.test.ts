@@ -0,0 +1,119 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import net from 'net';
+import { auditSsh } from './ssh-audit';
+
+interface Algorithms {
+  kex: string[];
+  hostKey: string[];
+  ciphers: [string[], string[]];
+  macs: [string[], string[]];
+}
+
+// Binary packet carrying a KEXINIT: message 20, cookie, ten name-lists, first_kex_packet_follows, reserved
+function kexInitPacket({ kex, hostKey, ciphers, macs }: Algorithms, messageNumber = 20): Buffer {
+  const lists = [kex, hostKey, ...ciphers, ...macs, ['none'], ['none'], [], []].map(list => {
+    const value = Buffer.from(list.join(','), 'latin1');
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(value.length);
+    return Buffer.concat([length, value]);
+  });
+  const payload = Buffer.concat([Buffer.from([messageNumber]), Buffer.alloc(16, 0xab), ...lists, Buffer.alloc(5)]);
+  const padding = 8 - ((payload.length + 5) % 8) + 4;
+  const header = Buffer.alloc(5);
+  header.writeUInt32BE(1 + payload.length + padding);
+  header[4] = padding;
+  return Buffer.concat([header, payload, Buffer.alloc(padding)]);
+}
+
+// A local SSH server that sends its side of the handshake at once;
+// a greeting ending in a blank line closes the connection after it
+async function withServer(greeting: Buffer | string, run: (port: number) => Promise<void>) {
+  const sockets = new Set<net.Socket>();
+  const server = net.createServer(socket => {
+    sockets.add(socket);
+    socket.on('error', () => undefined);
+    socket.on('close', () => sockets.delete(socket));
+    if (greeting.toString().endsWith('\r\n\r\n')) socket.end(greeting);
+    else socket.write(greeting);
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  try {
+    await run((server.address() as net.AddressInfo).port);
+  } finally {
+    sockets.forEach(socket => socket.destroy());
+    await new Promise(resolve => server.close(resolve));
+  }
+}
+
+const modern: Algorithms = {
+  kex: ['curve25519-sha256', 'kex-strict-s-v00@openssh.com'],
+  hostKey: ['ssh-ed25519', 'rsa-sha2-512'],
+  ciphers: [['chacha20-poly1305@openssh.com', 'aes256-gcm@openssh.com'], ['chacha20-poly1305@openssh.com', 'aes256-gcm@openssh.com']],
+  macs: [['hmac-sha2-256-etm@openssh.com'], ['hmac-sha2-256-etm@openssh.com']],
+};
+
+test('weak algorithms, Terrapin exposure and old OpenSSH releases are reported', async () => {
+  const legacy: Algorithms = {
+    kex: ['curve25519-sha256', 'diffie-hellman-group14-sha1', 'diffie-hellman-group1-sha1', 'ext-info-s'],
+    hostKey: ['ssh-rsa', 'ssh-dss'],
+    ciphers: [['aes128-ctr', 'aes128-cbc', 'arcfour'], ['aes128-ctr', '3des-cbc']],
+    macs: [['hmac-sha2-256-etm@openssh.com', 'hmac-md5'], ['hmac-sha2-256-etm@openssh.com']],
+  };
+  const greeting = Buffer.concat([
+    Buffer.from('Welcome\r\nSSH-2.0-OpenSSH_7.4p1 Debian-10+deb9u7\r\n', 'latin1'),
+    kexInitPacket(legacy),
+  ]);
+
+  await withServer(greeting, async port => {
+    const { audit, findings } = await auditSsh('127.0.0.1', port, 1000);
+
+    assert.equal(audit.banner, 'SSH-2.0-OpenSSH_7.4p1 Debian-10+deb9u7');
+    assert.deepEqual(audit.software, { product: 'OpenSSH', version: '7.4p1' });
+    assert.deepEqual(audit.kex, ['curve25519-sha256', 'diffie-hellman-group14-sha1', 'diffie-hellman-group1-sha1']);
+    assert.deepEqual(audit.ciphers, ['aes128-ctr', 'aes128-cbc', 'arcfour', '3des-cbc']);
+    assert.deepEqual(audit.compression, ['none']);
+
+    assert.deepEqual(findings.map(finding => finding.type), [
+      'Weak SSH Key Exchange', 'SHA-1 SSH Key Exchange', 'Weak SSH Host Key Algorithm', 'SSH CBC Mode Ciphers',
+      'Weak SSH Ciphers', 'Weak SSH MAC Algorithms', 'SSH Terrapin Attack', 'Outdated OpenSSH',
+    ]);
+    const evidence = (type: string) => findings.find(finding => finding.type === type)?.evidence as { algorithms?: string[]; cves?: string[] };
+    assert.deepEqual(evidence('SSH CBC Mode Ciphers').algorithms, ['aes128-cbc', '3des-cbc']);
+    assert.deepEqual(evidence('Outdated OpenSSH').cves, ['CVE-2018-15473']);
+  });
+});
+
+test('a hardened server has no findings, and version advisories apply only within their range', async () => {
+  await withServer(Buffer.concat([Buffer.from('SSH-2.0-OpenSSH_9.9\r\n'), kexInitPacket(modern)]), async port => {
+    assert.deepEqual((await auditSsh('127.0.0.1', port, 1000)).findings, []);
+  });
+
+  await withServer(Buffer.concat([Buffer.from('SSH-2.0-OpenSSH_9.2p1 Debian-2+deb12u2\r\n'), kexInitPacket(modern)]), async port => {
+    const { findings } = await auditSsh('127.0.0.1', port, 1000);
+    assert.deepEqual(findings.map(({ type, severity, cvss }) => ({ type, severity, cvss })),
+      [{ type: 'Outdated OpenSSH', severity: 'high', cvss: '8.1' }]);
+  });
+
+  // Without strict key exchange, ChaCha20-Poly1305 alone is enough for Terrapin
+  const loose = { ...modern, kex: ['curve25519-sha256'] };
+  await withServer(Buffer.concat([Buffer.from('SSH-2.0-dropbear_2022.83\r\n'), kexInitPacket(loose)]), async port => {
+    const { audit, findings } = await auditSsh('127.0.0.1', port, 1000);
+    assert.deepEqual(audit.software, { product: 'dropbear', version: '2022.83' });
+    assert.deepEqual(findings.map(finding => finding.type), ['SSH Terrapin Attack']);
+  });
+});
+
+test('servers that never complete the identification and KEXINIT are rejected', async () => {
+  await withServer('220 mail.example.test ESMTP\r\n', async port => {
+    await assert.rejects(auditSsh('127.0.0.1', port, 300), /SSH handshake timed out/);
+  });
+
+  await withServer(Buffer.concat([Buffer.from('SSH-2.0-OpenSSH_9.9\r\n'), kexInitPacket(modern, 21)]), async port => {
+    await assert.rejects(auditSsh('127.0.0.1', port, 1000), /Expected KEXINIT, got message 21/);
+  });
+
+  await withServer('SSH-2.0-OpenSSH_9.9\r\n\r\n', async port => {
+    await assert.rejects(auditSsh('127.0.0.1', port, 1000), /Connection closed before KEXINIT/);
+  });
+});
@@ -0,0 +1,236 @@
+import net from 'net';
+import type { ReconFinding } from './reconnaissance';
+
+// Reads the server's SSH identification and KEXINIT (RFC 4253 §4.2, §7.1) and closes before any key exchange;
+// nothing is authenticated and no keys are generated
+
+export interface SshAudit {
+  port: number;
+  banner: string; // e.g. "SSH-2.0-OpenSSH_8.2p1 Ubuntu-4ubuntu0.5"
+  software?: { product: string; version?: string };
+  kex: string[];
+  hostKey: string[];
+  ciphers: string[];
+  macs: string[];
+  compression: string[];
+}
+
+const CLIENT_IDENTIFICATION = 'SSH-2.0-ReconScanner_1.0\r\n';
+const SSH_MSG_KEXINIT = 20;
+const MAX_PACKET_BYTES = 35000; // RFC 4253 §6.1 minimum every implementation must accept
+
+// Each group becomes one finding listing whichever of its algorithms the server offers
+const WEAK_ALGORITHMS: {
+  list: 'kex' | 'hostKey' | 'ciphers' | 'macs';
+  matches: (algorithm: string) => boolean;
+  severity: ReconFinding['severity'];
+  cvss: string;
+  type: string;
+  description: string;
+  remediation: string;
+}[] = [
+  {
+    list: 'kex',
+    matches: algorithm => algorithm === 'diffie-hellman-group1-sha1',
+    severity: 'medium',
+    cvss: '5.9',
+    type: 'Weak SSH Key Exchange',
+    description: 'offers the 1024-bit Oakley Group 2 Diffie-Hellman key exchange, which is within reach of precomputation attacks (Logjam)',
+    remediation: 'Remove diffie-hellman-group1-sha1 from KexAlgorithms; prefer curve25519-sha256 and diffie-hellman-group16-sha512.',
+  },
+  {
+    list: 'kex',
+    matches: algorithm => /^(diffie-hellman-group14-sha1|diffie-hellman-group-exchange-sha1|gss-.*-sha1-.*)$/.test(algorithm),
+    severity: 'low',
+    cvss: '3.7',
+    type: 'SHA-1 SSH Key Exchange',
+    description: 'offers key exchange methods that hash with SHA-1',
+    remediation: 'Remove SHA-1 key exchange methods from KexAlgorithms.',
+  },
+  {
+    list: 'hostKey',
+    matches: algorithm => algorithm === 'ssh-dss' || algorithm.startsWith('ssh-dss-'),
+    severity: 'medium',
+    cvss: '5.3',
+    type: 'Weak SSH Host Key Algorithm',
+    description: 'offers DSA (ssh-dss) host keys, which are limited to 1024 bits and disabled by default since OpenSSH 7.0',
+    remediation: 'Remove the DSA host key and ssh-dss from HostKeyAlgorithms; use Ed25519 or RSA with rsa-sha2-256/512.',
+  },
+  {
+    list: 'ciphers',
+    matches: algorithm => /-cbc(@|$)/.test(algorithm) || algorithm === 'rijndael-cbc@lysator.liu.se',
+    severity: 'low',
+    cvss: '2.6',
+    type: 'SSH CBC Mode Ciphers',
+    description: 'offers CBC-mode ciphers, which are vulnerable to plaintext-recovery attacks (CVE-2008-5161)',
+    remediation: 'Remove CBC ciphers from Ciphers; use chacha20-poly1305@openssh.com, aes256-gcm@openssh.com or aes*-ctr.',
+  },
+  {
+    list: 'ciphers',
+    matches: algorithm => /^(arcfour|blowfish|cast128|des|none$)/.test(algorithm),
+    severity: 'medium',
+    cvss: '4.3',
+    type: 'Weak SSH Ciphers',
+    description: 'offers broken or null ciphers (RC4, Blowfish, CAST-128, DES or none)',
+    remediation: 'Remove these ciphers from Ciphers.',
+  },
+  {
+    list: 'macs',
+    matches: algorithm => /^hmac-(md5|sha1-96|ripemd160)/.test(algorithm) || algorithm.startsWith('umac-64'),
+    severity: 'low',
+    cvss: '2.6',
+    type: 'Weak SSH MAC Algorithms',
+    description: 'offers MD5-based, truncated or 64-bit MAC algorithms',
+    remediation: 'Remove these from MACs; prefer hmac-sha2-256-etm@openssh.com and hmac-sha2-512-etm@openssh.com.',
+  },
+];
+
+// OpenSSH releases with unauthenticated, remotely reachable issues. Distributions backport fixes without changing
+// the version string, so these are reported as likely rather than confirmed.
+const OPENSSH_ADVISORIES: { from?: [number, number]; below: [number, number]; cve: string; severity: ReconFinding['severity']; cvss: string; summary: string }[] = [
+  { below: [7, 7], cve: 'CVE-2018-15473', severity: 'medium', cvss: '5.3', summary: 'username enumeration' },
+  { from: [8, 5], below: [9, 8], cve: 'CVE-2024-6387', severity: 'high', cvss: '8.1', summary: '"regreSSHion" signal handler race allowing unauthenticated remote code execution on glibc systems' },
+];
+
+function compareVersions(a: [number, number], b: [number, number]): number {
+  return a[0] - b[0] || a[1] - b[1];
+}
+
+function readNameLists(payload: Buffer): string[][] {
+  const lists: string[][] = [];
+  let offset = 1 + 16; // message number, cookie
+
+  for (let i = 0; i < 10; i++) {
+    if (offset + 4 > payload.length) throw new Error('Truncated KEXINIT');
+    const length = payload.readUInt32BE(offset);
+    offset += 4;
+    if (offset + length > payload.length) throw new Error('Truncated KEXINIT');
+    const value = payload.toString('latin1', offset, offset + length);
+    lists.push(value ? value.split(',') : []);
+    offset += length;
+  }
+
+  return lists;
+}
+
+// Resolves with the identification line and the KEXINIT payload
+function readKexInit(host: string, port: number, timeout: number): Promise<{ banner: string; payload: Buffer }> {
+  return new Promise((resolve, reject) => {
+    const socket = net.connect({ host, port });
+    let buffer = Buffer.alloc(0);
+    let banner: string | undefined;
+
+    const fail = (error: Error) => {
+      socket.destroy();
+      reject(error);
+    };
+
+    socket.setTimeout(timeout, () => fail(new Error('SSH handshake timed out')));
+    socket.on('error', fail);
+    socket.on('close', () => fail(new Error('Connection closed before KEXINIT')));
+
+    socket.on('data', (chunk: Buffer) => {
+      buffer = Buffer.concat([buffer, chunk]);
+
+      // Servers may send other lines before the identification string (RFC 4253 §4.2)
+      while (!banner) {
+        const newline = buffer.indexOf('\n');
+        if (newline === -1) {
+          if (buffer.length > 8192) fail(new Error('No SSH identification string'));
+          return;
+        }
+        const line = buffer.toString('latin1', 0, newline).replace(/\r$/, '');
+        buffer = buffer.subarray(newline + 1);
+        if (line.startsWith('SSH-')) {
+          banner = line;
+          socket.write(CLIENT_IDENTIFICATION);
+        }
+      }
+
+      // Binary packet: uint32 length, byte padding length, payload, padding (no MAC before NEWKEYS)
+      if (buffer.length < 5) return;
+      const packetLength = buffer.readUInt32BE(0);
+      if (packetLength > MAX_PACKET_BYTES) return fail(new Error('Oversized SSH packet'));
+      if (buffer.length < 4 + packetLength) return;
+
+      const paddingLength = buffer[4];
+      const payload = buffer.subarray(5, 4 + packetLength - paddingLength);
+      if (payload[0] !== SSH_MSG_KEXINIT) return fail(new Error(`Expected KEXINIT, got message ${payload[0]}`));
+
+      socket.removeAllListeners('close');
+      socket.destroy();
+      resolve({ banner, payload });
+    });
+  });
+}
+
+export async function auditSsh(host: string, port: number, timeout = 5000): Promise<{ audit: SshAudit; findings: ReconFinding[] }> {
+  const { banner, payload } = await readKexInit(host, port, timeout);
+  const [kex, hostKey, cipherC2S, cipherS2C, macC2S, macS2C, compressionC2S, compressionS2C] = readNameLists(payload);
+  const union = (a: string[], b: string[]) => a.concat(b.filter(item => !a.includes(item)));
+
+  const softwareMatch = banner.match(/^SSH-[\d.]+-([^\s_-]+)(?:[_-]([\w.]+))?/);
+  const audit: SshAudit = {
+    port,
+    banner,
+    software: softwareMatch ? { product: softwareMatch[1], version: softwareMatch[2] } : undefined,
+    kex: kex.filter(algorithm => !algorithm.startsWith('kex-strict-') && algorithm !== 'ext-info-s'),
+    hostKey,
+    ciphers: union(cipherC2S, cipherS2C),
+    macs: union(macC2S, macS2C),
+    compression: union(compressionC2S, compressionS2C),
+  };
+
+  const findings: ReconFinding[] = [];
+  const location = `The SSH server on ${host}:${port}`;
+
+  WEAK_ALGORITHMS.forEach(group => {
+    const offered = audit[group.list].filter(group.matches);
+    if (offered.length === 0) return;
+    findings.push({
+      severity: group.severity,
+      type: group.type,
+      description: `${location} ${group.description}: ${offered.join(', ')}.`,
+      cvss: group.cvss,
+      remediation: group.remediation,
+      evidence: { host, port, banner, algorithms: offered },
+    });
+  });
+
+  // Terrapin needs ChaCha20-Poly1305 or a CBC cipher with an encrypt-then-MAC MAC, and no strict key exchange
+  const strictKex = kex.includes('kex-strict-s-v00@openssh.com');
+  const chacha = audit.ciphers.includes('chacha20-poly1305@openssh.com');
+  const cbcEtm = audit.ciphers.some(cipher => /-cbc(@|$)/.test(cipher)) && audit.macs.some(mac => mac.includes('-etm@'));
+  if (!strictKex && (chacha || cbcEtm)) {
+    findings.push({
+      severity: 'medium',
+      type: 'SSH Terrapin Attack',
+      description: `${location} offers ${chacha ? 'chacha20-poly1305@openssh.com' : 'CBC ciphers with encrypt-then-MAC'} without strict key exchange, allowing prefix truncation of the secure channel (CVE-2023-48795).`,
+      cvss: '5.9',
+      remediation: 'Upgrade to a release that supports strict key exchange (OpenSSH 9.6 or later), or disable the affected cipher and MAC combinations.',
+      evidence: { host, port, banner, strictKex, chacha20: chacha, cbcEtm },
+    });
+  }
+
+  const openssh = banner.match(/OpenSSH_(\d+)\.(\d+)/);
+  if (openssh) {
+    const version: [number, number] = [parseInt(openssh[1]), parseInt(openssh[2])];
+    const advisories = OPENSSH_ADVISORIES.filter(advisory =>
+      compareVersions(version, advisory.below) < 0 && (!advisory.from || compareVersions(version, advisory.from) >= 0)
+    );
+
+    if (advisories.length > 0) {
+      const worst = advisories.reduce((a, b) => parseFloat(b.cvss) > parseFloat(a.cvss) ? b : a);
+      findings.push({
+        severity: worst.severity,
+        type: 'Outdated OpenSSH',
+        description: `${location} reports ${banner.slice(8)}, a release affected by ${advisories.map(advisory => `${advisory.cve} (${advisory.summary})`).join('; ')}. Based on the version banner only; distribution packages may carry backported fixes.`,
+        cvss: worst.cvss,
+        remediation: 'Upgrade OpenSSH to the latest release, or confirm the distribution package includes the fixes.',
+        evidence: { host, port, banner, cves: advisories.map(advisory => advisory.cve) },
+      });
+    }
+  }
+
+  return { audit, findings };
+}
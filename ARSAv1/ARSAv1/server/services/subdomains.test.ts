@@ -0,0 +1,171 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ResolverPool } from './resolver-pool';
+import { scanOptionsSchema } from '@shared/schema';
+import { SubdomainRegistry, checkZoneTransfers, enumerateRecursively, resolveCandidates, sweepReverseDns } from './subdomains';
+import type { DiscoveredSubdomain } from './reconnaissance';
+import { startTcpStandIn, startUdpStandIn, type StandInAnswer, type StandInQuestion } from './test-support/dns-stand-in';
+
+// Every name under example.test resolves to the wildcard address except the ones listed
+const WILDCARD_ZONE: { [name: string]: StandInAnswer } = {
+  'www.example.test': { answers: [{ name: 'www.example.test', type: 'A', data: '192.0.2.10' }] },
+  'shop.example.test': { answers: [
+    { name: 'shop.example.test', type: 'A', data: '192.0.2.99' },
+    { name: 'shop.example.test', type: 'A', data: '192.0.2.11' },
+  ] },
+};
+
+function wildcardAnswer({ name, type }: StandInQuestion): StandInAnswer {
+  if (type !== 'A') return {};
+  return WILDCARD_ZONE[name] || { answers: [{ name, type: 'A', data: '192.0.2.99' }] };
+}
+
+test('resolveCandidates drops or flags names that only resolve to the wildcard answers', async () => {
+  const server = await startUdpStandIn(wildcardAnswer);
+  const resolver = new ResolverPool({ servers: [`127.0.0.1:${server.port}`], timeout: 1000 });
+  const wildcard = { detected: true, addresses: ['192.0.2.99'] };
+  const candidates = ['www', 'shop', 'nothing-here'].map(label => ({ name: `${label}.example.test`, source: 'bruteforce' as const }));
+
+  try {
+    const dropping = new SubdomainRegistry({});
+    const dropOptions = scanOptionsSchema.parse({ enumeration: { wildcardFilter: 'drop' } }).enumeration;
+    const kept = await resolveCandidates(resolver, candidates, wildcard, dropOptions, dropping, {}, 'enumeration');
+    // An address outside the wildcard set is enough to keep a name
+    assert.deepEqual(kept.map(subdomain => [subdomain.name, subdomain.wildcard]).sort(), [
+      ['shop.example.test', false],
+      ['www.example.test', false],
+    ]);
+    assert.equal(dropping.values().length, 2);
+
+    const flagging = new SubdomainRegistry({});
+    const flagOptions = scanOptionsSchema.parse({ enumeration: { wildcardFilter: 'flag' } }).enumeration;
+    await resolveCandidates(resolver, candidates, wildcard, flagOptions, flagging, {}, 'enumeration');
+    assert.deepEqual(flagging.values().find(subdomain => subdomain.name === 'nothing-here.example.test'), {
+      name: 'nothing-here.example.test', addresses: ['192.0.2.99'], source: 'bruteforce', wildcard: true,
+    });
+    assert.equal(flagging.values().length, 3);
+  } finally {
+    await server.close();
+  }
+});
+
+test('enumerateRecursively links each level to the parent it was found under', async () => {
+  const addresses: { [name: string]: string } = {
+    'api.dev.example.test': '192.0.2.21',
+    'db.api.dev.example.test': '192.0.2.22',
+  };
+  const server = await startUdpStandIn(({ name, type }) => {
+    if (type !== 'A') return { rcode: 3 };
+    if (name.endsWith('.wild.example.test')) return { answers: [{ name, type: 'A', data: '192.0.2.99' }] };
+    return addresses[name] ? { answers: [{ name, type: 'A', data: addresses[name] }] } : { rcode: 3 };
+  });
+  const resolver = new ResolverPool({ servers: [`127.0.0.1:${server.port}`], timeout: 1000 });
+  const registry = new SubdomainRegistry({});
+  await registry.add({ name: 'www.example.test', addresses: ['192.0.2.10'], source: 'bruteforce' });
+  await registry.add({ name: 'wild.example.test', addresses: ['192.0.2.99'], source: 'bruteforce' });
+  await registry.add({ name: 'dev.example.test', addresses: ['192.0.2.20'], source: 'bruteforce' });
+
+  try {
+    const options = scanOptionsSchema.parse({ recursion: { depth: 2 } });
+    const result = await enumerateRecursively(resolver, 'example.test', ['api', 'db'], options, registry, {});
+
+    // dev is recursed into first, and the wildcard under wild.example.test keeps it from being a parent
+    assert.deepEqual(result.levels, [
+      { depth: 1, parents: ['dev.example.test', 'www.example.test'], candidates: 4, hits: 1 },
+      { depth: 2, parents: ['api.dev.example.test'], candidates: 2, hits: 1 },
+    ]);
+    assert.deepEqual(registry.values().slice(3), [
+      { name: 'api.dev.example.test', addresses: ['192.0.2.21'], source: 'recursion', sourceDetail: { parent: 'dev.example.test' },
+        parent: 'dev.example.test', wildcard: false },
+      { name: 'db.api.dev.example.test', addresses: ['192.0.2.22'], source: 'recursion', sourceDetail: { parent: 'api.dev.example.test' },
+        parent: 'api.dev.example.test', wildcard: false },
+    ]);
+  } finally {
+    await server.close();
+  }
+});
+
+test('checkZoneTransfers uses the configured nameserver and port and registers transferred names', async () => {
+  const soa = { name: 'example.test', type: 'SOA' as const, data: 'ns1.example.test hostmaster.example.test 1' };
+  const allowed = await startTcpStandIn(() => [{
+    answers: [
+      soa,
+      { name: 'db.example.test', type: 'A', data: '192.0.2.20' },
+      { name: 'api.db.example.test', type: 'A', data: '192.0.2.21' },
+      { name: '*.example.test', type: 'A', data: '192.0.2.99' },
+      { name: 'other.test', type: 'A', data: '192.0.2.30' },
+      soa,
+    ],
+  }]);
+  const refused = await startTcpStandIn(() => [{ rcode: 5 }]);
+  // Nothing answers here, so any NS lookup (rather than the configured nameserver) would fail the test
+  const resolver = new ResolverPool({ servers: ['127.0.0.1:9'], timeout: 500, retries: 0 });
+  const added: DiscoveredSubdomain[] = [];
+  const registry = new SubdomainRegistry({ onSubdomain: subdomain => { added.push(subdomain); } });
+  const options = (port: number) =>
+    scanOptionsSchema.parse({ zoneTransfer: { nameservers: ['127.0.0.1'], port, timeout: 2000 } }).zoneTransfer;
+
+  try {
+    const allowedResult = await checkZoneTransfers(resolver, 'example.test', options(allowed.port), registry);
+    assert.deepEqual(allowedResult.summary, [{ nameserver: '127.0.0.1', success: true, recordCount: 6, error: undefined }]);
+    assert.deepEqual(allowedResult.findings.map(finding => finding.type), ['DNS Zone Transfer (AXFR) Allowed']);
+    // Out-of-zone and wildcard owners are left out; deeper names are linked to their transferred parent
+    assert.deepEqual(added, [
+      { name: 'db.example.test', addresses: ['192.0.2.20'], source: 'axfr' },
+      { name: 'api.db.example.test', addresses: ['192.0.2.21'], source: 'axfr', parent: 'db.example.test' },
+    ]);
+
+    const refusedResult = await checkZoneTransfers(resolver, 'example.test', options(refused.port), registry);
+    assert.deepEqual(refusedResult.summary, [{ nameserver: '127.0.0.1', success: false, recordCount: 0, error: 'REFUSED' }]);
+    assert.deepEqual(refusedResult.findings, []);
+  } finally {
+    await Promise.all([allowed.close(), refused.close()]);
+  }
+});
+
+test('sweepReverseDns sorts PTR names into new subdomains and related assets', async () => {
+  const ptr: { [address: string]: string } = {
+    '10.2.0.192.in-addr.arpa': 'mail.example.test',
+    '11.2.0.192.in-addr.arpa': 'customer-11.hosting.test',
+    '20.2.0.192.in-addr.arpa': 'www.example.test',
+  };
+  const addresses: { [name: string]: string } = { 'example.test': '192.0.2.10', 'mail.example.test': '192.0.2.10' };
+  const server = await startUdpStandIn(({ name, type }) => {
+    if (type === 'PTR' && ptr[name]) return { answers: [{ name, type: 'PTR', data: ptr[name] }] };
+    if (type === 'A' && addresses[name]) return { answers: [{ name, type: 'A', data: addresses[name] }] };
+    return { rcode: 3 };
+  });
+  const resolver = new ResolverPool({ servers: [`127.0.0.1:${server.port}`], timeout: 1000 });
+  const registry = new SubdomainRegistry({});
+  await registry.add({ name: 'www.example.test', addresses: ['192.0.2.20'], source: 'bruteforce' });
+
+  try {
+    const options = scanOptionsSchema.parse({ reverseDns: { neighbours: 'window', window: 1 } });
+    const result = await sweepReverseDns(resolver, 'example.test', options, registry, {});
+
+    assert.equal(result.lookups, 6); // .9-.11 around the target, .19-.21 around www
+    assert.equal(result.hits, 1);
+    assert.deepEqual(registry.values().map(subdomain => subdomain.name), ['www.example.test', 'mail.example.test']);
+    assert.deepEqual(registry.values()[1], {
+      name: 'mail.example.test', addresses: ['192.0.2.10'], source: 'ptr', sourceDetail: { ip: '192.0.2.10' },
+    });
+    assert.deepEqual(result.relatedAssets, [{ hostname: 'customer-11.hosting.test', ip: '192.0.2.11', source: 'ptr' }]);
+  } finally {
+    await server.close();
+  }
+});
+
+test('sweepReverseDns stops at maxLookups', async () => {
+  const server = await startUdpStandIn(() => ({ rcode: 3 }));
+  const resolver = new ResolverPool({ servers: [`127.0.0.1:${server.port}`], timeout: 1000 });
+
+  try {
+    const options = scanOptionsSchema.parse({ reverseDns: { neighbours: 'subnet', maxLookups: 10 } });
+    const result = await sweepReverseDns(resolver, '192.0.2.10', options, new SubdomainRegistry({}), {});
+
+    assert.deepEqual(result, { lookups: 10, hits: 0, relatedAssets: [] });
+    assert.equal(server.questions.filter(question => question.type === 'PTR').length, 10);
+  } finally {
+    await server.close();
+  }
+});
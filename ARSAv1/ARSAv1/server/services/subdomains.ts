@@ -0,0 +1,314 @@
+import net from 'net';
+import type { ScanOptions } from '@shared/schema';
+import { mapWithConcurrency } from './concurrency';
+import { attemptZoneTransfer } from './zone-transfer';
+import { generatePermutations } from './permutations';
+import { ipv4ToNumber, numberToIpv4 } from './ip-range';
+import { detectWildcard, getDNSRecord, resolveCandidate, resolveHost } from './dns-records';
+import type { ResolverPool } from './resolver-pool';
+import type { DiscoveredSubdomain, ReconFinding, ReconHooks, ReconResults, RelatedAsset, WildcardInfo } from './reconnaissance';
+
+// Discovery stages that feed the subdomain list: brute-force and permutation candidates, recursion, AXFR and PTR
+
+export type SubdomainCandidate = Pick<DiscoveredSubdomain, 'name' | 'source' | 'sourceDetail'>;
+
+// Parents whose leftmost label looks like an environment, region or internal zone are recursed into first
+const INTERESTING_PARENT_REGEX = /^(dev|stag|test|qa|uat|int|corp|internal|admin|api|vpn|prod|preprod|sandbox|beta|legacy|old|cloud|aws|azure|gcp|eu|us|ap|emea|apac)/;
+
+// Deduplicates subdomains found by the different discovery stages and streams each new one to the hooks
+export class SubdomainRegistry {
+  private found = new Map<string, DiscoveredSubdomain>();
+
+  constructor(private hooks: ReconHooks) {}
+
+  has(name: string): boolean {
+    return this.found.has(name.toLowerCase());
+  }
+
+  async add(subdomain: DiscoveredSubdomain): Promise<boolean> {
+    const key = subdomain.name.toLowerCase();
+    if (this.found.has(key)) {
+      return false;
+    }
+
+    const parent = key.slice(key.indexOf('.') + 1);
+    if (this.found.has(parent)) {
+      subdomain.parent = parent;
+    }
+
+    this.found.set(key, subdomain);
+    await this.hooks.onSubdomain?.(subdomain);
+    return true;
+  }
+
+  values(): DiscoveredSubdomain[] {
+    return Array.from(this.found.values());
+  }
+}
+
+// The address itself plus, for IPv4, its /24 or a window either side
+function expandNeighbours(ip: string, options: ScanOptions['reverseDns']): string[] {
+  if (!net.isIPv4(ip) || options.neighbours === 'none') {
+    return [ip];
+  }
+
+  const value = ipv4ToNumber(ip);
+  const [first, last] = options.neighbours === 'subnet'
+    ? [value - (value % 256), value - (value % 256) + 255]
+    : [Math.max(0, value - options.window), Math.min(0xffffffff, value + options.window)];
+  return Array.from({ length: last - first + 1 }, (_, index) => numberToIpv4(first + index));
+}
+
+// Shared resolver pipeline for brute-force and permutation candidates: resolve, apply the wildcard filter, register hits
+export async function resolveCandidates(
+  resolver: ResolverPool,
+  candidates: SubdomainCandidate[],
+  wildcard: WildcardInfo,
+  options: ScanOptions['enumeration'],
+  registry: SubdomainRegistry,
+  hooks: ReconHooks,
+  stage: string
+): Promise<DiscoveredSubdomain[]> {
+  const hits: DiscoveredSubdomain[] = [];
+  const progressStep = Math.max(1, Math.floor(candidates.length / 100));
+  let completed = 0;
+
+  await mapWithConcurrency(candidates, options.concurrency, async (candidate) => {
+    const resolved = await resolveCandidate(resolver, candidate.name).catch(() => undefined);
+
+    if (resolved && resolved.addresses.length === 0) {
+      // A CNAME to a name that no longer exists fails to resolve but is exactly what takeover checks need
+      const subdomain: DiscoveredSubdomain = { ...candidate, addresses: [] };
+      if (await registry.add(subdomain)) {
+        hits.push(subdomain);
+      }
+    } else if (resolved) {
+      const { addresses } = resolved;
+      const isWildcard = wildcard.detected && addresses.every(address => wildcard.addresses.includes(address));
+
+      if (!isWildcard || options.wildcardFilter === 'flag') {
+        const subdomain: DiscoveredSubdomain = { ...candidate, addresses, wildcard: isWildcard };
+        if (await registry.add(subdomain)) {
+          hits.push(subdomain);
+        }
+      }
+    }
+
+    completed++;
+    if (completed % progressStep === 0 || completed === candidates.length) {
+      hooks.onProgress?.(stage, completed, candidates.length);
+    }
+  });
+
+  return hits;
+}
+
+// Brute-forces (and tries AXFR on) resolving subdomains level by level; each level shares one query budget
+export async function enumerateRecursively(
+  resolver: ResolverPool,
+  target: string,
+  words: string[], // loaded by the caller from options.recursion.wordlist
+  options: ScanOptions,
+  registry: SubdomainRegistry,
+  hooks: ReconHooks
+): Promise<{
+  levels: NonNullable<ReconResults['recursion']>;
+  zoneTransfers: ReconResults['zoneTransfers'];
+  findings: ReconFinding[];
+}> {
+  const levels: NonNullable<ReconResults['recursion']> = [];
+  const zoneTransfers: ReconResults['zoneTransfers'] = [];
+  const findings: ReconFinding[] = [];
+  const labelsBelowTarget = (name: string) => name.slice(0, -(target.length + 1)).split('.').length;
+
+  for (let depth = 1; depth <= options.recursion.depth; depth++) {
+    const parents = registry.values()
+      .filter(subdomain => !subdomain.wildcard && subdomain.addresses.length > 0 && labelsBelowTarget(subdomain.name) === depth)
+      .sort((a, b) => Number(INTERESTING_PARENT_REGEX.test(b.name)) - Number(INTERESTING_PARENT_REGEX.test(a.name)));
+    const level = { depth, parents: [] as string[], candidates: 0, hits: 0 };
+    let budget = options.recursion.budget;
+
+    for (const parent of parents) {
+      if (budget <= 0) break;
+
+      // A wildcard below the parent would make every candidate "resolve"; skip it rather than spend the budget
+      const wildcard = await detectWildcard(resolver, parent.name);
+      budget -= 3;
+      if (wildcard.detected) continue;
+
+      level.parents.push(parent.name);
+      const transfer = await checkZoneTransfers(resolver, parent.name, options.zoneTransfer, registry);
+      zoneTransfers.push(...transfer.summary);
+      findings.push(...transfer.findings);
+      budget -= 1;
+
+      const candidates = words.slice(0, Math.max(0, budget)).map((word): SubdomainCandidate => ({
+        name: `${word}.${parent.name}`,
+        source: 'recursion',
+        sourceDetail: { parent: parent.name },
+      }));
+      budget -= candidates.length;
+
+      const hits = await resolveCandidates(resolver, candidates, wildcard, options.enumeration, registry, hooks, 'recursion');
+      level.candidates += candidates.length;
+      level.hits += hits.length;
+    }
+
+    levels.push(level);
+  }
+
+  return { levels, zoneTransfers, findings };
+}
+
+export async function permuteSubdomains(
+  resolver: ResolverPool,
+  target: string,
+  options: ScanOptions,
+  wildcard: WildcardInfo,
+  registry: SubdomainRegistry,
+  hooks: ReconHooks
+): Promise<NonNullable<ReconResults['permutations']>> {
+  const discovered = registry.values().filter(subdomain => !subdomain.wildcard).map(subdomain => subdomain.name);
+  const permutations = generatePermutations(discovered, target, options.permutations);
+
+  const candidates = permutations.map((permutation): SubdomainCandidate => ({
+    name: permutation.name,
+    source: 'permutation',
+    sourceDetail: { rule: permutation.rule, base: permutation.base },
+  }));
+  const hits = await resolveCandidates(resolver, candidates, wildcard, options.enumeration, registry, hooks, 'permutation');
+
+  const hitsByRule: { [rule: string]: number } = {};
+  hits.forEach(hit => {
+    const rule = hit.sourceDetail!.rule;
+    hitsByRule[rule] = (hitsByRule[rule] || 0) + 1;
+  });
+
+  return { candidates: candidates.length, hits: hits.length, hitsByRule };
+}
+
+// PTR lookups for every resolved address; in-scope names become subdomains, the rest related assets
+export async function sweepReverseDns(
+  resolver: ResolverPool,
+  target: string,
+  options: ScanOptions,
+  registry: SubdomainRegistry,
+  hooks: ReconHooks
+): Promise<{ lookups: number; hits: number; relatedAssets: RelatedAsset[] }> {
+  const seeds = new Set<string>();
+  if (net.isIP(target)) {
+    seeds.add(target);
+  } else {
+    const [ipv4, ipv6] = await Promise.all([
+      getDNSRecord(resolver, target, 'A').catch(() => [] as string[]),
+      getDNSRecord(resolver, target, 'AAAA').catch(() => [] as string[]),
+    ]);
+    ipv4.concat(ipv6).forEach(ip => seeds.add(ip));
+  }
+  registry.values().forEach(subdomain => subdomain.addresses.forEach(ip => seeds.add(ip)));
+
+  const addresses = new Set<string>();
+  Array.from(seeds).forEach(seed => expandNeighbours(seed, options.reverseDns).forEach(ip => addresses.add(ip)));
+  const lookups = Array.from(addresses).slice(0, options.reverseDns.maxLookups);
+
+  const relatedAssets: RelatedAsset[] = [];
+  const progressStep = Math.max(1, Math.floor(lookups.length / 100));
+  let hits = 0;
+  let completed = 0;
+
+  await mapWithConcurrency(lookups, options.enumeration.concurrency, async (ip) => {
+    const hostnames = await getDNSRecord(resolver, ip, 'PTR').catch(() => [] as string[]);
+
+    for (const hostname of hostnames) {
+      const name = hostname.toLowerCase().replace(/\.$/, '');
+      if (name === target) continue;
+
+      if (name.endsWith(`.${target}`)) {
+        if (registry.has(name)) continue;
+        const forward = await resolveHost(resolver, name).catch(() => [] as string[]);
+        if (await registry.add({ name, addresses: forward, source: 'ptr', sourceDetail: { ip } })) {
+          hits++;
+        }
+      } else if (!relatedAssets.some(asset => asset.hostname === name && asset.ip === ip)) {
+        relatedAssets.push({ hostname: name, ip, source: 'ptr' });
+      }
+    }
+
+    completed++;
+    if (completed % progressStep === 0 || completed === lookups.length) {
+      hooks.onProgress?.('reverse DNS', completed, lookups.length);
+    }
+  });
+
+  return { lookups: lookups.length, hits, relatedAssets };
+}
+
+// Tries an AXFR against every authoritative nameserver (or the configured ones); transferred names join the
+// subdomain list
+export async function checkZoneTransfers(
+  resolver: ResolverPool,
+  target: string,
+  options: ScanOptions['zoneTransfer'],
+  registry: SubdomainRegistry
+): Promise<{
+  summary: ReconResults['zoneTransfers'];
+  findings: ReconFinding[];
+}> {
+  const summary: ReconResults['zoneTransfers'] = [];
+  const findings: ReconFinding[] = [];
+
+  let nameservers = options.nameservers;
+  if (nameservers.length === 0) {
+    try {
+      nameservers = await getDNSRecord(resolver, target, 'NS');
+    } catch (error) {
+      return { summary, findings };
+    }
+  }
+
+  const transfers = await Promise.all(nameservers.map(nameserver => attemptZoneTransfer(target, nameserver, {
+    port: options.port,
+    timeout: options.timeout,
+    lookup: resolver.lookup,
+  })));
+
+  for (const transfer of transfers) {
+    summary.push({
+      nameserver: transfer.nameserver,
+      success: transfer.success,
+      recordCount: transfer.records.length,
+      error: transfer.error,
+    });
+
+    if (!transfer.success) continue;
+
+    findings.push({
+      severity: 'high',
+      type: 'DNS Zone Transfer (AXFR) Allowed',
+      description: `Nameserver ${transfer.nameserver} allowed an unauthenticated zone transfer of ${target}, ` +
+        `disclosing ${transfer.records.length} records${transfer.truncated ? ' (truncated)' : ''} including internal hostnames and addresses.`,
+      cvss: '7.5',
+      remediation: 'Restrict AXFR/IXFR on every authoritative nameserver to the secondary servers that need it ' +
+        '(e.g. BIND allow-transfer, or TSIG-signed transfers).',
+      evidence: { nameserver: transfer.nameserver, records: transfer.records },
+    });
+
+    const addressesByName = new Map<string, string[]>();
+    transfer.records.forEach(record => {
+      const name = record.name.toLowerCase();
+      if (!name.endsWith(`.${target}`) || name.startsWith('*.')) return;
+
+      const addresses = addressesByName.get(name) || [];
+      if (record.type === 'A' || record.type === 'AAAA') addresses.push(record.data);
+      addressesByName.set(name, addresses);
+    });
+
+    // Shallow names first so deeper ones can be linked to their parents
+    const names = Array.from(addressesByName.keys()).sort((a, b) => a.split('.').length - b.split('.').length);
+    for (const name of names) {
+      await registry.add({ name, addresses: addressesByName.get(name)!, source: 'axfr' });
+    }
+  }
+
+  return { summary, findings };
+}
@@ -0,0 +1,100 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ResolverPool } from './resolver-pool';
+import { SubdomainRegistry } from './subdomains';
+import { checkTakeovers, loadTakeoverServices, matchTakeoverService, matchUnclaimedFingerprint, type TakeoverService } from './takeover';
+import { startUdpStandIn, type StandInAnswer, type StandInQuestion } from './test-support/dns-stand-in';
+import { startWebStandIn } from './test-support/web-stand-in';
+
+const service = (name: string, cname: string[], extra: Partial<TakeoverService> = {}): TakeoverService =>
+  ({ service: name, cname, fingerprints: [], nxdomain: false, ...extra });
+
+test('matchTakeoverService picks the most specific suffix anywhere in the chain, whatever the list order', async () => {
+  const services = [
+    service('Catch-all Cloud', ['cloud.test']),
+    service('Cloud Pages', ['pages.cloud.test']),
+    service('Cloud Regions', ['*.cloud.test']),
+  ];
+
+  assert.equal(matchTakeoverService(['site.pages.cloud.test'], services)?.service, 'Cloud Pages');
+  assert.equal(matchTakeoverService(['cdn.example.test', 'edge.eu.cloud.test.'], services)?.service, 'Cloud Regions');
+  assert.equal(matchTakeoverService(['cloud.test'], services)?.service, 'Catch-all Cloud');
+  assert.equal(matchTakeoverService(['cloud.test.example'], services), undefined);
+
+  // The bundled S3 entry covers the bucket endpoints only, not every amazonaws.com service
+  const bundled = await loadTakeoverServices();
+  const serviceFor = (name: string) => matchTakeoverService([name], bundled)?.service;
+  assert.equal(serviceFor('assets.s3.amazonaws.com'), 'AWS S3');
+  assert.equal(serviceFor('assets.s3.eu-west-1.amazonaws.com'), 'AWS S3');
+  assert.equal(serviceFor('assets.s3-website-us-east-1.amazonaws.com'), 'AWS S3');
+  assert.equal(serviceFor('assets.s3-website.eu-central-1.amazonaws.com'), 'AWS S3');
+  assert.equal(serviceFor('d1234.execute-api.us-east-1.amazonaws.com'), undefined);
+  assert.equal(serviceFor('ec2-192-0-2-10.compute-1.amazonaws.com'), undefined);
+  assert.equal(serviceFor('app.eu-west-1.elasticbeanstalk.com'), 'AWS Elastic Beanstalk');
+});
+
+test('matchUnclaimedFingerprint needs the fingerprint and, when the service sets one, the status', () => {
+  const bucket = service('Buckets', ['bucket.test'], { fingerprints: ['NoSuchBucket'], httpStatus: 404 });
+  assert.equal(matchUnclaimedFingerprint(bucket, { statusCode: 404, body: '<Code>NoSuchBucket</Code>' }), 'NoSuchBucket');
+  assert.equal(matchUnclaimedFingerprint(bucket, { statusCode: 200, body: 'Docs about NoSuchBucket errors' }), undefined);
+  assert.equal(matchUnclaimedFingerprint(bucket, { statusCode: 404, body: 'Not Found' }), undefined);
+
+  const pages = service('Pages', ['pages.test'], { fingerprints: ['There isn\'t a site here'] });
+  assert.equal(matchUnclaimedFingerprint(pages, { statusCode: 200, body: 'There isn\'t a site here' }), 'There isn\'t a site here');
+});
+
+test('checkTakeovers flags dangling CNAMEs by NXDOMAIN or by the unclaimed page', async () => {
+  const zone: { [name: string]: StandInAnswer } = {
+    'old.example.test': { answers: [{ name: 'old.example.test', type: 'CNAME', data: 'gone-env.eu-west-1.elasticbeanstalk.com' }] },
+    'assets.example.test': { answers: [{ name: 'assets.example.test', type: 'CNAME', data: 'assets-bucket.s3.amazonaws.com' }] },
+    'docs.example.test': { answers: [{ name: 'docs.example.test', type: 'CNAME', data: 'docs-bucket.s3.amazonaws.com' }] },
+    'www.example.test': { answers: [{ name: 'www.example.test', type: 'CNAME', data: 'lb.example.test' }] },
+  };
+  const server = await startUdpStandIn(({ name, type }: StandInQuestion): StandInAnswer => {
+    const cname = zone[name]?.answers?.[0];
+    if (type === 'CNAME') return zone[name] || {};
+    if (type !== 'A') return {};
+    // Both buckets' names resolve (to the local web stand-in); the Beanstalk environment is gone
+    if (cname?.data.endsWith('.s3.amazonaws.com')) {
+      return { answers: [cname, { name: cname.data, type: 'A', data: '127.0.0.1' }] };
+    }
+    if (name.endsWith('.s3.amazonaws.com')) return { answers: [{ name, type: 'A', data: '127.0.0.1' }] };
+    return { rcode: name.endsWith('elasticbeanstalk.com') ? 3 : 0 };
+  });
+  const web = await startWebStandIn(({ host }) => host.startsWith('assets.')
+    ? { status: 404, body: '<Error><Code>NoSuchBucket</Code></Error>' }
+    : { body: '<title>Docs</title>' });
+  const resolver = new ResolverPool({ servers: [`127.0.0.1:${server.port}`], timeout: 1000 });
+  const registry = new SubdomainRegistry({});
+  for (const name of ['old', 'assets', 'docs', 'www', 'any']) {
+    await registry.add({ name: `${name}.example.test`, addresses: [], source: 'bruteforce', wildcard: name === 'any' });
+  }
+  const probe = { lookup: resolver.lookup, ports: { https: web.port, http: web.port }, fingerprint: async () => [] };
+
+  try {
+    const { checks, findings } = await checkTakeovers(resolver, registry, 2, probe, {});
+    const bySubdomain = Object.fromEntries(checks.map(check => [check.subdomain, check]));
+
+    assert.deepEqual(Object.keys(bySubdomain).sort(), ['assets.example.test', 'docs.example.test', 'old.example.test']);
+    assert.deepEqual(bySubdomain['old.example.test'], {
+      subdomain: 'old.example.test', cnameChain: ['gone-env.eu-west-1.elasticbeanstalk.com'], service: 'AWS Elastic Beanstalk',
+      nxdomain: true, vulnerable: true,
+    });
+    // NXDOMAIN names aren't requested; the others are, and only the unclaimed bucket page counts
+    assert.deepEqual(bySubdomain['assets.example.test'], {
+      subdomain: 'assets.example.test', cnameChain: ['assets-bucket.s3.amazonaws.com'], service: 'AWS S3',
+      nxdomain: false, httpStatus: 404, fingerprint: 'NoSuchBucket', vulnerable: true,
+    });
+    assert.equal(bySubdomain['docs.example.test'].vulnerable, false);
+    assert.equal(bySubdomain['docs.example.test'].httpStatus, 200);
+    assert.deepEqual(web.requests.map(request => request.host.split(':')[0]).sort(), ['assets.example.test', 'docs.example.test']);
+
+    assert.deepEqual(findings.map(finding => [finding.subdomain, finding.severity]).sort(), [
+      ['assets.example.test', 'critical'],
+      ['old.example.test', 'critical'],
+    ]);
+    assert.match(findings.find(finding => finding.subdomain === 'old.example.test')!.description, /does not exist \(NXDOMAIN\)/);
+  } finally {
+    await Promise.all([server.close(), web.close()]);
+  }
+});
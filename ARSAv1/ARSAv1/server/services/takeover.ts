@@ -0,0 +1,167 @@
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { mapWithConcurrency } from './concurrency';
+import { getDNSRecord } from './dns-records';
+import { fetchRootPage, type HttpProbeContext } from './http-probes';
+import type { ResolverPool } from './resolver-pool';
+import type { SubdomainRegistry } from './subdomains';
+import type { ReconFinding, ReconHooks } from './reconnaissance';
+
+const FINGERPRINT_FILE = process.env.TAKEOVER_FINGERPRINTS ||
+  path.resolve(process.cwd(), 'server', 'data', 'takeover-fingerprints.json');
+
+const takeoverServiceSchema = z.object({
+  service: z.string(),
+  // Domain suffixes a hop of the CNAME chain must end with; "*" stands for part of one label, as in s3.*.amazonaws.com
+  cname: z.array(z.string().min(1)).min(1),
+  fingerprints: z.array(z.string().min(1)), // body substrings the service serves for unclaimed names
+  httpStatus: z.number().int().optional(), // when set, the fingerprint only counts with this status
+  nxdomain: z.boolean(), // a CNAME to a non-existent name on this service can be registered by anyone
+});
+
+const fingerprintFileSchema = z.object({
+  services: z.array(takeoverServiceSchema),
+});
+
+export type TakeoverService = z.infer<typeof takeoverServiceSchema>;
+
+export interface TakeoverCheck {
+  subdomain: string;
+  cnameChain: string[];
+  service: string;
+  nxdomain: boolean;
+  fingerprint?: string; // the matched "unclaimed" body text
+  httpStatus?: number;
+  vulnerable: boolean;
+}
+
+// Read on every scan (no cache) so edits to the fingerprint file apply without a restart
+export async function loadTakeoverServices(): Promise<TakeoverService[]> {
+  const content = await fs.promises.readFile(FINGERPRINT_FILE, 'utf-8');
+  return fingerprintFileSchema.parse(JSON.parse(content)).services;
+}
+
+// Matches the domain itself or any name below it
+function suffixPattern(domain: string): RegExp {
+  const source = domain.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('[a-z0-9-]*');
+  return new RegExp(`(?:^|\\.)${source}$`);
+}
+
+// Returns the service whose domain a hop of the CNAME chain belongs to. When several match, the most specific suffix
+// (most labels, then most literal characters) wins, so a broad entry can't shadow a narrower one wherever it is listed.
+export function matchTakeoverService(cnameChain: string[], services: TakeoverService[]): TakeoverService | undefined {
+  const hops = cnameChain.map(name => name.toLowerCase().replace(/\.$/, ''));
+  let best: { service: TakeoverService; labels: number; literals: number } | undefined;
+
+  services.forEach(service => service.cname.forEach(suffix => {
+    const domain = suffix.toLowerCase().replace(/^\./, '');
+    const pattern = suffixPattern(domain);
+    if (!hops.some(hop => pattern.test(hop))) return;
+
+    const labels = domain.split('.').length;
+    const literals = domain.replace(/\*/g, '').length;
+    if (!best || labels > best.labels || (labels === best.labels && literals > best.literals)) {
+      best = { service, labels, literals };
+    }
+  }));
+
+  return best?.service;
+}
+
+export function matchUnclaimedFingerprint(
+  service: TakeoverService,
+  page: { statusCode: number; body: string }
+): string | undefined {
+  if (service.httpStatus !== undefined && service.httpStatus !== page.statusCode) {
+    return undefined;
+  }
+  return service.fingerprints.find(fingerprint => page.body.includes(fingerprint));
+}
+
+// Follows CNAMEs from a subdomain to a service, flagging names that no longer exist or serve an "unclaimed" page
+export async function checkTakeovers(
+  resolver: ResolverPool,
+  registry: SubdomainRegistry,
+  concurrency: number,
+  probe: HttpProbeContext,
+  hooks: ReconHooks
+): Promise<{
+  checks: TakeoverCheck[];
+  findings: ReconFinding[];
+}> {
+  const services = await loadTakeoverServices();
+  const subdomains = registry.values().filter(subdomain => !subdomain.wildcard);
+  const checks: TakeoverCheck[] = [];
+  const findings: ReconFinding[] = [];
+  let completed = 0;
+
+  await mapWithConcurrency(subdomains, concurrency, async (subdomain) => {
+    const cnameChain = await getCnameChain(resolver, subdomain.name);
+    const service = cnameChain.length > 0 ? matchTakeoverService(cnameChain, services) : undefined;
+
+    if (service) {
+      const check: TakeoverCheck = {
+        subdomain: subdomain.name,
+        cnameChain,
+        service: service.service,
+        nxdomain: await isNxdomain(resolver, cnameChain[cnameChain.length - 1]),
+        vulnerable: false,
+      };
+
+      const root = check.nxdomain ? undefined : await fetchRootPage(subdomain.name, probe);
+      if (root) {
+        check.httpStatus = root.page.statusCode;
+        check.fingerprint = matchUnclaimedFingerprint(service, root.page);
+      }
+
+      check.vulnerable = (check.nxdomain && service.nxdomain) || !!check.fingerprint;
+      checks.push(check);
+
+      if (check.vulnerable) {
+        findings.push({
+          severity: 'critical',
+          type: 'Subdomain Takeover',
+          description: `${subdomain.name} points at ${service.service} via ${cnameChain.join(' -> ')}, but ` +
+            (check.fingerprint
+              ? `the service answers with its "unclaimed" page ("${check.fingerprint}").`
+              : `${cnameChain[cnameChain.length - 1]} does not exist (NXDOMAIN).`) +
+            ` Anyone who registers that resource on ${service.service} can serve content and set cookies on ${subdomain.name}.`,
+          cvss: '9.3',
+          remediation: `Remove the DNS record for ${subdomain.name}, or reclaim the resource on ${service.service} before someone else does.`,
+          evidence: check,
+          subdomain: subdomain.name,
+        });
+      }
+    }
+
+    completed++;
+    hooks.onProgress?.('takeover check', completed, subdomains.length);
+  });
+
+  return { checks, findings };
+}
+
+async function getCnameChain(resolver: ResolverPool, hostname: string, maxHops = 10): Promise<string[]> {
+  const chain: string[] = [];
+  let current = hostname;
+
+  while (chain.length < maxHops) {
+    const cnames = await getDNSRecord(resolver, current, 'CNAME').catch(() => [] as string[]);
+    if (cnames.length === 0 || chain.includes(cnames[0])) break;
+    chain.push(cnames[0]);
+    current = cnames[0];
+  }
+
+  return chain;
+}
+
+// c-ares reports NXDOMAIN as ENOTFOUND; ENODATA means the name exists without that record type
+async function isNxdomain(resolver: ResolverPool, hostname: string): Promise<boolean> {
+  try {
+    await getDNSRecord(resolver, hostname, 'A');
+    return false;
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === 'ENOTFOUND';
+  }
+}
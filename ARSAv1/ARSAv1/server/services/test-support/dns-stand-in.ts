@@ -0,0 +1,163 @@
+import dgram from 'dgram';
+import net from 'net';
+import { decodeMessage, encodeName, RECORD_TYPES } from '../dns-wire';
+
+// Local authoritative/recursive DNS stand-ins for tests: answers come from a handler instead of real zones
+
+export interface StandInRecord {
+  name: string;
+  type: 'A' | 'AAAA' | 'CNAME' | 'NS' | 'PTR' | 'TXT' | 'SOA';
+  ttl?: number;
+  data: string; // address, target name or text; SOA data is "mname rname serial"
+}
+
+export interface StandInAnswer {
+  rcode?: number;
+  answers?: StandInRecord[];
+  truncated?: boolean;
+}
+
+export interface StandInQuestion {
+  name: string;
+  type: string;
+}
+
+export interface StandIn {
+  port: number;
+  questions: StandInQuestion[];
+  close(): Promise<void>;
+}
+
+function encodeRecordData(record: StandInRecord): Buffer {
+  switch (record.type) {
+    case 'A':
+      return Buffer.from(record.data.split('.').map(octet => parseInt(octet)));
+    case 'AAAA': {
+      const [head, tail = ''] = record.data.split('::');
+      const headGroups = head ? head.split(':') : [];
+      const tailGroups = tail ? tail.split(':') : [];
+      const groups = record.data.includes('::')
+        ? [...headGroups, ...Array(8 - headGroups.length - tailGroups.length).fill('0'), ...tailGroups]
+        : headGroups;
+      const bytes = Buffer.alloc(16);
+      groups.forEach((group, index) => bytes.writeUInt16BE(parseInt(group, 16), index * 2));
+      return bytes;
+    }
+    case 'TXT': {
+      const text = Buffer.from(record.data, 'utf-8');
+      return Buffer.concat([Buffer.from([text.length]), text]);
+    }
+    case 'SOA': {
+      const [mname, rname, serial] = record.data.split(' ');
+      const numbers = Buffer.alloc(20);
+      numbers.writeUInt32BE(parseInt(serial), 0);
+      [3600, 600, 86400, 300].forEach((value, index) => numbers.writeUInt32BE(value, 4 + index * 4));
+      return Buffer.concat([encodeName(mname), encodeName(rname), numbers]);
+    }
+    default:
+      return encodeName(record.data);
+  }
+}
+
+// A response to `query` (its ID and question echoed) with the given answers and no compression
+export function encodeResponse(query: Buffer, answer: StandInAnswer): Buffer {
+  const questionEnd = 12 + decodeQuestionLength(query);
+  const header = Buffer.alloc(12);
+  header.writeUInt16BE(query.readUInt16BE(0), 0);
+  header.writeUInt16BE(0x8480 | (answer.truncated ? 0x0200 : 0) | (answer.rcode ?? 0), 2); // QR, AA, RA
+  header.writeUInt16BE(1, 4);
+  header.writeUInt16BE(answer.answers?.length ?? 0, 6);
+
+  const records = (answer.answers || []).map(record => {
+    const data = encodeRecordData(record);
+    const fixed = Buffer.alloc(10);
+    fixed.writeUInt16BE(RECORD_TYPES[record.type], 0);
+    fixed.writeUInt16BE(1, 2);
+    fixed.writeUInt32BE(record.ttl ?? 300, 4);
+    fixed.writeUInt16BE(data.length, 8);
+    return Buffer.concat([encodeName(record.name), fixed, data]);
+  });
+
+  return Buffer.concat([header, query.subarray(12, questionEnd), ...records]);
+}
+
+function decodeQuestionLength(query: Buffer): number {
+  let position = 12;
+  while (query[position] !== 0) position += query[position] + 1;
+  return position + 1 + 4 - 12;
+}
+
+function questionOf(query: Buffer): StandInQuestion {
+  const question = decodeMessage(query).questions[0];
+  return { name: question.name.toLowerCase(), type: question.type };
+}
+
+// UDP server; a handler returning undefined leaves the query unanswered so the client times out, and one returning
+// raw bytes has them sent after the query's ID, for clients that must cope with malformed answers
+export function startUdpStandIn(handler: (question: StandInQuestion) => StandInAnswer | Buffer | undefined, port = 0): Promise<StandIn> {
+  const socket = dgram.createSocket('udp4');
+  const questions: StandInQuestion[] = [];
+
+  socket.on('message', (query, remote) => {
+    const question = questionOf(query);
+    questions.push(question);
+    const answer = handler(question);
+    if (Buffer.isBuffer(answer)) socket.send(Buffer.concat([query.subarray(0, 2), answer]), remote.port, remote.address);
+    else if (answer) socket.send(encodeResponse(query, answer), remote.port, remote.address);
+  });
+
+  return new Promise((resolve, reject) => {
+    socket.once('error', reject); // e.g. a fixed port already in use
+    socket.bind(port, '127.0.0.1', () => resolve({
+      port: socket.address().port,
+      questions,
+      close: () => new Promise<void>(done => socket.close(() => done())),
+    }));
+  });
+}
+
+// TCP server speaking length-prefixed DNS. The handler returns the messages to send (an AXFR spans several), or raw
+// bytes to write before closing, for clients that must cope with broken servers. `port` lets it share a UDP
+// stand-in's port, as truncated UDP answers are retried over TCP on the same one.
+export function startTcpStandIn(handler: (question: StandInQuestion) => StandInAnswer[] | Buffer, port = 0): Promise<StandIn> {
+  const questions: StandInQuestion[] = [];
+  const sockets = new Set<net.Socket>();
+
+  const server = net.createServer(socket => {
+    sockets.add(socket);
+    socket.on('close', () => sockets.delete(socket));
+    socket.on('error', () => undefined);
+
+    let pending = Buffer.alloc(0);
+    socket.on('data', chunk => {
+      pending = Buffer.concat([pending, chunk]);
+      if (pending.length < 2 || pending.length < 2 + pending.readUInt16BE(0)) return;
+
+      const query = pending.subarray(2, 2 + pending.readUInt16BE(0));
+      const question = questionOf(query);
+      questions.push(question);
+      const reply = handler(question);
+
+      if (Buffer.isBuffer(reply)) {
+        socket.end(reply);
+        return;
+      }
+      reply.forEach(answer => {
+        const message = encodeResponse(query, answer);
+        const length = Buffer.alloc(2);
+        length.writeUInt16BE(message.length, 0);
+        socket.write(Buffer.concat([length, message]));
+      });
+      socket.end();
+    });
+  });
+
+  return new Promise(resolve => server.listen(port, '127.0.0.1', () => resolve({
+    port: (server.address() as net.AddressInfo).port,
+    questions,
+    close: () => new Promise<void>(done => {
+      sockets.forEach(socket => socket.destroy());
+      server.close(() => done());
+    }),
+  })));
+}
@@ -0,0 +1,101 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import dgram from 'dgram';
+import { probeUdpPort } from './udp-probes';
+import { startUdpStandIn } from './test-support/dns-stand-in';
+
+const options = { timeout: 200, retries: 1 };
+
+// A plain UDP service on a random port: `reply` decides the answer to each datagram, undefined drops it
+async function withUdpServer(reply: (message: Buffer) => Buffer | undefined, run: (port: number, received: Buffer[]) => Promise<void>, port = 0) {
+  const socket = dgram.createSocket('udp4');
+  const received: Buffer[] = [];
+  socket.on('message', (message, remote) => {
+    received.push(message);
+    const answer = reply(message);
+    if (answer) socket.send(answer, remote.port, remote.address);
+  });
+  await new Promise<void>((resolve, reject) => {
+    socket.once('error', reject);
+    socket.bind(port, '127.0.0.1', resolve);
+  });
+  try {
+    await run(socket.address().port, received);
+  } finally {
+    await new Promise<void>(resolve => socket.close(() => resolve()));
+  }
+}
+
+test('ports are open when answered, open|filtered when silent and closed on port unreachable', async () => {
+  await withUdpServer(() => Buffer.from('pong'), async port => {
+    assert.deepEqual(await probeUdpPort('127.0.0.1', port, options),
+      { result: { port, protocol: 'udp', state: 'open', service: 'unknown' }, findings: [] });
+  });
+
+  await withUdpServer(() => undefined, async (port, received) => {
+    assert.equal((await probeUdpPort('127.0.0.1', port, options)).result.state, 'open|filtered');
+    assert.equal(received.length, 2); // the first attempt and one retry
+  });
+
+  // The server above is closed, so its port now answers with ICMP port unreachable
+  let closedPort = 0;
+  await withUdpServer(() => undefined, async port => { closedPort = port; });
+  assert.equal((await probeUdpPort('127.0.0.1', closedPort, options)).result.state, 'closed');
+});
+
+// 5353 is the one unprivileged port with a protocol probe; skipped when an mDNS responder already holds it
+test('DNS servers are identified from version.bind and flagged when they resolve for anyone', async (t) => {
+  const recursive = await startUdpStandIn(({ name }) => name === 'version.bind'
+    ? { answers: [{ name, type: 'TXT', data: 'unbound 1.19.2' }] }
+    : { answers: [{ name, type: 'A', data: '93.184.215.14' }] }, 5353).catch(() => undefined);
+  if (!recursive) return t.skip('port 5353 is in use');
+
+  try {
+    const { result, findings } = await probeUdpPort('127.0.0.1', 5353, options);
+    assert.deepEqual(result, {
+      port: 5353, protocol: 'udp', state: 'open', service: 'domain', product: 'Unbound', version: '1.19.2', banner: 'unbound 1.19.2',
+    });
+    assert.deepEqual(findings.map(finding => finding.type), ['Open DNS Resolver']);
+    assert.deepEqual(recursive.questions, [{ name: 'version.bind', type: 'TXT' }, { name: 'example.com', type: 'A' }]);
+  } finally {
+    await recursive.close();
+  }
+
+  const authoritative = await startUdpStandIn(() => ({ rcode: 5 }), 5353); // refuses both queries
+  try {
+    const { result, findings } = await probeUdpPort('127.0.0.1', 5353, options);
+    assert.equal(result.service, 'domain');
+    assert.deepEqual(findings, []);
+  } finally {
+    await authoritative.close();
+  }
+});
+
+test('NTP mode 6 replies are an amplification finding only when larger than the request', async (t) => {
+  // READVAR response header (mode 6, response bit set) followed by the system variables
+  const readvarReply = (variables: string) => Buffer.concat([
+    Buffer.from([0x16, 0x82, 0x00, 0x01, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00]),
+    Buffer.from(variables, 'latin1'),
+  ]);
+  const probeNtp = async (variables: string) => {
+    let outcome: Awaited<ReturnType<typeof probeUdpPort>> | undefined;
+    await withUdpServer(() => readvarReply(variables), async port => { outcome = await probeUdpPort('127.0.0.1', port, options); }, 123);
+    return outcome;
+  };
+
+  const large = await probeNtp('version="ntpd 4.2.8p15@1.3728-o", processor="x86_64", system="Linux/5.10.0", leap=0, stratum=2')
+    .catch(() => undefined);
+  if (!large) return t.skip('port 123 is unavailable');
+
+  assert.deepEqual(large.result, {
+    port: 123, protocol: 'udp', state: 'open', service: 'ntp', product: 'ntpd', version: '4.2.8p15',
+    banner: 'ntpd 4.2.8p15@1.3728-o',
+  });
+  assert.deepEqual(large.findings.map(finding => [finding.type, finding.severity]), [['NTP Mode 6 Amplification', 'medium']]);
+  assert.deepEqual(large.findings[0].evidence, { host: '127.0.0.1', port: 123, requestBytes: 12, responseBytes: 106, amplification: 8.8 });
+
+  // An empty variable list comes back the same size as the 12-byte request
+  const small = await probeNtp('');
+  assert.deepEqual(small!.findings.map(finding => [finding.type, finding.severity]), [['NTP Mode 6 Queries Answered', 'low']]);
+  assert.deepEqual(small!.findings[0].evidence, { host: '127.0.0.1', port: 123, requestBytes: 12, responseBytes: 12, amplification: 1 });
+});
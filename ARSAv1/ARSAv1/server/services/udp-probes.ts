@@ -0,0 +1,317 @@
+import crypto from 'crypto';
+import dgram from 'dgram';
+import net from 'net';
+import { encodeQuery, decodeMessage, recordsOfType } from './dns-wire';
+import type { ReconFinding } from './reconnaissance';
+
+// UDP has no handshake: a port is open when a probe gets an answer, closed when the host returns ICMP port
+// unreachable, and open|filtered when nothing comes back (the datagram or the reply may have been dropped)
+
+export type UdpPortState = 'open' | 'open|filtered' | 'closed';
+
+export interface UdpPortResult {
+  port: number;
+  protocol: 'udp';
+  state: UdpPortState;
+  service?: string;
+  product?: string;
+  version?: string;
+  banner?: string;
+}
+
+export interface UdpProbeOptions {
+  timeout: number; // per attempt
+  retries: number; // extra attempts when nothing comes back
+}
+
+interface UdpProbe {
+  service: string;
+  ports: number[];
+  payload: () => Buffer;
+  // Returns undefined when the response doesn't belong to this protocol
+  identify: (response: Buffer, request: Buffer) => Omit<UdpPortResult, 'port' | 'protocol' | 'state'> | undefined;
+  // Follow-up checks on an identified service; may send further datagrams
+  audit?: (host: string, port: number, response: Buffer, request: Buffer, options: UdpProbeOptions) => Promise<ReconFinding[]>;
+}
+
+// Any recursive resolver can answer for this name; an authoritative-only server refuses or refers
+const OPEN_RESOLVER_TEST_NAME = 'example.com';
+
+// Sends one datagram on a connected socket and collects replies until the peer goes quiet
+function sendDatagram(host: string, port: number, payload: Buffer, timeout: number): Promise<{ response?: Buffer; refused: boolean }> {
+  return new Promise((resolve) => {
+    const socket = dgram.createSocket(net.isIPv6(host) ? 'udp6' : 'udp4');
+    const datagrams: Buffer[] = [];
+    let done = false;
+    let idleTimer: NodeJS.Timeout | undefined;
+
+    const finish = (refused = false) => {
+      if (done) return;
+      done = true;
+      clearTimeout(overallTimer);
+      if (idleTimer) clearTimeout(idleTimer);
+      socket.close();
+      resolve({ response: datagrams.length > 0 ? Buffer.concat(datagrams) : undefined, refused });
+    };
+    const overallTimer = setTimeout(() => finish(), timeout);
+
+    socket.on('message', (message) => {
+      datagrams.push(message);
+      // Some services (NTP control, SNMP bulk) answer in several datagrams
+      if (idleTimer) clearTimeout(idleTimer);
+      idleTimer = setTimeout(() => finish(), 300);
+    });
+    // On a connected socket the kernel reports ICMP port unreachable as ECONNREFUSED
+    socket.on('error', (error: NodeJS.ErrnoException) => finish(error.code === 'ECONNREFUSED'));
+
+    socket.connect(port, host, () => {
+      socket.send(payload, (error) => {
+        if (error) finish((error as NodeJS.ErrnoException).code === 'ECONNREFUSED');
+      });
+    });
+  });
+}
+
+async function sendWithRetries(host: string, port: number, payload: Buffer, options: UdpProbeOptions) {
+  let attempt: { response?: Buffer; refused: boolean } = { refused: false };
+  for (let i = 0; i <= options.retries; i++) {
+    attempt = await sendDatagram(host, port, payload, options.timeout);
+    if (attempt.response || attempt.refused) break;
+  }
+  return attempt;
+}
+
+// Minimal BER reader for SNMP: tag, definite length (short or long form), value bounds
+function readTlv(buffer: Buffer, offset: number): { tag: number; start: number; end: number } {
+  const tag = buffer[offset];
+  let length = buffer[offset + 1];
+  let start = offset + 2;
+
+  if (length & 0x80) {
+    const bytes = length & 0x7f;
+    length = 0;
+    for (let i = 0; i < bytes; i++) {
+      length = (length << 8) | buffer[start + i];
+    }
+    start += bytes;
+  }
+  if (start + length > buffer.length) {
+    throw new Error('BER value runs past end of message');
+  }
+  return { tag, start, end: start + length };
+}
+
+function parseSnmpResponse(response: Buffer): { community: string; errorStatus: number; value?: string } | undefined {
+  try {
+    const message = readTlv(response, 0);
+    const version = readTlv(response, message.start);
+    const community = readTlv(response, version.end);
+    const pdu = readTlv(response, community.end);
+    if (message.tag !== 0x30 || pdu.tag !== 0xa2) return undefined; // GetResponse
+
+    const requestId = readTlv(response, pdu.start);
+    const errorStatus = readTlv(response, requestId.end);
+    const errorIndex = readTlv(response, errorStatus.end);
+    const varbinds = readTlv(response, errorIndex.end);
+    const varbind = readTlv(response, varbinds.start);
+    const oid = readTlv(response, varbind.start);
+    const value = readTlv(response, oid.end);
+
+    return {
+      community: response.toString('latin1', community.start, community.end),
+      errorStatus: response[errorStatus.start],
+      value: value.tag === 0x04 ? response.toString('utf-8', value.start, value.end) : undefined,
+    };
+  } catch (error) {
+    return undefined;
+  }
+}
+
+// SNMPv2c GetRequest for sysDescr.0 (1.3.6.1.2.1.1.1.0) with the "public" community
+function snmpGetSysDescr(): Buffer {
+  const requestId = crypto.randomBytes(4);
+  requestId[0] &= 0x7f; // keep the INTEGER positive
+  return Buffer.concat([
+    Buffer.from([0x30, 0x29, 0x02, 0x01, 0x01, 0x04, 0x06]),
+    Buffer.from('public', 'latin1'),
+    Buffer.from([0xa0, 0x1c, 0x02, 0x04]),
+    requestId,
+    Buffer.from([0x02, 0x01, 0x00, 0x02, 0x01, 0x00, 0x30, 0x0e, 0x30, 0x0c, 0x06, 0x08, 0x2b, 0x06, 0x01, 0x02, 0x01, 0x01, 0x01, 0x00, 0x05, 0x00]),
+  ]);
+}
+
+// IKEv1 Main Mode proposal (AES-128/SHA1/PSK/MODP-1024), the same shape ike-scan sends by default
+function ikeMainModeProposal(): Buffer {
+  const transform = Buffer.from([
+    0x00, 0x00, 0x00, 0x24, 0x01, 0x01, 0x00, 0x00,
+    0x80, 0x01, 0x00, 0x07, // encryption: AES-CBC
+    0x80, 0x0e, 0x00, 0x80, // key length: 128
+    0x80, 0x02, 0x00, 0x02, // hash: SHA1
+    0x80, 0x03, 0x00, 0x01, // authentication: pre-shared key
+    0x80, 0x04, 0x00, 0x02, // group: MODP-1024
+    0x80, 0x0b, 0x00, 0x01, // life type: seconds
+    0x80, 0x0c, 0x70, 0x80, // life duration: 28800
+  ]);
+  const proposal = Buffer.concat([Buffer.from([0x00, 0x00, 0x00, 0x2c, 0x01, 0x01, 0x00, 0x01]), transform]);
+  const sa = Buffer.concat([Buffer.from([0x00, 0x00, 0x00, 0x38, 0x00, 0x00, 0x00, 0x01, 0x00, 0x00, 0x00, 0x01]), proposal]);
+
+  const header = Buffer.alloc(28);
+  crypto.randomBytes(8).copy(header, 0); // initiator cookie; responder cookie stays zero
+  header[16] = 0x01; // next payload: SA
+  header[17] = 0x10; // version 1.0
+  header[18] = 0x02; // exchange: Identity Protection (Main Mode)
+  header.writeUInt32BE(28 + sa.length, 24);
+
+  return Buffer.concat([header, sa]);
+}
+
+// NTP control message (mode 6), opcode READVAR, sequence 1, no association: asks the daemon for its system variables
+const NTP_READVAR = Buffer.from([0x16, 0x02, 0x00, 0x01, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00]);
+
+const UDP_PROBES: UdpProbe[] = [
+  {
+    service: 'domain',
+    ports: [53, 5353],
+    payload: () => encodeQuery('version.bind', 'TXT', { qclass: 'CH', recursionDesired: false }),
+    identify: (response, request) => {
+      try {
+        const message = decodeMessage(response);
+        if (message.id !== request.readUInt16BE(0)) return undefined;
+
+        const version = recordsOfType(message.answers, 'TXT')[0]?.[0];
+        const product = version?.match(/^unbound ([\d.]+)/i) ? 'Unbound'
+          : version?.match(/^dnsmasq-/i) ? 'dnsmasq'
+          : version?.match(/PowerDNS/i) ? 'PowerDNS'
+          : version?.match(/^\d+\.\d+\.\d+/) ? 'BIND'
+          : undefined;
+        return {
+          service: 'domain',
+          product,
+          version: version?.match(/(\d+\.\d+(?:\.\d+)?)/)?.[1],
+          banner: version,
+        };
+      } catch (error) {
+        return undefined;
+      }
+    },
+    audit: async (host, port, _response, _request, options) => {
+      const query = encodeQuery(OPEN_RESOLVER_TEST_NAME, 'A');
+      const { response } = await sendWithRetries(host, port, query, options);
+      if (!response) return [];
+
+      try {
+        const message = decodeMessage(response);
+        if (!message.recursionAvailable || message.rcode !== 0 || message.answers.length === 0) return [];
+        return [{
+          severity: 'high',
+          type: 'Open DNS Resolver',
+          description: `The DNS server on ${host}:${port}/udp resolves arbitrary names (${OPEN_RESOLVER_TEST_NAME}) for anyone, which lets it be used for reflection/amplification attacks and exposes it to cache poisoning.`,
+          cvss: '7.5',
+          remediation: 'Restrict recursion to internal clients (e.g. allow-recursion / access-control lists) or disable it on authoritative servers.',
+          evidence: { host, port, query: OPEN_RESOLVER_TEST_NAME, answers: message.answers.map(answer => answer.data) },
+        }];
+      } catch (error) {
+        return [];
+      }
+    },
+  },
+  {
+    service: 'ntp',
+    ports: [123],
+    payload: () => NTP_READVAR,
+    identify: (response) => {
+      // Mode 6 reply with the response bit set on the READVAR opcode
+      if (response.length < 12 || (response[0] & 0x07) !== 6 || (response[1] & 0x9f) !== 0x82) return undefined;
+
+      const variables = response.toString('latin1', 12);
+      const version = variables.match(/version="([^"]*)"/)?.[1];
+      return {
+        service: 'ntp',
+        product: version?.match(/^ntpd/) ? 'ntpd' : undefined,
+        version: version?.match(/ntpd ([\w.]+)/)?.[1],
+        banner: version,
+      };
+    },
+    audit: async (host, port, response, request) => {
+      // Answering at all discloses the daemon's variables; it is only an amplifier when the reply outweighs the request
+      const factor = Math.round(response.length / request.length * 10) / 10;
+      const evidence = { host, port, requestBytes: request.length, responseBytes: response.length, amplification: factor };
+      const remediation = 'Disable remote control queries (e.g. "restrict default noquery" in ntp.conf) or filter mode 6/7 traffic at the network edge.';
+
+      if (response.length <= request.length) {
+        return [{
+          severity: 'low',
+          type: 'NTP Mode 6 Queries Answered',
+          description: `The NTP server on ${host}:${port}/udp answers mode 6 control queries from anyone, disclosing its system variables. The ${response.length}-byte reply to a ${request.length}-byte READVAR request is no larger than the request, so it does not amplify.`,
+          cvss: '3.7',
+          remediation,
+          evidence,
+        }];
+      }
+
+      return [{
+        severity: 'medium',
+        type: 'NTP Mode 6 Amplification',
+        description: `The NTP server on ${host}:${port}/udp answers mode 6 control queries from anyone; a ${request.length}-byte READVAR request returned ${response.length} bytes (about ${factor}x), which can be abused for reflection/amplification attacks.`,
+        cvss: '5.3',
+        remediation,
+        evidence,
+      }];
+    },
+  },
+  {
+    service: 'snmp',
+    ports: [161],
+    payload: snmpGetSysDescr,
+    identify: (response) => {
+      const parsed = parseSnmpResponse(response);
+      return parsed ? { service: 'snmp', banner: parsed.value } : undefined;
+    },
+    audit: async (host, port, response) => {
+      const parsed = parseSnmpResponse(response);
+      if (!parsed || parsed.community !== 'public' || parsed.errorStatus !== 0) return [];
+      return [{
+        severity: 'high',
+        type: 'SNMP Default Community',
+        description: `The SNMP agent on ${host}:${port}/udp accepts the default "public" community, exposing device configuration and network details${parsed.value ? ` (sysDescr: ${parsed.value})` : ''}.`,
+        cvss: '7.5',
+        remediation: 'Change or disable the default community strings, move to SNMPv3 with authentication, and restrict SNMP to management networks.',
+        evidence: { host, port, community: 'public', sysDescr: parsed.value },
+      }];
+    },
+  },
+  {
+    service: 'isakmp',
+    ports: [500],
+    payload: ikeMainModeProposal,
+    identify: (response, request) => {
+      // Replies echo the initiator cookie and carry an ISAKMP version byte
+      if (response.length < 28 || !response.subarray(0, 8).equals(request.subarray(0, 8)) || (response[17] & 0xf0) !== 0x10) {
+        return undefined;
+      }
+      return { service: 'isakmp', banner: response[16] === 0x01 ? 'Accepted Main Mode proposal' : 'Answered with notification' };
+    },
+  },
+];
+
+export async function probeUdpPort(
+  host: string,
+  port: number,
+  options: UdpProbeOptions
+): Promise<{ result: UdpPortResult; findings: ReconFinding[] }> {
+  // Ports without a protocol probe get an empty datagram, which some services still answer
+  const probe = UDP_PROBES.find(candidate => candidate.ports.includes(port));
+  const request = probe ? probe.payload() : Buffer.alloc(0);
+  const { response, refused } = await sendWithRetries(host, port, request, options);
+
+  if (!response) {
+    return { result: { port, protocol: 'udp', state: refused ? 'closed' : 'open|filtered', service: probe?.service }, findings: [] };
+  }
+
+  const identification = probe?.identify(response, request);
+  const findings = identification && probe?.audit ? await probe.audit(host, port, response, request, options) : [];
+  return {
+    result: { port, protocol: 'udp', state: 'open', service: 'unknown', ...identification },
+    findings,
+  };
+}
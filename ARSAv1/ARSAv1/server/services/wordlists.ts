@@ -0,0 +1,54 @@
+import fs from 'fs';
+import path from 'path';
+import { storage } from '../storage';
+import { BUNDLED_WORDLISTS, type ScanOptions } from '@shared/schema';
+
+export type BundledWordlist = typeof BUNDLED_WORDLISTS[number];
+
+const WORDLIST_DIR = process.env.WORDLIST_DIR || path.resolve(process.cwd(), 'server', 'data', 'wordlists');
+
+// A single DNS label: letters, digits and inner hyphens, optionally dotted for multi-level prefixes
+const candidateRegex = /^[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?(\.[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?)*$/;
+
+const bundledCache = new Map<BundledWordlist, string[]>();
+
+// Normalizes raw wordlist text: one candidate per line, '#' comments and invalid labels dropped, duplicates removed
+export function parseWordlist(content: string): string[] {
+  const seen = new Set<string>();
+  const entries: string[] = [];
+
+  content.split(/\r?\n/).forEach(line => {
+    const entry = line.replace(/#.*$/, '').trim().toLowerCase();
+    if (entry && candidateRegex.test(entry) && !seen.has(entry)) {
+      seen.add(entry);
+      entries.push(entry);
+    }
+  });
+
+  return entries;
+}
+
+export async function loadBundledWordlist(name: BundledWordlist): Promise<string[]> {
+  const cached = bundledCache.get(name);
+  if (cached) {
+    return cached;
+  }
+
+  const content = await fs.promises.readFile(path.join(WORDLIST_DIR, `${name}.txt`), 'utf-8');
+  const entries = parseWordlist(content);
+  bundledCache.set(name, entries);
+  return entries;
+}
+
+// Picks the uploaded wordlist when the scan names one, otherwise the bundled list
+export async function resolveWordlist(options: ScanOptions['enumeration']): Promise<string[]> {
+  if (options.wordlistId) {
+    const wordlist = await storage.getWordlist(options.wordlistId);
+    if (!wordlist) {
+      throw new Error(`Wordlist ${options.wordlistId} not found`);
+    }
+    return wordlist.entries;
+  }
+
+  return loadBundledWordlist(options.wordlist);
+}
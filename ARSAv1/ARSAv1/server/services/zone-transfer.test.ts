@@ -0,0 +1,63 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { attemptZoneTransfer } from './zone-transfer';
+import { startTcpStandIn, type StandInAnswer } from './test-support/dns-stand-in';
+
+const SOA = { name: 'example.test', type: 'SOA' as const, data: 'ns1.example.test hostmaster.example.test 2024010101' };
+
+// A transfer split over two messages, as servers do for larger zones
+const TRANSFER: StandInAnswer[] = [
+  { answers: [SOA, { name: 'example.test', type: 'NS', data: 'ns1.example.test' }, { name: 'www.example.test', type: 'A', data: '192.0.2.10' }] },
+  { answers: [{ name: 'vpn.internal.example.test', type: 'A', data: '10.0.0.5' }, SOA] },
+];
+
+test('attemptZoneTransfer collects every record up to the closing SOA', async () => {
+  const server = await startTcpStandIn(() => TRANSFER);
+  try {
+    const result = await attemptZoneTransfer('example.test', '127.0.0.1', { port: server.port, timeout: 2000 });
+
+    assert.equal(result.success, true);
+    assert.equal(result.records.length, 5);
+    assert.deepEqual(result.records.filter(record => record.type === 'A').map(record => record.name), ['www.example.test', 'vpn.internal.example.test']);
+    assert.deepEqual(server.questions, [{ name: 'example.test', type: 'AXFR' }]);
+  } finally {
+    await server.close();
+  }
+});
+
+test('attemptZoneTransfer reports a refused transfer', async () => {
+  const server = await startTcpStandIn(() => [{ rcode: 5 }]);
+  try {
+    const result = await attemptZoneTransfer('example.test', '127.0.0.1', { port: server.port, timeout: 2000 });
+
+    assert.equal(result.success, false);
+    assert.equal(result.error, 'REFUSED');
+    assert.deepEqual(result.records, []);
+  } finally {
+    await server.close();
+  }
+});
+
+test('attemptZoneTransfer fails a transfer closed before the closing SOA', async () => {
+  const server = await startTcpStandIn(() => TRANSFER.slice(0, 1));
+  try {
+    const result = await attemptZoneTransfer('example.test', '127.0.0.1', { port: server.port, timeout: 2000 });
+
+    assert.equal(result.success, false);
+    assert.equal(result.error, 'Transfer ended before closing SOA record');
+  } finally {
+    await server.close();
+  }
+});
+
+test('attemptZoneTransfer stops at maxRecords and still counts the transfer as allowed', async () => {
+  const server = await startTcpStandIn(() => TRANSFER);
+  try {
+    const result = await attemptZoneTransfer('example.test', '127.0.0.1', { port: server.port, timeout: 2000, maxRecords: 2 });
+
+    assert.equal(result.success, true);
+    assert.equal(result.truncated, true);
+  } finally {
+    await server.close();
+  }
+});
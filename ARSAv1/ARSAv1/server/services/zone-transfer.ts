@@ -0,0 +1,98 @@
+import net from 'net';
+import { encodeQuery, decodeMessage, RCODES, type DnsRecord } from './dns-wire';
+
+export interface ZoneTransferResult {
+  nameserver: string;
+  success: boolean;
+  records: DnsRecord[];
+  truncated?: boolean; // stopped at maxRecords; the server still allowed the transfer
+  error?: string;
+}
+
+export interface ZoneTransferOptions {
+  port?: number;
+  timeout?: number;
+  maxRecords?: number;
+  lookup?: net.LookupFunction; // resolves the nameserver's hostname
+}
+
+// Requests a full AXFR of `zone` over TCP. The transfer is complete once the closing SOA arrives.
+export async function attemptZoneTransfer(
+  zone: string,
+  nameserver: string,
+  options: ZoneTransferOptions = {}
+): Promise<ZoneTransferResult> {
+  const { port = 53, timeout = 10000, maxRecords = 100000, lookup } = options;
+
+  return new Promise((resolve) => {
+    const socket = new net.Socket();
+    const records: DnsRecord[] = [];
+    let pending = Buffer.alloc(0);
+    let soaCount = 0;
+    let truncated = false;
+    let settled = false;
+
+    const finish = (error?: string) => {
+      if (settled) return;
+      settled = true;
+      socket.destroy();
+      const success = !error && (soaCount >= 2 || truncated);
+      resolve({
+        nameserver,
+        success,
+        records: success ? records : [],
+        truncated: truncated || undefined,
+        error: success ? undefined : error || 'Transfer ended before closing SOA record',
+      });
+    };
+
+    socket.setTimeout(timeout);
+    socket.on('timeout', () => finish('Timed out'));
+    socket.on('error', (error) => finish(error.message));
+    socket.on('close', () => finish());
+
+    socket.on('connect', () => {
+      const query = encodeQuery(zone, 'AXFR', { recursionDesired: false });
+      const length = Buffer.alloc(2);
+      length.writeUInt16BE(query.length, 0);
+      socket.write(Buffer.concat([length, query]));
+    });
+
+    // Each TCP DNS message is prefixed with its 2-byte length; a transfer spans many messages
+    socket.on('data', (chunk) => {
+      pending = Buffer.concat([pending, chunk]);
+
+      while (pending.length >= 2) {
+        const messageLength = pending.readUInt16BE(0);
+        if (pending.length < 2 + messageLength) break;
+
+        const messageBuffer = pending.subarray(2, 2 + messageLength);
+        pending = pending.subarray(2 + messageLength);
+
+        try {
+          const message = decodeMessage(messageBuffer);
+          if (message.rcode !== 0) {
+            return finish(RCODES[message.rcode] || `RCODE ${message.rcode}`);
+          }
+
+          for (const record of message.answers) {
+            if (record.type === 'SOA') soaCount++;
+            records.push(record);
+          }
+        } catch (error) {
+          return finish((error as Error).message);
+        }
+
+        if (soaCount >= 2) {
+          return finish();
+        }
+        if (records.length >= maxRecords) {
+          truncated = true;
+          return finish();
+        }
+      }
+    });
+
+    socket.connect({ port, host: nameserver, lookup });
+  });
+}
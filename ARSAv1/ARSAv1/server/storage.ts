@@ -1,6 +1,6 @@
-import { users, scans, vulnerabilities, subdomains, technologies, mitreAttackTechniques, vulnerabilityMitreMapping, type User, type InsertUser, type Scan, type InsertScan, type Vulnerability, type InsertVulnerability, type Subdomain, type InsertSubdomain, type Technology, type InsertTechnology, type MitreAttackTechnique, type InsertMitreAttackTechnique, type VulnerabilityMitreMapping, type InsertVulnerabilityMitreMapping } from "@shared/schema";
+import { users, scans, vulnerabilities, subdomains, technologies, httpEndpoints, services, wordlists, mitreAttackTechniques, vulnerabilityMitreMapping, type User, type InsertUser, type Scan, type InsertScan, type Vulnerability, type InsertVulnerability, type Subdomain, type InsertSubdomain, type Technology, type InsertTechnology, type HttpEndpoint, type InsertHttpEndpoint, type Service, type InsertService, type ServiceFilter, type Wordlist, type InsertWordlist, type ScanOptions, type MitreAttackTechnique, type InsertMitreAttackTechnique, type VulnerabilityMitreMapping, type InsertVulnerabilityMitreMapping } from "@shared/schema";
 import { db } from "./db";
-import { eq } from "drizzle-orm";
+import { and, asc, eq, type SQL } from "drizzle-orm";
 
 export interface IStorage {
   // User operations
@@ -9,7 +9,7 @@ export interface IStorage {
   createUser(user: InsertUser): Promise<User>;
   
   // Scan operations
-  createScan(scan: { target: string; scanType: string }): Promise<Scan>;
+  createScan(scan: { target: string; scanType: string; options?: ScanOptions }): Promise<Scan>;
   getScan(id: number): Promise<Scan | undefined>;
   getScans(): Promise<Scan[]>;
   updateScan(id: number, updates: Partial<Scan>): Promise<Scan | undefined>;
@@ -21,11 +21,25 @@ export interface IStorage {
   // Subdomain operations
   createSubdomain(subdomain: InsertSubdomain): Promise<Subdomain>;
   getSubdomainsByScan(scanId: number): Promise<Subdomain[]>;
+  updateSubdomain(id: number, updates: Partial<Subdomain>): Promise<Subdomain | undefined>;
   
   // Technology operations
   createTechnology(technology: InsertTechnology): Promise<Technology>;
   getTechnologiesByScan(scanId: number): Promise<Technology[]>;
   
+  // HTTP endpoint operations
+  createHttpEndpoint(endpoint: InsertHttpEndpoint): Promise<HttpEndpoint>;
+  getHttpEndpointsByScan(scanId: number): Promise<HttpEndpoint[]>;
+  
+  // Service operations
+  createService(service: InsertService): Promise<Service>;
+  getServices(filter: ServiceFilter): Promise<Service[]>;
+  
+  // Wordlist operations
+  createWordlist(wordlist: InsertWordlist): Promise<Wordlist>;
+  getWordlist(id: number): Promise<Wordlist | undefined>;
+  getWordlists(): Promise<Wordlist[]>;
+  
   // MITRE ATT&CK operations
   createMitreAttackTechnique(technique: InsertMitreAttackTechnique): Promise<MitreAttackTechnique>;
   getMitreAttackTechnique(techniqueId: string): Promise<MitreAttackTechnique | undefined>;
@@ -43,11 +57,17 @@ export class MemStorage implements IStorage {
   private vulnerabilities: Map<number, Vulnerability>;
   private subdomains: Map<number, Subdomain>;
   private technologies: Map<number, Technology>;
+  private httpEndpoints: Map<number, HttpEndpoint>;
+  private services: Map<number, Service>;
+  private wordlists: Map<number, Wordlist>;
   private currentUserId: number;
   private currentScanId: number;
   private currentVulnerabilityId: number;
   private currentSubdomainId: number;
   private currentTechnologyId: number;
+  private currentHttpEndpointId: number;
+  private currentServiceId: number;
+  private currentWordlistId: number;
 
   constructor() {
     this.users = new Map();
@@ -55,11 +75,17 @@ export class MemStorage implements IStorage {
     this.vulnerabilities = new Map();
     this.subdomains = new Map();
     this.technologies = new Map();
+    this.httpEndpoints = new Map();
+    this.services = new Map();
+    this.wordlists = new Map();
     this.currentUserId = 1;
     this.currentScanId = 1;
     this.currentVulnerabilityId = 1;
     this.currentSubdomainId = 1;
     this.currentTechnologyId = 1;
+    this.currentHttpEndpointId = 1;
+    this.currentServiceId = 1;
+    this.currentWordlistId = 1;
   }
 
   async getUser(id: number): Promise<User | undefined> {
@@ -79,11 +105,12 @@ export class MemStorage implements IStorage {
     return user;
   }
 
-  async createScan(scanRequest: { target: string; scanType: string }): Promise<Scan> {
+  async createScan(scanRequest: { target: string; scanType: string; options?: ScanOptions }): Promise<Scan> {
     const id = this.currentScanId++;
     const scan: Scan = { 
       ...scanRequest, 
       id, 
+      options: scanRequest.options || null,
       status: 'pending',
       createdAt: new Date(),
       completedAt: null,
@@ -120,7 +147,10 @@ export class MemStorage implements IStorage {
       ...insertVulnerability, 
       id,
       cvss: insertVulnerability.cvss || null,
-      remediation: insertVulnerability.remediation || null
+      remediation: insertVulnerability.remediation || null,
+      source: insertVulnerability.source || 'ai',
+      evidence: insertVulnerability.evidence ?? null,
+      subdomainId: insertVulnerability.subdomainId ?? null
     };
     this.vulnerabilities.set(id, vulnerability);
     return vulnerability;
@@ -138,6 +168,12 @@ export class MemStorage implements IStorage {
       ...insertSubdomain, 
       id,
       ipAddress: insertSubdomain.ipAddress || null,
+      addresses: insertSubdomain.addresses ?? null,
+      httpStatus: insertSubdomain.httpStatus ?? null,
+      title: insertSubdomain.title || null,
+      source: insertSubdomain.source || null,
+      sourceDetail: insertSubdomain.sourceDetail ?? null,
+      parentId: insertSubdomain.parentId ?? null,
       technologies: insertSubdomain.technologies || null
     };
     this.subdomains.set(id, subdomain);
@@ -150,6 +186,15 @@ export class MemStorage implements IStorage {
     );
   }
 
+  async updateSubdomain(id: number, updates: Partial<Subdomain>): Promise<Subdomain | undefined> {
+    const subdomain = this.subdomains.get(id);
+    if (!subdomain) return undefined;
+
+    const updatedSubdomain = { ...subdomain, ...updates };
+    this.subdomains.set(id, updatedSubdomain);
+    return updatedSubdomain;
+  }
+
   async createTechnology(insertTechnology: InsertTechnology): Promise<Technology> {
     const id = this.currentTechnologyId++;
     const technology: Technology = { 
@@ -168,6 +213,77 @@ export class MemStorage implements IStorage {
     );
   }
 
+  async createHttpEndpoint(insertEndpoint: InsertHttpEndpoint): Promise<HttpEndpoint> {
+    const id = this.currentHttpEndpointId++;
+    const endpoint: HttpEndpoint = {
+      ...insertEndpoint,
+      id,
+      ipAddress: insertEndpoint.ipAddress ?? null,
+      statusCode: insertEndpoint.statusCode ?? null,
+      title: insertEndpoint.title ?? null,
+      headers: insertEndpoint.headers ?? null,
+      technologies: insertEndpoint.technologies ?? null
+    };
+    this.httpEndpoints.set(id, endpoint);
+    return endpoint;
+  }
+
+  async getHttpEndpointsByScan(scanId: number): Promise<HttpEndpoint[]> {
+    return Array.from(this.httpEndpoints.values()).filter(
+      (endpoint) => endpoint.scanId === scanId
+    );
+  }
+
+  async createService(insertService: InsertService): Promise<Service> {
+    const id = this.currentServiceId++;
+    const service: Service = {
+      ...insertService,
+      id,
+      ipAddress: insertService.ipAddress ?? null,
+      service: insertService.service ?? null,
+      product: insertService.product ?? null,
+      version: insertService.version ?? null,
+      banner: insertService.banner ?? null,
+      firstSeen: insertService.firstSeen ?? new Date(),
+      lastSeen: insertService.lastSeen ?? new Date()
+    };
+    this.services.set(id, service);
+    return service;
+  }
+
+  async getServices(filter: ServiceFilter): Promise<Service[]> {
+    return Array.from(this.services.values())
+      .filter((service) =>
+        (filter.scanId === undefined || service.scanId === filter.scanId) &&
+        (filter.host === undefined || service.host === filter.host) &&
+        (filter.ipAddress === undefined || service.ipAddress === filter.ipAddress) &&
+        (filter.port === undefined || service.port === filter.port) &&
+        (filter.transport === undefined || service.transport === filter.transport) &&
+        (filter.service === undefined || service.service === filter.service) &&
+        (filter.product === undefined || service.product === filter.product)
+      )
+      .sort((a, b) => a.host.localeCompare(b.host) || a.port - b.port);
+  }
+
+  async createWordlist(insertWordlist: InsertWordlist): Promise<Wordlist> {
+    const id = this.currentWordlistId++;
+    const wordlist: Wordlist = {
+      ...insertWordlist,
+      id,
+      createdAt: new Date()
+    };
+    this.wordlists.set(id, wordlist);
+    return wordlist;
+  }
+
+  async getWordlist(id: number): Promise<Wordlist | undefined> {
+    return this.wordlists.get(id);
+  }
+
+  async getWordlists(): Promise<Wordlist[]> {
+    return Array.from(this.wordlists.values());
+  }
+
   async createMitreAttackTechnique(insertTechnique: InsertMitreAttackTechnique): Promise<MitreAttackTechnique> {
     const id = Date.now(); // Simple ID generation for in-memory storage
     const technique: MitreAttackTechnique = { 
@@ -233,12 +349,13 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
-  async createScan(scanRequest: { target: string; scanType: string }): Promise<Scan> {
+  async createScan(scanRequest: { target: string; scanType: string; options?: ScanOptions }): Promise<Scan> {
     const [scan] = await db
       .insert(scans)
       .values({
         target: scanRequest.target,
         scanType: scanRequest.scanType,
+        options: scanRequest.options || null,
         status: 'pending',
         progress: 0,
         riskScore: null,
@@ -292,6 +409,15 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(subdomains).where(eq(subdomains.scanId, scanId));
   }
 
+  async updateSubdomain(id: number, updates: Partial<Subdomain>): Promise<Subdomain | undefined> {
+    const [subdomain] = await db
+      .update(subdomains)
+      .set(updates)
+      .where(eq(subdomains.id, id))
+      .returning();
+    return subdomain || undefined;
+  }
+
   async createTechnology(insertTechnology: InsertTechnology): Promise<Technology> {
     const [technology] = await db
       .insert(technologies)
@@ -304,6 +430,60 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(technologies).where(eq(technologies.scanId, scanId));
   }
 
+  async createHttpEndpoint(insertEndpoint: InsertHttpEndpoint): Promise<HttpEndpoint> {
+    const [endpoint] = await db
+      .insert(httpEndpoints)
+      .values(insertEndpoint)
+      .returning();
+    return endpoint;
+  }
+
+  async getHttpEndpointsByScan(scanId: number): Promise<HttpEndpoint[]> {
+    return await db.select().from(httpEndpoints).where(eq(httpEndpoints.scanId, scanId));
+  }
+
+  async createService(insertService: InsertService): Promise<Service> {
+    const [service] = await db
+      .insert(services)
+      .values(insertService)
+      .returning();
+    return service;
+  }
+
+  async getServices(filter: ServiceFilter): Promise<Service[]> {
+    const conditions: SQL[] = [];
+    if (filter.scanId !== undefined) conditions.push(eq(services.scanId, filter.scanId));
+    if (filter.host !== undefined) conditions.push(eq(services.host, filter.host));
+    if (filter.ipAddress !== undefined) conditions.push(eq(services.ipAddress, filter.ipAddress));
+    if (filter.port !== undefined) conditions.push(eq(services.port, filter.port));
+    if (filter.transport !== undefined) conditions.push(eq(services.transport, filter.transport));
+    if (filter.service !== undefined) conditions.push(eq(services.service, filter.service));
+    if (filter.product !== undefined) conditions.push(eq(services.product, filter.product));
+
+    return await db
+      .select()
+      .from(services)
+      .where(and(...conditions))
+      .orderBy(asc(services.host), asc(services.port));
+  }
+
+  async createWordlist(insertWordlist: InsertWordlist): Promise<Wordlist> {
+    const [wordlist] = await db
+      .insert(wordlists)
+      .values(insertWordlist)
+      .returning();
+    return wordlist;
+  }
+
+  async getWordlist(id: number): Promise<Wordlist | undefined> {
+    const [wordlist] = await db.select().from(wordlists).where(eq(wordlists.id, id));
+    return wordlist || undefined;
+  }
+
+  async getWordlists(): Promise<Wordlist[]> {
+    return await db.select().from(wordlists);
+  }
+
   async createMitreAttackTechnique(insertTechnique: InsertMitreAttackTechnique): Promise<MitreAttackTechnique> {
     const [technique] = await db
       .insert(mitreAttackTechniques)
@@ -0,0 +1,31 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parsePortSpec, formatPortRanges, NAMED_PORT_SETS } from './port-spec';
+
+test('parsePortSpec expands lists, ranges and open-ended ranges', () => {
+  assert.deepEqual(parsePortSpec('443,22,80-82,22'), [22, 80, 81, 82, 443]);
+  assert.deepEqual(parsePortSpec(' 65533- '), [65533, 65534, 65535]);
+  assert.deepEqual(parsePortSpec('-3'), [1, 2, 3]);
+});
+
+test('parsePortSpec resolves named sets, case-insensitively and mixed with ports', () => {
+  assert.equal(parsePortSpec('top-100').length, 100);
+  assert.equal(parsePortSpec('top-1000').length, 1000);
+  assert.equal(parsePortSpec('all').length, 65535);
+  assert.deepEqual(parsePortSpec('Common,1'), [1, ...parsePortSpec(NAMED_PORT_SETS.common)]);
+});
+
+test('parsePortSpec rejects malformed and out-of-range entries', () => {
+  assert.throws(() => parsePortSpec(''), /Empty entry/);
+  assert.throws(() => parsePortSpec('22,,80'), /Empty entry/);
+  assert.throws(() => parsePortSpec('ssh'), /Invalid port specification entry: ssh/);
+  assert.throws(() => parsePortSpec('0'), /out of bounds/);
+  assert.throws(() => parsePortSpec('65536'), /out of bounds/);
+  assert.throws(() => parsePortSpec('90-80'), /out of bounds/);
+});
+
+test('formatPortRanges compresses sorted ports back into range notation', () => {
+  assert.equal(formatPortRanges([22, 80, 81, 82, 443, 444]), '22,80-82,443-444');
+  assert.equal(formatPortRanges([]), '');
+  assert.equal(formatPortRanges(parsePortSpec('top-100')), NAMED_PORT_SETS['top-100']);
+});
@@ -0,0 +1,27 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { serviceFilterSchema } from './schema';
+
+test('serviceFilterSchema coerces query-string numbers and leaves missing filters out', () => {
+  assert.deepEqual(serviceFilterSchema.parse({}), {});
+  assert.deepEqual(serviceFilterSchema.parse({ scanId: '12', port: '6379', transport: 'tcp', product: 'Redis' }), {
+    scanId: 12, port: 6379, transport: 'tcp', product: 'Redis',
+  });
+  assert.deepEqual(serviceFilterSchema.parse({ host: 'db.example.test', ipAddress: '192.0.2.10', service: 'ssh' }), {
+    host: 'db.example.test', ipAddress: '192.0.2.10', service: 'ssh',
+  });
+});
+
+test('serviceFilterSchema rejects malformed filters', () => {
+  for (const query of [
+    { port: '0' },
+    { port: '65536' },
+    { port: 'http' },
+    { port: '22.5' },
+    { scanId: '-1' },
+    { transport: 'sctp' },
+    { service: '' },
+  ]) {
+    assert.equal(serviceFilterSchema.safeParse(query).success, false, JSON.stringify(query));
+  }
+});
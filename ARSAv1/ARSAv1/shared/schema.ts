@@ -1,6 +1,7 @@
-import { pgTable, text, serial, integer, boolean, timestamp, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, jsonb, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import net from "net";
 
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
@@ -16,6 +17,7 @@ export const scans = pgTable("scans", {
   progress: integer("progress").default(0),
   riskScore: integer("risk_score"),
   results: jsonb("results"),
+  options: jsonb("options"),
   createdAt: timestamp("created_at").defaultNow(),
   completedAt: timestamp("completed_at"),
 });
@@ -28,6 +30,9 @@ export const vulnerabilities = pgTable("vulnerabilities", {
   description: text("description").notNull(),
   cvss: text("cvss"),
   remediation: text("remediation"),
+  source: text("source").notNull().default("ai"), // 'ai', 'deterministic'
+  evidence: jsonb("evidence"),
+  subdomainId: integer("subdomain_id").references(() => subdomains.id), // set when the finding concerns one subdomain
 });
 
 export const subdomains = pgTable("subdomains", {
@@ -35,7 +40,13 @@ export const subdomains = pgTable("subdomains", {
   scanId: integer("scan_id").notNull().references(() => scans.id),
   subdomain: text("subdomain").notNull(),
   ipAddress: text("ip_address"),
-  status: text("status").notNull(), // 'active', 'inactive'
+  addresses: jsonb("addresses"), // every A/AAAA answer; ipAddress holds the first
+  status: text("status").notNull(), // 'resolving', 'http_live', 'dead', 'wildcard'
+  httpStatus: integer("http_status"),
+  title: text("title"),
+  source: text("source"), // 'bruteforce', 'axfr', 'certificate', 'permutation', 'recursion', 'ptr'
+  sourceDetail: jsonb("source_detail"), // e.g. the permutation rule and base name that produced the hit
+  parentId: integer("parent_id").references((): AnyPgColumn => subdomains.id), // discovered subdomain one label up
   technologies: jsonb("technologies"),
 });
 
@@ -48,6 +59,45 @@ export const technologies = pgTable("technologies", {
   confidence: integer("confidence"),
 });
 
+// One row per open port that answered HTTP or HTTPS
+export const httpEndpoints = pgTable("http_endpoints", {
+  id: serial("id").primaryKey(),
+  scanId: integer("scan_id").notNull().references(() => scans.id),
+  url: text("url").notNull(),
+  host: text("host").notNull(),
+  ipAddress: text("ip_address"),
+  port: integer("port").notNull(),
+  scheme: text("scheme").notNull(), // 'http', 'https'
+  statusCode: integer("status_code"),
+  title: text("title"),
+  headers: jsonb("headers"),
+  technologies: jsonb("technologies"),
+});
+
+// Open ports seen by a scan; firstSeen carries over from earlier scans that saw the same host, port and transport
+export const services = pgTable("services", {
+  id: serial("id").primaryKey(),
+  scanId: integer("scan_id").notNull().references(() => scans.id),
+  host: text("host").notNull(),
+  ipAddress: text("ip_address"),
+  port: integer("port").notNull(),
+  transport: text("transport").notNull(), // 'tcp', 'udp'
+  service: text("service"), // e.g. 'ssh', 'http'; null when service detection was off
+  product: text("product"),
+  version: text("version"),
+  banner: text("banner"),
+  firstSeen: timestamp("first_seen").notNull().defaultNow(),
+  lastSeen: timestamp("last_seen").notNull().defaultNow(),
+});
+
+export const wordlists = pgTable("wordlists", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  entries: jsonb("entries").$type<string[]>().notNull(),
+  entryCount: integer("entry_count").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 export const mitreAttackTechniques = pgTable("mitre_attack_techniques", {
   id: serial("id").primaryKey(),
   techniqueId: text("technique_id").notNull().unique(), // T1001, T1002, etc.
@@ -77,6 +127,109 @@ export const insertScanSchema = createInsertSchema(scans).omit({
   progress: true,
   riskScore: true,
   results: true,
+  options: true,
+});
+
+export const BUNDLED_WORDLISTS = ["small", "medium", "large"] as const;
+
+// Same forms the resolver pool accepts: a bare IP, "ipv4:port", or "[ipv6]" with an optional port
+function isResolverAddress(entry: string): boolean {
+  const bracketed = entry.match(/^\[([^\]]+)\](?::(\d{1,5}))?$/);
+  const withPort = entry.match(/^([^:]+):(\d{1,5})$/);
+  const port = bracketed?.[2] ?? withPort?.[2];
+  if (port !== undefined && (parseInt(port) < 1 || parseInt(port) > 65535)) {
+    return false;
+  }
+
+  if (bracketed) return net.isIPv6(bracketed[1]);
+  if (withPort) return net.isIPv4(withPort[1]);
+  return net.isIP(entry) !== 0;
+}
+
+// Per-scan tuning; every field has a default so an empty object is a valid request
+export const scanOptionsSchema = z.object({
+  enumeration: z.object({
+    wordlist: z.enum(BUNDLED_WORDLISTS).default("small"),
+    wordlistId: z.number().int().positive().optional(), // uploaded wordlist, overrides `wordlist`
+    concurrency: z.number().int().min(1).max(1000).default(50),
+    // What to do with candidates that only resolve to the wildcard answers
+    wildcardFilter: z.enum(["drop", "flag"]).default("drop"),
+  }).default({}),
+  permutations: z.object({
+    enabled: z.boolean().default(true),
+    affixes: z.array(z.string().regex(/^[a-z0-9-]{1,30}$/i)).max(100).default([]), // merged with the built-in environment words
+    maxCandidates: z.number().int().min(1).max(100000).default(5000),
+  }).default({}),
+  recursion: z.object({
+    enabled: z.boolean().default(true),
+    depth: z.number().int().min(1).max(5).default(1), // levels below the target's direct subdomains
+    budget: z.number().int().min(1).max(100000).default(1000), // DNS queries per level, shared by all parents
+    wordlist: z.enum(BUNDLED_WORDLISTS).default("small"),
+  }).default({}),
+  zoneTransfer: z.object({
+    // AXFR goes to these instead of the zone's NS records: a hidden primary, or a lab server standing in for one
+    nameservers: z.array(z.string().refine(
+      value => net.isIP(value) !== 0 || /^[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?(\.[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?)*$/i.test(value),
+      "Nameservers must be IP addresses or hostnames"
+    )).max(10).default([]),
+    port: z.number().int().min(1).max(65535).default(53),
+    timeout: z.number().int().min(1000).max(60000).default(10000), // per transfer, in milliseconds
+  }).default({}),
+  reverseDns: z.object({
+    enabled: z.boolean().default(true),
+    // Also look up neighbouring IPv4 addresses: the whole /24, or `window` addresses either side
+    neighbours: z.enum(["none", "subnet", "window"]).default("none"),
+    window: z.number().int().min(1).max(256).default(8),
+    maxLookups: z.number().int().min(1).max(65536).default(4096),
+  }).default({}),
+  ports: z.object({
+    // nmap-style list ("1-1024,3389,8000-8100") and/or named sets: common, top-100, top-1000, all
+    spec: z.string().min(1).max(2000).default("common"),
+    concurrency: z.number().int().min(1).max(5000).default(200),
+    perHostConcurrency: z.number().int().min(1).max(5000).default(100),
+    rate: z.number().int().min(1).max(100000).default(1000), // connection attempts per second
+    retries: z.number().int().min(0).max(5).default(1), // for ports whose connection attempt timed out
+    // Connect timeouts adapt to each host's measured round-trip time within these bounds (milliseconds)
+    minTimeout: z.number().int().min(50).max(60000).default(250),
+    maxTimeout: z.number().int().min(50).max(60000).default(3000),
+    // Read banners and send protocol probes to open ports to identify service, product and version
+    serviceDetection: z.boolean().default(true),
+  }).refine(ports => ports.minTimeout <= ports.maxTimeout, {
+    message: "minTimeout must not exceed maxTimeout",
+    path: ["minTimeout"],
+  }).default({}),
+  // Range targets (CIDR blocks and dash ranges) only; connect timing comes from `ports`
+  discovery: z.object({
+    // TCP ping: a host is live when any of these ports accepts or refuses a connection
+    ports: z.string().min(1).max(200).default("22,80,443,445,3389"),
+    hostConcurrency: z.number().int().min(1).max(64).default(4), // live hosts scanned at once, together within ports.rate and ports.concurrency
+  }).default({}),
+  udp: z.object({
+    // Off unless asked for: the probes include an SNMP request with the "public" community
+    enabled: z.boolean().default(false),
+    // Same syntax as ports.spec; ports with a protocol probe (DNS, NTP, SNMP, IKE) give the most reliable answers
+    spec: z.string().min(1).max(2000).default("53,123,161,500"),
+    timeout: z.number().int().min(100).max(10000).default(2000),
+    retries: z.number().int().min(0).max(5).default(1),
+  }).default({}),
+  web: z.object({
+    maxRedirects: z.number().int().min(0).max(20).default(5), // followed from the root page; 0 records only the first response
+    maxBodyBytes: z.number().int().min(1024).max(5 * 1024 * 1024).default(512 * 1024), // root page body kept for fingerprinting
+  }).default({}),
+  // Read-only checks for data stores that accept commands without credentials; each must be enabled explicitly
+  exposureChecks: z.object({
+    redis: z.boolean().default(false), // PING and INFO server
+    mongodb: z.boolean().default(false), // isMaster and listDatabases (names only)
+    elasticsearch: z.boolean().default(false), // GET /
+    memcached: z.boolean().default(false), // stats
+  }).default({}),
+  dns: z.object({
+    // IPv4 or IPv6 resolver addresses with an optional port ("10.0.0.53", "10.0.0.53:5353", "[2001:db8::1]:53");
+    // empty means the server-wide DNS_RESOLVERS list, or the system resolvers
+    servers: z.array(z.string().refine(isResolverAddress, "DNS servers must be IP addresses with an optional port between 1 and 65535")).max(20).default([]),
+    timeout: z.number().int().min(100).max(60000).optional(), // per attempt, in milliseconds
+    retries: z.number().int().min(0).max(10).optional(),
+  }).default({}),
 });
 
 export const insertVulnerabilitySchema = createInsertSchema(vulnerabilities).omit({
@@ -91,6 +244,32 @@ export const insertTechnologySchema = createInsertSchema(technologies).omit({
   id: true,
 });
 
+export const insertHttpEndpointSchema = createInsertSchema(httpEndpoints).omit({
+  id: true,
+});
+
+export const insertServiceSchema = createInsertSchema(services).omit({
+  id: true,
+});
+
+// Query-string filters for GET /api/services; every field is optional and they combine with AND
+export const serviceFilterSchema = z.object({
+  scanId: z.coerce.number().int().positive().optional(),
+  host: z.string().min(1).optional(),
+  ipAddress: z.string().min(1).optional(),
+  port: z.coerce.number().int().min(1).max(65535).optional(),
+  transport: z.enum(["tcp", "udp"]).optional(),
+  service: z.string().min(1).optional(),
+  product: z.string().min(1).optional(),
+});
+
+export const insertWordlistSchema = createInsertSchema(wordlists, {
+  entries: z.array(z.string()),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertMitreAttackTechniqueSchema = createInsertSchema(mitreAttackTechniques).omit({
   id: true,
 });
@@ -108,12 +287,20 @@ export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 export type InsertScan = z.infer<typeof insertScanSchema>;
 export type Scan = typeof scans.$inferSelect;
+export type ScanOptions = z.infer<typeof scanOptionsSchema>;
 export type InsertVulnerability = z.infer<typeof insertVulnerabilitySchema>;
 export type Vulnerability = typeof vulnerabilities.$inferSelect;
 export type InsertSubdomain = z.infer<typeof insertSubdomainSchema>;
 export type Subdomain = typeof subdomains.$inferSelect;
 export type InsertTechnology = z.infer<typeof insertTechnologySchema>;
 export type Technology = typeof technologies.$inferSelect;
+export type InsertHttpEndpoint = z.infer<typeof insertHttpEndpointSchema>;
+export type HttpEndpoint = typeof httpEndpoints.$inferSelect;
+export type InsertService = z.infer<typeof insertServiceSchema>;
+export type Service = typeof services.$inferSelect;
+export type ServiceFilter = z.infer<typeof serviceFilterSchema>;
+export type InsertWordlist = z.infer<typeof insertWordlistSchema>;
+export type Wordlist = typeof wordlists.$inferSelect;
 export type InsertMitreAttackTechnique = z.infer<typeof insertMitreAttackTechniqueSchema>;
 export type MitreAttackTechnique = typeof mitreAttackTechniques.$inferSelect;
 export type InsertVulnerabilityMitreMapping = z.infer<typeof insertVulnerabilityMitreMappingSchema>;